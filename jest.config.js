@@ -4,9 +4,10 @@ export default {
   preset: 'ts-jest',
   testEnvironment: 'node',
   testMatch: ["**/tests/**/*.test.ts"],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
-    '^(\.{1,2}/.*)\.js$': '$1',
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   transform: {
     // \.[jt]sx?$ is used for ts-jest by default
@@ -0,0 +1,98 @@
+import { resolveBaseURL, DEFAULT_BASE_URL } from '../trello/client.js';
+import { accountsFilePath, listAccounts, resolveAccount } from '../utils/accounts.js';
+import type { TrelloCredentials } from '../types/trello.js';
+import { verifyCredentials } from './setup.js';
+import type { CliIO } from './io.js';
+
+export interface DoctorCheck {
+  name: string;
+  status: 'ok' | 'warn' | 'fail';
+  detail: string;
+}
+
+const MIN_NODE_MAJOR = 18;
+
+const SYMBOLS: Record<DoctorCheck['status'], string> = { ok: '✔', warn: '!', fail: '✖' };
+
+async function checkCredentials(name: string, credentials: TrelloCredentials): Promise<DoctorCheck> {
+  const verified = await verifyCredentials(credentials);
+  return verified.ok
+    ? { name, status: 'ok', detail: `authenticated as ${verified.fullName} (@${verified.username})` }
+    : { name, status: 'fail', detail: `${verified.message} Run "trello-desktop-mcp setup" to create a new token.` };
+}
+
+/**
+ * Inspects the runtime, environment and account profiles and checks every
+ * configured credential pair against Trello.
+ */
+export async function diagnose(): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  const major = Number(process.versions.node.split('.')[0]);
+  checks.push(major >= MIN_NODE_MAJOR
+    ? { name: 'Node.js', status: 'ok', detail: process.version }
+    : { name: 'Node.js', status: 'fail', detail: `${process.version} is too old; version ${MIN_NODE_MAJOR} or newer is required` });
+
+  const baseURL = resolveBaseURL();
+  if (baseURL !== DEFAULT_BASE_URL) {
+    checks.push({ name: 'API endpoint', status: 'warn', detail: `TRELLO_BASE_URL points requests at ${baseURL}` });
+  }
+
+  const { TRELLO_API_KEY: apiKey, TRELLO_TOKEN: token } = process.env;
+  if (apiKey && token) {
+    checks.push(await checkCredentials('Environment credentials', { apiKey, token }));
+  } else if (apiKey || token) {
+    checks.push({
+      name: 'Environment credentials',
+      status: 'fail',
+      detail: `${apiKey ? 'TRELLO_TOKEN' : 'TRELLO_API_KEY'} is missing; set both variables or neither`
+    });
+  }
+
+  let profiles: ReturnType<typeof listAccounts> = [];
+  try {
+    profiles = listAccounts();
+    checks.push(profiles.length > 0
+      ? { name: 'Accounts file', status: 'ok', detail: `${accountsFilePath()} defines ${profiles.map(profile => profile.name).join(', ')}` }
+      : { name: 'Accounts file', status: 'warn', detail: `no profiles in ${accountsFilePath()}` });
+  } catch (error) {
+    checks.push({ name: 'Accounts file', status: 'fail', detail: error instanceof Error ? error.message : String(error) });
+  }
+
+  for (const profile of profiles) {
+    const name = `Account "${profile.name}"${profile.isDefault ? ' (default)' : ''}`;
+    try {
+      checks.push(await checkCredentials(name, resolveAccount(profile.name)));
+    } catch (error) {
+      checks.push({ name, status: 'fail', detail: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (!(apiKey && token) && !profiles.some(profile => profile.isDefault)) {
+    checks.push({
+      name: 'Default credentials',
+      status: 'fail',
+      detail: profiles.length > 0
+        ? 'TRELLO_API_KEY/TRELLO_TOKEN are unset and no profile is marked "default", so tools called without "account" will fail'
+        : 'the server has no credentials: set TRELLO_API_KEY and TRELLO_TOKEN, or run "trello-desktop-mcp setup"'
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * `trello-desktop-mcp doctor`: prints the diagnosis. Exits non-zero when any
+ * check failed.
+ */
+export async function runDoctor(io: CliIO): Promise<number> {
+  const checks = await diagnose();
+  for (const check of checks) {
+    io.print(`${SYMBOLS[check.status]} ${check.name}: ${check.detail}`);
+  }
+
+  const failed = checks.filter(check => check.status === 'fail').length;
+  io.print();
+  io.print(failed === 0 ? 'Configuration looks good.' : `${failed} problem(s) found.`);
+  return failed === 0 ? 0 : 1;
+}
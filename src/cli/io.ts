@@ -0,0 +1,28 @@
+import { createInterface } from 'node:readline/promises';
+
+/**
+ * Terminal access for the CLI subcommands, injectable so tests can script the
+ * answers and capture the output.
+ */
+export interface CliIO {
+  ask(question: string, defaultValue?: string): Promise<string>;
+  print(line?: string): void;
+  close(): void;
+}
+
+export function createConsoleIO(): CliIO {
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  return {
+    async ask(question, defaultValue) {
+      const suffix = defaultValue ? ` [${defaultValue}]` : '';
+      const answer = (await readline.question(`${question}${suffix}: `)).trim();
+      return answer || defaultValue || '';
+    },
+    print(line = '') {
+      console.log(line);
+    },
+    close() {
+      readline.close();
+    }
+  };
+}
@@ -0,0 +1,110 @@
+import { TrelloClient } from '../trello/client.js';
+import { ResponseCache } from '../trello/cache.js';
+import { silentLogger } from '../utils/logger.js';
+import { listAccounts, saveAccount } from '../utils/accounts.js';
+import type { TrelloCredentials, TrelloError } from '../types/trello.js';
+import type { CliIO } from './io.js';
+
+export const API_KEY_PAGE = 'https://trello.com/power-ups/admin';
+export const AUTHORIZE_URL = 'https://trello.com/1/authorize';
+
+export const TOKEN_SCOPES = ['read', 'read,write'] as const;
+export const TOKEN_EXPIRATIONS = ['1hour', '1day', '30days', 'never'] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+export type TokenExpiration = typeof TOKEN_EXPIRATIONS[number];
+
+export interface AuthorizeOptions {
+  apiKey: string;
+  scope: TokenScope;
+  expiration: TokenExpiration;
+  // Application name shown on Trello's consent screen
+  name?: string;
+}
+
+/**
+ * The page where the user grants a token to this API key. Trello shows the
+ * token on screen afterwards (response_type=token, no callback).
+ */
+export function buildAuthorizeURL(options: AuthorizeOptions): string {
+  const url = new URL(AUTHORIZE_URL);
+  url.searchParams.set('expiration', options.expiration);
+  url.searchParams.set('name', options.name ?? 'Trello Desktop MCP');
+  url.searchParams.set('scope', options.scope);
+  url.searchParams.set('response_type', 'token');
+  url.searchParams.set('key', options.apiKey);
+  return url.toString();
+}
+
+async function choose<T extends string>(io: CliIO, question: string, choices: readonly T[], defaultValue: T): Promise<T> {
+  for (;;) {
+    const answer = await io.ask(`${question} (${choices.join(' / ')})`, defaultValue);
+    const choice = choices.find(candidate => candidate === answer);
+    if (choice) return choice;
+    io.print(`Please answer one of: ${choices.join(', ')}`);
+  }
+}
+
+async function askRequired(io: CliIO, question: string, pattern?: RegExp, hint?: string): Promise<string> {
+  for (;;) {
+    const answer = await io.ask(question);
+    if (answer && (!pattern || pattern.test(answer))) return answer;
+    io.print(hint ?? 'A value is required.');
+  }
+}
+
+/**
+ * Checks a key/token pair against /members/me. Returns the member on success
+ * or a message explaining the failure.
+ */
+export async function verifyCredentials(credentials: TrelloCredentials): Promise<
+  { ok: true; username: string; fullName: string } | { ok: false; message: string }
+> {
+  try {
+    const client = new TrelloClient(credentials, { cache: new ResponseCache(0), logger: silentLogger });
+    const { data } = await client.getCurrentUser();
+    return { ok: true, username: data.username, fullName: data.fullName };
+  } catch (error) {
+    return { ok: false, message: (error as TrelloError)?.message ?? String(error) };
+  }
+}
+
+/**
+ * `trello-desktop-mcp setup`: creates an API key and token with the user and
+ * stores them as an account profile. Returns the process exit code.
+ */
+export async function runSetup(io: CliIO): Promise<number> {
+  io.print('Trello Desktop MCP setup');
+  io.print();
+  io.print('1. Create an API key');
+  io.print(`   Open ${API_KEY_PAGE}, create a Power-Up (any name), then choose "API key" → "Generate a new API key".`);
+  const apiKey = await askRequired(io, 'API key', /^[a-f0-9]{32}$/i, 'Trello API keys are 32 hexadecimal characters.');
+
+  io.print();
+  io.print('2. Authorize a token');
+  const scope = await choose(io, 'Access', TOKEN_SCOPES, 'read,write');
+  const expiration = await choose(io, 'Token expiration', TOKEN_EXPIRATIONS, 'never');
+  io.print(`   Open this URL, click "Allow" and copy the token shown:`);
+  io.print(`   ${buildAuthorizeURL({ apiKey, scope, expiration })}`);
+  const token = await askRequired(io, 'Token');
+
+  io.print();
+  io.print('3. Checking the token against /members/me ...');
+  const verified = await verifyCredentials({ apiKey, token });
+  if (!verified.ok) {
+    io.print(`   Trello rejected these credentials: ${verified.message}`);
+    io.print('   Nothing was saved. Check that the token was generated for this API key and run setup again.');
+    return 1;
+  }
+  io.print(`   Authenticated as ${verified.fullName} (@${verified.username})`);
+
+  io.print();
+  const existing = listAccounts();
+  const name = await askRequired(io, 'Profile name (e.g. work)', /^[\w.-]+$/, 'Use letters, digits, ".", "_" or "-".');
+  const makeDefault = existing.length === 0 || (await io.ask('Make this the default account? (y/n)', 'n')).toLowerCase().startsWith('y');
+  const file = saveAccount(name, { apiKey, token, description: `@${verified.username} (${scope})` }, { makeDefault });
+
+  io.print(`Saved profile "${name}" to ${file}.`);
+  io.print(`Tools use it ${makeDefault ? 'by default' : `when called with "account": "${name}"`}. Run "trello-desktop-mcp doctor" to check the whole configuration.`);
+  return 0;
+}
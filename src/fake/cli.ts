@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+
+import { startFakeTrelloServer } from './server.js';
+
+// Serves the sample board on PORT (default 4010); point the MCP server at it
+// with TRELLO_BASE_URL and any TRELLO_API_KEY / TRELLO_TOKEN values
+const port = Number(process.env.PORT) || 4010;
+
+startFakeTrelloServer({ port }).then(fake => {
+  console.log(`Fake Trello API listening on ${fake.url}`);
+  console.log(`Use it with: TRELLO_BASE_URL=${fake.url} TRELLO_API_KEY=fake TRELLO_TOKEN=fake`);
+}).catch((error: unknown) => {
+  console.error(`Could not start the fake Trello API: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
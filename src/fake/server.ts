@@ -0,0 +1,382 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { FakeTrelloError, FakeTrelloState } from './state.js';
+
+type Params = Record<string, unknown>;
+
+interface RouteContext {
+  state: FakeTrelloState;
+  path: Record<string, string>;
+  params: Params;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handle(context: RouteContext): unknown;
+}
+
+export interface FakeTrelloServerOptions {
+  // 0 (the default) picks a free port
+  port?: number;
+  host?: string;
+  state?: FakeTrelloState;
+}
+
+export interface FakeTrelloServer {
+  server: Server;
+  // API root to use as TRELLO_BASE_URL, e.g. http://127.0.0.1:4010/1
+  url: string;
+  state: FakeTrelloState;
+  close(): Promise<void>;
+}
+
+// Trello's list of card filters treats "open" and "visible" the same way
+function cardFilter(filter: unknown, fallback: string): string {
+  const value = typeof filter === 'string' ? filter : fallback;
+  return value === 'open' ? 'visible' : value;
+}
+
+function limit(value: unknown, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+const routes: Route[] = [];
+
+function route(method: string, path: string, handle: Route['handle']) {
+  const keys: string[] = [];
+  const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_match, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  })}$`);
+  routes.push({ method, pattern, keys, handle });
+}
+
+// Members
+
+route('GET', '/members/me/boards', ({ state, params }) => {
+  const filter = text(params.filter) || 'open';
+  return [...state.boards.values()]
+    .filter(board => board.idMembers.includes(state.me.id))
+    .filter(board => filter === 'all' || board.closed === (filter === 'closed'))
+    .map(board => state.boardView(board));
+});
+
+route('GET', '/members/:id', ({ state, path, params }) => {
+  const member = state.findMember(path.id);
+  const boardFilter = text(params.boards);
+  return {
+    ...member,
+    ...(boardFilter && member.id === state.me.id && {
+      boards: [...state.boards.values()]
+        .filter(board => boardFilter === 'all' || board.closed === (boardFilter === 'closed'))
+        .map(board => state.boardView(board))
+    }),
+    ...(params.organizations !== undefined && { organizations: [] })
+  };
+});
+
+// Boards
+
+route('GET', '/boards/:id', ({ state, path, params }) => {
+  const board = state.findBoard(path.id);
+  const view = state.boardView(board);
+  const cardOptions = { members: params.card_members === 'true' };
+  return {
+    ...view,
+    ...(params.lists !== undefined && {
+      lists: state.boardLists(board.id, text(params.lists)).map(list => state.listView(list))
+    }),
+    ...(params.cards !== undefined && {
+      cards: state.boardCards(board.id, cardFilter(params.cards, 'visible')).map(card => state.cardView(card, cardOptions))
+    })
+  };
+});
+
+route('POST', '/boards', ({ state, params }) => {
+  if (!text(params.name)) throw new FakeTrelloError(400, 'invalid value for name');
+  const input = {
+    name: text(params.name),
+    ...(typeof params.desc === 'string' && { desc: params.desc }),
+    ...(typeof params.idOrganization === 'string' && { idOrganization: params.idOrganization })
+  };
+  const board = params.idBoardSource !== undefined
+    ? state.copyBoard(text(params.idBoardSource), input, params.keepFromSource === 'cards')
+    : state.createBoard({ ...input, defaultLists: params.defaultLists !== false && params.defaultLists !== 'false' });
+  return state.boardView(board);
+});
+
+route('PUT', '/boards/:id', ({ state, path, params }) => state.boardView(state.updateBoard(path.id, params)));
+
+route('GET', '/boards/:id/lists', ({ state, path, params }) =>
+  state.boardLists(path.id, text(params.filter) || 'open').map(list => state.listView(list)));
+
+route('GET', '/boards/:id/cards', ({ state, path, params }) =>
+  state.boardCards(path.id, cardFilter(params.filter, 'visible'))
+    .map(card => state.cardView(card, { members: params.members === 'true' })));
+
+route('GET', '/boards/:id/labels', ({ state, path }) => {
+  const board = state.findBoard(path.id);
+  return [...state.labels.values()].filter(label => label.idBoard === board.id).map(label => state.labelView(label));
+});
+
+route('GET', '/boards/:id/members', ({ state, path }) =>
+  state.findBoard(path.id).idMembers.map(id => state.findMember(id)));
+
+route('GET', '/boards/:id/actions', ({ state, path, params }) => {
+  const types = text(params.filter).split(',').filter(type => type && type !== 'all');
+  const since = text(params.since);
+  return state.boardActions(path.id)
+    .filter(action => types.length === 0 || types.includes(action.type))
+    .filter(action => !since || action.date > since)
+    .slice(0, limit(params.limit, 50));
+});
+
+// Lists
+
+route('POST', '/lists', ({ state, params }) =>
+  state.listView(state.createList({ name: text(params.name), idBoard: text(params.idBoard), pos: params.pos })));
+
+route('GET', '/lists/:id', ({ state, path }) => state.listView(state.findList(path.id)));
+
+route('PUT', '/lists/:id', ({ state, path, params }) => state.listView(state.updateList(path.id, params)));
+
+route('GET', '/lists/:id/cards', ({ state, path, params }) =>
+  state.listCards(path.id, text(params.filter) || 'open').map(card => state.cardView(card)));
+
+route('POST', '/lists/:id/moveAllCards', ({ state, path, params }) =>
+  state.moveAllCards(path.id, params).map(card => state.cardView(card)));
+
+route('POST', '/lists/:id/archiveAllCards', ({ state, path }) => {
+  state.archiveAllCards(path.id);
+  return {};
+});
+
+// Cards
+
+route('POST', '/cards', ({ state, params }) => state.cardView(state.createCard(params)));
+
+route('GET', '/cards/:id', ({ state, path, params }) =>
+  state.cardView(state.findCard(path.id), { members: params.members === 'true', checklists: params.checklists === 'all' }));
+
+route('PUT', '/cards/:id', ({ state, path, params }) => state.cardView(state.updateCard(path.id, params)));
+
+route('DELETE', '/cards/:id', ({ state, path }) => {
+  state.deleteCard(path.id);
+  return { limits: {} };
+});
+
+route('GET', '/cards/:id/actions', ({ state, path, params }) => {
+  const types = text(params.filter).split(',').filter(type => type && type !== 'all');
+  return state.cardActions(path.id)
+    .filter(action => types.length === 0 || types.includes(action.type))
+    .slice(0, limit(params.limit, 50));
+});
+
+route('POST', '/cards/:id/actions/comments', ({ state, path, params }) => state.addComment(path.id, text(params.text)));
+
+route('GET', '/cards/:id/attachments', ({ state, path }) => {
+  state.findCard(path.id);
+  return [];
+});
+
+route('GET', '/cards/:id/checklists', ({ state, path }) => state.cardChecklists(path.id));
+
+route('POST', '/cards/:id/idLabels', ({ state, path, params }) => state.addLabelToCard(path.id, text(params.value)));
+
+route('DELETE', '/cards/:id/idLabels/:labelId', ({ state, path }) => {
+  state.removeLabelFromCard(path.id, path.labelId);
+  return { _value: null };
+});
+
+route('GET', '/cards/:id/checkItem/:checkItemId', ({ state, path }) => state.findCheckItem(path.id, path.checkItemId));
+
+route('PUT', '/cards/:id/checkItem/:checkItemId', ({ state, path, params }) =>
+  state.updateCheckItem(path.id, path.checkItemId, params));
+
+// Labels
+
+route('POST', '/labels', ({ state, params }) =>
+  state.labelView(state.createLabel({ name: text(params.name), color: text(params.color), idBoard: text(params.idBoard) })));
+
+route('GET', '/labels/:id', ({ state, path }) => state.labelView(state.findLabel(path.id)));
+
+route('PUT', '/labels/:id', ({ state, path, params }) => state.labelView(state.updateLabel(path.id, params)));
+
+// Checklists
+
+route('POST', '/checklists', ({ state, params }) =>
+  state.createChecklist({ idCard: text(params.idCard), name: params.name, pos: params.pos }));
+
+route('GET', '/checklists/:id', ({ state, path }) => state.findChecklist(path.id));
+
+route('PUT', '/checklists/:id', ({ state, path, params }) => state.updateChecklist(path.id, params));
+
+route('DELETE', '/checklists/:id', ({ state, path }) => {
+  state.deleteChecklist(path.id);
+  return { limits: {} };
+});
+
+route('POST', '/checklists/:id/checkItems', ({ state, path, params }) => state.addCheckItem(path.id, params));
+
+route('GET', '/checklists/:id/checkItems/:checkItemId', ({ state, path }) =>
+  state.findChecklistItem(path.id, path.checkItemId));
+
+route('DELETE', '/checklists/:id/checkItems/:checkItemId', ({ state, path }) => {
+  state.deleteCheckItem(path.id, path.checkItemId);
+  return { limits: {} };
+});
+
+// Search and batch
+
+route('GET', '/search', ({ state, params }) => {
+  const needle = text(params.query).toLowerCase();
+  const types = (text(params.modelTypes) || 'all').split(',');
+  const wants = (type: string) => types.includes('all') || types.includes(type);
+  const boardIds = text(params.idBoards).split(',').filter(Boolean);
+  const matches = (...fields: string[]) => fields.some(field => field.toLowerCase().includes(needle));
+
+  return {
+    ...(wants('boards') && {
+      boards: [...state.boards.values()]
+        .filter(board => matches(board.name, board.desc))
+        .slice(0, limit(params.boards_limit, 10))
+        .map(board => state.boardView(board))
+    }),
+    ...(wants('cards') && {
+      cards: [...state.cards.values()]
+        .filter(card => boardIds.length === 0 || boardIds.includes(card.idBoard))
+        .filter(card => matches(card.name, card.desc))
+        .slice(0, limit(params.cards_limit, 10))
+        .map(card => state.cardView(card))
+    }),
+    ...(wants('members') && {
+      members: [...state.members.values()]
+        .filter(member => matches(member.fullName, member.username))
+        .slice(0, limit(params.members_limit, 10))
+    })
+  };
+});
+
+route('GET', '/batch', ({ state, params }) =>
+  text(params.urls).split(',').map(url => {
+    const parsed = new URL(url.replace(/%2C/gi, ','), 'http://fake.invalid');
+    const endpoint = parsed.pathname.replace(/^\/1(?=\/)/, '');
+    try {
+      return { 200: dispatch(state, 'GET', endpoint, Object.fromEntries(parsed.searchParams)) };
+    } catch (error) {
+      const failure = toFailure(error);
+      return { [failure.status]: failure.message };
+    }
+  }));
+
+function dispatch(state: FakeTrelloState, method: string, endpoint: string, params: Params): unknown {
+  let methodAllowed = true;
+  for (const candidate of routes) {
+    const match = candidate.pattern.exec(endpoint);
+    if (!match) continue;
+    if (candidate.method !== method) {
+      methodAllowed = false;
+      continue;
+    }
+    const path = Object.fromEntries(candidate.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+    return candidate.handle({ state, path, params });
+  }
+  throw methodAllowed
+    ? new FakeTrelloError(404, `Cannot ${method} /1${endpoint}`)
+    : new FakeTrelloError(405, `Method ${method} not allowed on /1${endpoint}`);
+}
+
+function toFailure(error: unknown): FakeTrelloError {
+  return error instanceof FakeTrelloError
+    ? error
+    : new FakeTrelloError(500, error instanceof Error ? error.message : String(error));
+}
+
+async function readBody(request: IncomingMessage): Promise<Params> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed as Params : {};
+  } catch {
+    throw new FakeTrelloError(400, 'Invalid JSON body');
+  }
+}
+
+function send(response: ServerResponse, status: number, body: unknown) {
+  if (typeof body === 'string') {
+    response.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end(body);
+  } else {
+    response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    response.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Request listener serving the subset of the Trello REST API that TrelloClient
+ * uses, backed by `state`. Any key/token pair is accepted, but one is required,
+ * either in the OAuth Authorization header or as key/token query parameters.
+ */
+export function createFakeTrelloHandler(state: FakeTrelloState) {
+  return async (request: IncomingMessage, response: ServerResponse) => {
+    try {
+      const url = new URL(request.url ?? '/', 'http://fake.invalid');
+      const params: Params = Object.fromEntries(url.searchParams);
+      const authorization = request.headers.authorization ?? '';
+      const oauthKey = /oauth_consumer_key="([^"]*)"/.exec(authorization)?.[1];
+      const oauthToken = /oauth_token="([^"]*)"/.exec(authorization)?.[1];
+      if (!(oauthKey && oauthToken) && !(params.key && params.token)) {
+        throw new FakeTrelloError(401, 'invalid key');
+      }
+      delete params.key;
+      delete params.token;
+
+      if (!url.pathname.startsWith('/1/')) {
+        throw new FakeTrelloError(404, `Cannot ${request.method} ${url.pathname}`);
+      }
+
+      const method = request.method ?? 'GET';
+      const body = method === 'GET' || method === 'HEAD' ? {} : await readBody(request);
+      const result = dispatch(state, method, url.pathname.slice(2), { ...params, ...body });
+      send(response, 200, result ?? {});
+    } catch (error) {
+      const failure = toFailure(error);
+      // Trello answers errors with a plain-text message
+      send(response, failure.status, failure.message);
+    }
+  };
+}
+
+export async function startFakeTrelloServer(options: FakeTrelloServerOptions = {}): Promise<FakeTrelloServer> {
+  const state = options.state ?? FakeTrelloState.withSampleData();
+  const host = options.host ?? '127.0.0.1';
+  const server = createServer(createFakeTrelloHandler(state));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    server,
+    url: `http://${host}:${port}/1`,
+    state,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
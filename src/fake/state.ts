@@ -0,0 +1,680 @@
+import type {
+  TrelloAction,
+  TrelloBoard,
+  TrelloCard,
+  TrelloCheckItem,
+  TrelloChecklist,
+  TrelloLabel,
+  TrelloList,
+  TrelloMember
+} from '../types/trello.js';
+
+/**
+ * Thrown by state operations and turned into an HTTP error response by the
+ * fake server, mirroring the plain-text errors the real API sends.
+ */
+export class FakeTrelloError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FakeTrelloError';
+  }
+}
+
+interface StoredBoard {
+  id: string;
+  shortLink: string;
+  name: string;
+  desc: string;
+  closed: boolean;
+  idOrganization: string | null;
+  idMembers: string[];
+  prefs: TrelloBoard['prefs'];
+  dateLastActivity: string;
+}
+
+interface StoredList {
+  id: string;
+  name: string;
+  closed: boolean;
+  pos: number;
+  idBoard: string;
+  softLimit: number | null;
+}
+
+interface StoredCard {
+  id: string;
+  shortLink: string;
+  name: string;
+  desc: string;
+  closed: boolean;
+  pos: number;
+  idBoard: string;
+  idList: string;
+  idLabels: string[];
+  idMembers: string[];
+  due: string | null;
+  dueComplete: boolean;
+  dateLastActivity: string;
+}
+
+type StoredChecklist = Omit<TrelloChecklist, 'checkItems'> & { checkItems: TrelloCheckItem[] };
+
+export interface CardViewOptions {
+  members?: boolean;
+  checklists?: boolean;
+}
+
+const POSITION_STEP = 16384;
+const FAKE_HOST = 'https://trello.com';
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function initials(fullName: string): string {
+  return fullName.split(/\s+/).map(part => part[0] ?? '').join('').toUpperCase();
+}
+
+function bool(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+// Query-string writes send ID lists comma separated, JSON bodies as arrays
+function ids(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return value.split(',').filter(Boolean);
+  return [];
+}
+
+/**
+ * In-memory Trello account: boards, lists, cards, labels, checklists, members
+ * and the actions recorded as they change. IDs and shortLinks are sequential,
+ * so runs over the same sequence of calls are reproducible.
+ */
+export class FakeTrelloState {
+  boards = new Map<string, StoredBoard>();
+  lists = new Map<string, StoredList>();
+  cards = new Map<string, StoredCard>();
+  labels = new Map<string, Omit<TrelloLabel, 'uses'>>();
+  checklists = new Map<string, StoredChecklist>();
+  members = new Map<string, TrelloMember>();
+  actions: TrelloAction[] = [];
+  readonly me: TrelloMember;
+  private counter = 0;
+
+  constructor() {
+    this.me = this.addMember('Fake User', 'fakeuser');
+  }
+
+  static withSampleData(): FakeTrelloState {
+    const state = new FakeTrelloState();
+    const teammate = state.addMember('Sam Rivera', 'samrivera');
+    const board = state.createBoard({ name: 'Product Roadmap', desc: 'Sample board served by the fake Trello API' });
+    state.boards.get(board.id)!.idMembers.push(teammate.id);
+
+    const backlog = state.createList({ name: 'Backlog', idBoard: board.id });
+    const doing = state.createList({ name: 'In Progress', idBoard: board.id });
+    state.createList({ name: 'Done', idBoard: board.id });
+
+    const bug = state.createLabel({ name: 'Bug', color: 'red', idBoard: board.id });
+    const feature = state.createLabel({ name: 'Feature', color: 'green', idBoard: board.id });
+    state.createLabel({ name: 'Urgent', color: 'orange', idBoard: board.id });
+
+    state.createCard({ name: 'Fix login redirect', desc: 'Users land on a blank page after signing in', idList: doing.id, idLabels: [bug.id], idMembers: [teammate.id] });
+    state.createCard({ name: 'Dark mode', desc: 'Follow the system theme', idList: backlog.id, idLabels: [feature.id] });
+    state.createCard({ name: 'Write release notes', idList: backlog.id });
+    return state;
+  }
+
+  nextId(): string {
+    this.counter++;
+    return `64b7f2c5d9a1${this.counter.toString(16).padStart(12, '0')}`;
+  }
+
+  private nextShortLink(): string {
+    return `fk${this.counter.toString(36).padStart(6, '0')}`;
+  }
+
+  private nextPosition(positions: number[], pos: unknown): number {
+    if (typeof pos === 'number') return pos;
+    if (typeof pos === 'string' && pos !== 'top' && pos !== 'bottom' && !Number.isNaN(Number(pos))) return Number(pos);
+    if (pos === 'top') return positions.length > 0 ? Math.min(...positions) / 2 : POSITION_STEP;
+    return (positions.length > 0 ? Math.max(...positions) : 0) + POSITION_STEP;
+  }
+
+  addMember(fullName: string, username: string): TrelloMember {
+    const member: TrelloMember = {
+      id: this.nextId(),
+      fullName,
+      username,
+      initials: initials(fullName),
+      avatarHash: null,
+      avatarUrl: null,
+      memberType: 'normal',
+      confirmed: true
+    };
+    this.members.set(member.id, member);
+    return member;
+  }
+
+  findMember(idOrUsername: string): TrelloMember {
+    if (idOrUsername === 'me') return this.me;
+    const member = this.members.get(idOrUsername) ?? [...this.members.values()].find(m => m.username === idOrUsername);
+    if (!member) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return member;
+  }
+
+  findBoard(idOrShortLink: string): StoredBoard {
+    const board = this.boards.get(idOrShortLink) ?? [...this.boards.values()].find(b => b.shortLink === idOrShortLink);
+    if (!board) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return board;
+  }
+
+  findList(id: string): StoredList {
+    const list = this.lists.get(id);
+    if (!list) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return list;
+  }
+
+  findCard(idOrShortLink: string): StoredCard {
+    const card = this.cards.get(idOrShortLink) ?? [...this.cards.values()].find(c => c.shortLink === idOrShortLink);
+    if (!card) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return card;
+  }
+
+  findLabel(id: string): Omit<TrelloLabel, 'uses'> {
+    const label = this.labels.get(id);
+    if (!label) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return label;
+  }
+
+  findChecklist(id: string): StoredChecklist {
+    const checklist = this.checklists.get(id);
+    if (!checklist) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return checklist;
+  }
+
+  private record(type: string, data: TrelloAction['data'], idBoard: string) {
+    this.actions.unshift({
+      id: this.nextId(),
+      type,
+      date: now(),
+      data: { ...data, board: { id: idBoard, name: this.boards.get(idBoard)?.name ?? '' } },
+      memberCreator: this.me
+    });
+    const board = this.boards.get(idBoard);
+    if (board) board.dateLastActivity = now();
+  }
+
+  // Views: the JSON shapes the real API returns
+
+  boardView(board: StoredBoard): TrelloBoard & { shortLink: string; idOrganization: string | null } {
+    return {
+      id: board.id,
+      name: board.name,
+      desc: board.desc,
+      closed: board.closed,
+      shortLink: board.shortLink,
+      idOrganization: board.idOrganization,
+      url: `${FAKE_HOST}/b/${board.shortLink}/${board.name.toLowerCase().replace(/\W+/g, '-')}`,
+      shortUrl: `${FAKE_HOST}/b/${board.shortLink}`,
+      dateLastActivity: board.dateLastActivity,
+      prefs: { ...board.prefs }
+    };
+  }
+
+  listView(list: StoredList): TrelloList {
+    return { ...list, subscribed: false };
+  }
+
+  labelView(label: Omit<TrelloLabel, 'uses'>): TrelloLabel {
+    const uses = [...this.cards.values()].filter(card => card.idLabels.includes(label.id)).length;
+    return { ...label, uses };
+  }
+
+  cardView(card: StoredCard, options: CardViewOptions = {}): TrelloCard & { shortLink: string; idLabels: string[]; idMembers: string[] } {
+    const checklists = [...this.checklists.values()].filter(checklist => checklist.idCard === card.id);
+    const checkItems = checklists.flatMap(checklist => checklist.checkItems);
+    const comments = this.actions.filter(action => action.type === 'commentCard' && action.data.card?.id === card.id).length;
+
+    return {
+      id: card.id,
+      name: card.name,
+      desc: card.desc,
+      closed: card.closed,
+      shortLink: card.shortLink,
+      url: `${FAKE_HOST}/c/${card.shortLink}`,
+      shortUrl: `${FAKE_HOST}/c/${card.shortLink}`,
+      pos: card.pos,
+      idBoard: card.idBoard,
+      idList: card.idList,
+      idLabels: [...card.idLabels],
+      idMembers: [...card.idMembers],
+      dateLastActivity: card.dateLastActivity,
+      due: card.due,
+      dueComplete: card.dueComplete,
+      labels: card.idLabels.map(id => this.labelView(this.findLabel(id))),
+      members: options.members ? card.idMembers.map(id => this.findMember(id)) : [],
+      checklists: options.checklists ? checklists.map(checklist => structuredClone(checklist)) : [],
+      badges: {
+        votes: 0,
+        viewingMemberVoted: false,
+        subscribed: false,
+        fogbugz: '',
+        checkItems: checkItems.length,
+        checkItemsChecked: checkItems.filter(item => item.state === 'complete').length,
+        comments,
+        attachments: 0,
+        description: card.desc.length > 0,
+        due: card.due,
+        dueComplete: card.dueComplete
+      }
+    };
+  }
+
+  // Boards
+
+  createBoard(input: { name: string; desc?: string; idOrganization?: string; defaultLists?: boolean }): StoredBoard {
+    const board: StoredBoard = {
+      id: this.nextId(),
+      shortLink: this.nextShortLink(),
+      name: input.name,
+      desc: input.desc ?? '',
+      closed: false,
+      idOrganization: input.idOrganization ?? null,
+      idMembers: [this.me.id],
+      prefs: {
+        permissionLevel: 'private',
+        voting: 'disabled',
+        comments: 'members',
+        invitations: 'members',
+        selfJoin: true,
+        cardCovers: true,
+        background: 'blue',
+        backgroundColor: '#0079BF'
+      },
+      dateLastActivity: now()
+    };
+    this.boards.set(board.id, board);
+    this.record('createBoard', {}, board.id);
+    if (input.defaultLists) {
+      for (const name of ['To Do', 'Doing', 'Done']) this.createList({ name, idBoard: board.id });
+    }
+    return board;
+  }
+
+  // Like Trello, copies the open lists and the labels, and the open cards only when asked
+  copyBoard(sourceId: string, input: { name: string; desc?: string; idOrganization?: string }, keepCards: boolean): StoredBoard {
+    const source = this.findBoard(sourceId);
+    const board = this.createBoard({
+      ...input,
+      ...(input.desc === undefined && { desc: source.desc }),
+      ...(input.idOrganization === undefined && source.idOrganization !== null && { idOrganization: source.idOrganization })
+    });
+    board.prefs = { ...source.prefs };
+
+    const labels = new Map<string, string>();
+    for (const label of [...this.labels.values()].filter(l => l.idBoard === source.id)) {
+      labels.set(label.id, this.createLabel({ name: label.name, color: label.color, idBoard: board.id }).id);
+    }
+    for (const list of this.boardLists(source.id)) {
+      const copy = this.createList({ name: list.name, idBoard: board.id });
+      if (!keepCards) continue;
+      for (const card of this.listCards(list.id)) {
+        this.createCard({
+          name: card.name,
+          desc: card.desc,
+          idList: copy.id,
+          due: card.due,
+          idLabels: card.idLabels.map(id => labels.get(id)).filter(Boolean)
+        });
+      }
+    }
+    return board;
+  }
+
+  updateBoard(idOrShortLink: string, updates: Record<string, unknown>): StoredBoard {
+    const board = this.findBoard(idOrShortLink);
+    const old: Record<string, unknown> = {};
+
+    if (typeof updates.name === 'string') {
+      old.name = board.name;
+      board.name = updates.name;
+    }
+    if (typeof updates.desc === 'string') {
+      old.desc = board.desc;
+      board.desc = updates.desc;
+    }
+    if (updates.closed !== undefined) {
+      old.closed = board.closed;
+      board.closed = bool(updates.closed);
+    }
+    // Preferences arrive as "prefs/<name>" fields
+    for (const [field, value] of Object.entries(updates)) {
+      const pref = field.startsWith('prefs/') ? field.slice('prefs/'.length) : '';
+      if (!(pref in board.prefs)) continue;
+      const prefs = board.prefs as unknown as Record<string, unknown>;
+      old[field] = prefs[pref];
+      prefs[pref] = typeof prefs[pref] === 'boolean' ? bool(value) : String(value);
+    }
+
+    this.record('updateBoard', { old }, board.id);
+    return board;
+  }
+
+  boardLists(boardId: string, filter = 'open'): StoredList[] {
+    const board = this.findBoard(boardId);
+    return [...this.lists.values()]
+      .filter(list => list.idBoard === board.id)
+      .filter(list => filter === 'all' || list.closed === (filter === 'closed'))
+      .sort((a, b) => a.pos - b.pos);
+  }
+
+  boardCards(boardId: string, filter = 'visible'): StoredCard[] {
+    const board = this.findBoard(boardId);
+    return [...this.cards.values()]
+      .filter(card => card.idBoard === board.id)
+      .filter(card => filter === 'all' || card.closed === (filter === 'closed'))
+      .sort((a, b) => a.pos - b.pos);
+  }
+
+  // Lists
+
+  createList(input: { name: string; idBoard: string; pos?: unknown }): StoredList {
+    const board = this.findBoard(input.idBoard);
+    const list: StoredList = {
+      id: this.nextId(),
+      name: input.name,
+      closed: false,
+      pos: this.nextPosition(this.boardLists(board.id, 'all').map(l => l.pos), input.pos),
+      idBoard: board.id,
+      softLimit: null
+    };
+    this.lists.set(list.id, list);
+    this.record('createList', { list: { id: list.id, name: list.name } }, board.id);
+    return list;
+  }
+
+  updateList(id: string, updates: Record<string, unknown>): StoredList {
+    const list = this.findList(id);
+    const old: Record<string, unknown> = {};
+
+    if (typeof updates.idBoard === 'string' && updates.idBoard !== list.idBoard) {
+      const board = this.findBoard(updates.idBoard);
+      old.idBoard = list.idBoard;
+      list.idBoard = board.id;
+      // Cards travel with their list
+      for (const card of this.cards.values()) {
+        if (card.idList === list.id) card.idBoard = board.id;
+      }
+      if (updates.pos === undefined) {
+        list.pos = this.nextPosition(this.boardLists(board.id, 'all').filter(l => l.id !== id).map(l => l.pos), 'bottom');
+      }
+    }
+    if (updates.pos !== undefined) {
+      old.pos = list.pos;
+      list.pos = this.nextPosition(this.boardLists(list.idBoard, 'all').filter(l => l.id !== id).map(l => l.pos), updates.pos);
+    }
+    if (typeof updates.name === 'string') {
+      old.name = list.name;
+      list.name = updates.name;
+    }
+    if (updates.closed !== undefined) {
+      old.closed = list.closed;
+      list.closed = bool(updates.closed);
+    }
+    if (updates.softLimit !== undefined) {
+      old.softLimit = list.softLimit;
+      list.softLimit = updates.softLimit === null || updates.softLimit === '' ? null : Number(updates.softLimit);
+    }
+
+    this.record('updateList', { list: { id: list.id, name: list.name, closed: list.closed }, old }, list.idBoard);
+    return list;
+  }
+
+  listCards(listId: string, filter = 'open'): StoredCard[] {
+    const list = this.findList(listId);
+    return [...this.cards.values()]
+      .filter(card => card.idList === list.id)
+      .filter(card => filter === 'all' || card.closed === (filter === 'closed'))
+      .sort((a, b) => a.pos - b.pos);
+  }
+
+  moveAllCards(listId: string, input: { idBoard?: unknown; idList?: unknown }): StoredCard[] {
+    const destination = this.findList(typeof input.idList === 'string' ? input.idList : '');
+    if (destination.idBoard !== input.idBoard) throw new FakeTrelloError(400, 'invalid value for idBoard');
+    return this.listCards(listId).map(card => this.updateCard(card.id, { idList: destination.id }));
+  }
+
+  archiveAllCards(listId: string) {
+    this.listCards(listId).forEach(card => this.updateCard(card.id, { closed: true }));
+  }
+
+  // Cards
+
+  createCard(input: Record<string, unknown>): StoredCard {
+    if (typeof input.idList !== 'string') throw new FakeTrelloError(400, 'invalid value for idList');
+    const list = this.findList(input.idList);
+    const card: StoredCard = {
+      id: this.nextId(),
+      shortLink: this.nextShortLink(),
+      name: String(input.name ?? ''),
+      desc: String(input.desc ?? ''),
+      closed: false,
+      pos: this.nextPosition(this.listCards(list.id, 'all').map(c => c.pos), input.pos),
+      idBoard: list.idBoard,
+      idList: list.id,
+      idLabels: ids(input.idLabels),
+      idMembers: ids(input.idMembers),
+      due: typeof input.due === 'string' ? input.due : null,
+      dueComplete: false,
+      dateLastActivity: now()
+    };
+    card.idLabels.forEach(id => this.findLabel(id));
+    this.cards.set(card.id, card);
+    this.record('createCard', { card: { id: card.id, name: card.name }, list: { id: list.id, name: list.name } }, card.idBoard);
+    return card;
+  }
+
+  updateCard(idOrShortLink: string, updates: Record<string, unknown>): StoredCard {
+    const card = this.findCard(idOrShortLink);
+    const old: Record<string, unknown> = {};
+    const listBefore = this.findList(card.idList);
+
+    if (typeof updates.idList === 'string' && updates.idList !== card.idList) {
+      const list = this.findList(updates.idList);
+      old.idList = card.idList;
+      card.idList = list.id;
+      card.idBoard = list.idBoard;
+      if (updates.pos === undefined) {
+        card.pos = this.nextPosition(this.listCards(list.id, 'all').filter(c => c.id !== card.id).map(c => c.pos), 'bottom');
+      }
+    }
+    if (updates.pos !== undefined) {
+      old.pos = card.pos;
+      card.pos = this.nextPosition(this.listCards(card.idList, 'all').filter(c => c.id !== card.id).map(c => c.pos), updates.pos);
+    }
+    for (const field of ['name', 'desc'] as const) {
+      if (typeof updates[field] === 'string') {
+        old[field] = card[field];
+        card[field] = updates[field] as string;
+      }
+    }
+    if (updates.closed !== undefined) {
+      old.closed = card.closed;
+      card.closed = bool(updates.closed);
+    }
+    if (updates.dueComplete !== undefined) {
+      old.dueComplete = card.dueComplete;
+      card.dueComplete = bool(updates.dueComplete);
+    }
+    if (updates.due !== undefined) {
+      old.due = card.due;
+      card.due = typeof updates.due === 'string' && updates.due !== '' ? updates.due : null;
+    }
+    if (updates.idLabels !== undefined) {
+      card.idLabels = ids(updates.idLabels);
+    }
+    if (updates.idMembers !== undefined) {
+      card.idMembers = ids(updates.idMembers);
+    }
+    card.dateLastActivity = now();
+
+    const listAfter = this.findList(card.idList);
+    this.record('updateCard', {
+      card: { id: card.id, name: card.name, closed: card.closed, dueComplete: card.dueComplete },
+      old,
+      ...(old.idList !== undefined
+        ? { listBefore: { id: listBefore.id, name: listBefore.name }, listAfter: { id: listAfter.id, name: listAfter.name } }
+        : { list: { id: listAfter.id, name: listAfter.name } })
+    }, card.idBoard);
+    return card;
+  }
+
+  deleteCard(idOrShortLink: string) {
+    const card = this.findCard(idOrShortLink);
+    this.cards.delete(card.id);
+    for (const checklist of this.checklists.values()) {
+      if (checklist.idCard === card.id) this.checklists.delete(checklist.id);
+    }
+    this.record('deleteCard', { card: { id: card.id } }, card.idBoard);
+  }
+
+  addComment(idOrShortLink: string, text: string): TrelloAction {
+    const card = this.findCard(idOrShortLink);
+    this.record('commentCard', { text, card: { id: card.id, name: card.name, shortLink: card.shortLink } as Partial<TrelloCard> }, card.idBoard);
+    return this.actions[0];
+  }
+
+  cardActions(idOrShortLink: string): TrelloAction[] {
+    const card = this.findCard(idOrShortLink);
+    return this.actions.filter(action => action.data.card?.id === card.id);
+  }
+
+  boardActions(boardId: string): TrelloAction[] {
+    const board = this.findBoard(boardId);
+    return this.actions.filter(action => action.data.board?.id === board.id);
+  }
+
+  // Labels
+
+  createLabel(input: { name?: string; color?: string; idBoard: string }): Omit<TrelloLabel, 'uses'> {
+    const board = this.findBoard(input.idBoard);
+    const label = { id: this.nextId(), name: input.name ?? '', color: input.color ?? '', idBoard: board.id };
+    this.labels.set(label.id, label);
+    return label;
+  }
+
+  updateLabel(id: string, updates: { name?: unknown; color?: unknown }): Omit<TrelloLabel, 'uses'> {
+    const label = this.findLabel(id);
+    if (typeof updates.name === 'string') label.name = updates.name;
+    if (typeof updates.color === 'string') label.color = updates.color;
+    return label;
+  }
+
+  addLabelToCard(idOrShortLink: string, labelId: string): string[] {
+    const card = this.findCard(idOrShortLink);
+    const label = this.findLabel(labelId);
+    if (card.idLabels.includes(label.id)) {
+      throw new FakeTrelloError(400, 'that label is already on the card');
+    }
+    card.idLabels.push(label.id);
+    this.record('addLabelToCard', { card: { id: card.id, name: card.name } }, card.idBoard);
+    return [...card.idLabels];
+  }
+
+  removeLabelFromCard(idOrShortLink: string, labelId: string) {
+    const card = this.findCard(idOrShortLink);
+    if (!card.idLabels.includes(labelId)) {
+      throw new FakeTrelloError(404, 'The requested resource was not found.');
+    }
+    card.idLabels = card.idLabels.filter(id => id !== labelId);
+    this.record('removeLabelFromCard', { card: { id: card.id, name: card.name } }, card.idBoard);
+  }
+
+  // Checklists
+
+  cardChecklists(idOrShortLink: string): StoredChecklist[] {
+    const card = this.findCard(idOrShortLink);
+    return [...this.checklists.values()].filter(checklist => checklist.idCard === card.id).sort((a, b) => a.pos - b.pos);
+  }
+
+  createChecklist(input: { idCard: string; name?: unknown; pos?: unknown }): StoredChecklist {
+    const card = this.findCard(input.idCard);
+    const checklist: StoredChecklist = {
+      id: this.nextId(),
+      name: String(input.name ?? 'Checklist'),
+      idBoard: card.idBoard,
+      idCard: card.id,
+      pos: this.nextPosition(this.cardChecklists(card.id).map(c => c.pos), input.pos),
+      checkItems: []
+    };
+    this.checklists.set(checklist.id, checklist);
+    this.record('addChecklistToCard', { card: { id: card.id, name: card.name } }, card.idBoard);
+    return checklist;
+  }
+
+  updateChecklist(id: string, updates: { name?: unknown; pos?: unknown }): StoredChecklist {
+    const checklist = this.findChecklist(id);
+    if (typeof updates.name === 'string') checklist.name = updates.name;
+    if (updates.pos !== undefined) {
+      checklist.pos = this.nextPosition(this.cardChecklists(checklist.idCard).filter(c => c.id !== id).map(c => c.pos), updates.pos);
+    }
+    return checklist;
+  }
+
+  deleteChecklist(id: string) {
+    this.findChecklist(id);
+    this.checklists.delete(id);
+  }
+
+  addCheckItem(checklistId: string, input: Record<string, unknown>): TrelloCheckItem {
+    const checklist = this.findChecklist(checklistId);
+    const item: TrelloCheckItem = {
+      id: this.nextId(),
+      name: String(input.name ?? ''),
+      state: bool(input.checked) ? 'complete' : 'incomplete',
+      pos: this.nextPosition(checklist.checkItems.map(i => i.pos), input.pos),
+      due: typeof input.due === 'string' ? input.due : null,
+      idMember: typeof input.idMember === 'string' ? input.idMember : null
+    };
+    checklist.checkItems.push(item);
+    checklist.checkItems.sort((a, b) => a.pos - b.pos);
+    return item;
+  }
+
+  findCheckItem(cardIdOrShortLink: string, checkItemId: string): TrelloCheckItem {
+    const card = this.findCard(cardIdOrShortLink);
+    const item = this.cardChecklists(card.id).flatMap(checklist => checklist.checkItems).find(i => i.id === checkItemId);
+    if (!item) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return item;
+  }
+
+  findChecklistItem(checklistId: string, checkItemId: string): TrelloCheckItem {
+    const item = this.findChecklist(checklistId).checkItems.find(i => i.id === checkItemId);
+    if (!item) throw new FakeTrelloError(404, 'The requested resource was not found.');
+    return item;
+  }
+
+  updateCheckItem(cardIdOrShortLink: string, checkItemId: string, updates: Record<string, unknown>): TrelloCheckItem {
+    const item = this.findCheckItem(cardIdOrShortLink, checkItemId);
+
+    if (typeof updates.name === 'string') item.name = updates.name;
+    if (updates.state === 'complete' || updates.state === 'incomplete') item.state = updates.state;
+    if (updates.pos !== undefined) item.pos = this.nextPosition([], updates.pos);
+    if (updates.due !== undefined) item.due = typeof updates.due === 'string' ? updates.due : null;
+    if (updates.idMember !== undefined) item.idMember = typeof updates.idMember === 'string' ? updates.idMember : null;
+    return item;
+  }
+
+  deleteCheckItem(checklistId: string, checkItemId: string) {
+    const checklist = this.findChecklist(checklistId);
+    if (!checklist.checkItems.some(item => item.id === checkItemId)) {
+      throw new FakeTrelloError(404, 'The requested resource was not found.');
+    }
+    checklist.checkItems = checklist.checkItems.filter(item => item.id !== checkItemId);
+  }
+}
@@ -0,0 +1,148 @@
+import { randomUUID } from 'node:crypto';
+import express, { type Request, type Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createMCPServer } from './server.js';
+import type { TrelloCredentials } from './types/trello.js';
+import { healthChecker } from './utils/health.js';
+import { logger } from './utils/logger.js';
+
+export const API_KEY_HEADER = 'x-trello-api-key';
+export const TOKEN_HEADER = 'x-trello-token';
+
+// Sessions with no requests for this long are closed
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  // Used for sessions that do not send their own credentials. Leave unset on a
+  // shared server so every user has to bring their own Trello token.
+  defaultCredentials?: TrelloCredentials;
+  sessionIdleTimeoutMs?: number;
+  // Interface to listen on; defaults to 127.0.0.1 so only this machine can connect
+  host?: string;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  credentials: TrelloCredentials;
+  idleTimer?: NodeJS.Timeout;
+}
+
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sessionCredentials(req: Request, fallback?: TrelloCredentials): TrelloCredentials | undefined {
+  const apiKey = header(req, API_KEY_HEADER);
+  const token = header(req, TOKEN_HEADER);
+
+  if (apiKey && token) {
+    return { apiKey, token };
+  }
+  return fallback;
+}
+
+function sendJsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+}
+
+/**
+ * Builds the Express app serving MCP over Streamable HTTP at `/mcp` and the
+ * health check at `/health`. Each MCP session gets its own server instance
+ * bound to the credentials sent with its initialize request.
+ */
+export function createHttpApp(options: HttpServerOptions = {}) {
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const app = express();
+  app.use(express.json());
+
+  // Restarts the session's idle timer; closing the transport removes the session
+  const touch = (id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      logger.info('MCP session expired', { sessionId: id, idleTimeoutMs });
+      void session.transport.close();
+    }, idleTimeoutMs);
+    session.idleTimer.unref();
+  };
+
+  app.get('/health', (req, res) => healthChecker.handleHealthCheck(req, res));
+
+  app.post('/mcp', async (req, res) => {
+    const sessionId = header(req, 'mcp-session-id');
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (existing) {
+      touch(sessionId!);
+      await existing.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (sessionId || !isInitializeRequest(req.body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const credentials = sessionCredentials(req, options.defaultCredentials);
+    if (!credentials) {
+      sendJsonRpcError(res, 401, `Missing Trello credentials: send the ${API_KEY_HEADER} and ${TOKEN_HEADER} headers`);
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, credentials });
+        touch(id);
+        logger.info('MCP session started', { sessionId: id, activeSessions: sessions.size });
+      }
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      clearTimeout(id ? sessions.get(id)?.idleTimer : undefined);
+      if (id && sessions.delete(id)) {
+        logger.info('MCP session closed', { sessionId: id, activeSessions: sessions.size });
+      }
+    };
+
+    const server = createMCPServer({ name: 'trello-mcp-http', credentials, accounts: false });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // GET opens the server-to-client notification stream, DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = header(req, 'mcp-session-id');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (!session) {
+      res.status(400).send('Invalid or missing session ID');
+      return;
+    }
+
+    touch(sessionId!);
+    await session.transport.handleRequest(req, res);
+  };
+
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
+
+  return app;
+}
+
+export function startHttpServer(port: number, options: HttpServerOptions = {}) {
+  const app = createHttpApp(options);
+  const host = options.host ?? '127.0.0.1';
+
+  return app.listen(port, host, () => {
+    logger.info('Trello MCP HTTP server listening', { host, port, mcp: '/mcp', health: '/health' });
+  });
+}
@@ -1,260 +1,23 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { 
-  CallToolRequestSchema, 
-  ListToolsRequestSchema,
-  InitializeRequestSchema,
-  ListResourcesRequestSchema,
-  ListPromptsRequestSchema 
-} from '@modelcontextprotocol/sdk/types.js';
+import { createMCPServer } from './server.js';
+import { startHttpServer } from './http.js';
+import { listAccounts } from './utils/accounts.js';
+import { createConsoleIO } from './cli/io.js';
+import { runSetup } from './cli/setup.js';
+import { runDoctor } from './cli/doctor.js';
 
 // Desktop-specific: Check for local credentials
 const TRELLO_API_KEY = process.env.TRELLO_API_KEY;
 const TRELLO_TOKEN = process.env.TRELLO_TOKEN;
+const credentials = TRELLO_API_KEY && TRELLO_TOKEN
+  ? { apiKey: TRELLO_API_KEY, token: TRELLO_TOKEN }
+  : undefined;
 
-// No console output in MCP mode - only JSON-RPC on stdout!
-if (!TRELLO_API_KEY || !TRELLO_TOKEN) {
-  process.exit(1);
-}
-
-// Import tools with credential injection
-import { 
-  listBoardsTool, 
-  getBoardDetailsTool,
-  getListsTool,
-  handleListBoards,
-  handleGetBoardDetails,
-  handleGetLists
-} from './tools/boards.js';
-
-import { 
-  createCardTool, 
-  updateCardTool,
-  moveCardTool,
-  getCardTool,
-  handleCreateCard,
-  handleUpdateCard,
-  handleMoveCard,
-  handleGetCard
-} from './tools/cards.js';
-
-import {
-  trelloSearchTool,
-  handleTrelloSearch
-} from './tools/search.js';
-
-import {
-  trelloGetListCardsTool,
-  handleTrelloGetListCards,
-  trelloCreateListTool,
-  handleTrelloCreateList,
-  trelloAddCommentTool,
-  handleTrelloAddComment
-} from './tools/lists.js';
-
-import {
-  trelloGetUserBoardsTool,
-  handleTrelloGetUserBoards,
-  trelloGetMemberTool,
-  handleTrelloGetMember
-} from './tools/members.js';
-
-import {
-  trelloGetBoardCardsTool,
-  handleTrelloGetBoardCards,
-  trelloGetCardActionsTool,
-  handleTrelloGetCardActions,
-  trelloGetCardAttachmentsTool,
-  handleTrelloGetCardAttachments,
-  trelloGetCardChecklistsTool,
-  handleTrelloGetCardChecklists,
-  trelloGetBoardMembersTool,
-  handleTrelloGetBoardMembers,
-  trelloGetBoardLabelsTool,
-  handleTrelloGetBoardLabels
-} from './tools/advanced.js';
-
-// Create server instance
-const server = new Server(
-  {
-    name: 'trello-mcp-desktop',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
-      prompts: {},
-    },
-  }
-);
-
-// Initialize handler
-server.setRequestHandler(InitializeRequestSchema, async () => {
-  return {
-    protocolVersion: '2024-11-05',
-    capabilities: {
-      tools: {},
-      resources: {},
-      prompts: {}
-    },
-    serverInfo: {
-      name: 'trello-mcp-desktop',
-      version: '1.0.0'
-    }
-  };
-});
-
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      // Phase 1: Essential tools
-      trelloSearchTool,
-      trelloGetUserBoardsTool,
-      getBoardDetailsTool,
-      getCardTool,
-      createCardTool,
-      // Phase 2: Core operations
-      updateCardTool,
-      moveCardTool,
-      trelloAddCommentTool,
-      trelloGetListCardsTool,
-      trelloCreateListTool,
-      // Original tools (maintained for compatibility)
-      listBoardsTool,
-      getListsTool,
-      // Member management
-      trelloGetMemberTool,
-      // Phase 3: Advanced features
-      trelloGetBoardCardsTool,
-      trelloGetCardActionsTool,
-      trelloGetCardAttachmentsTool,
-      trelloGetCardChecklistsTool,
-      trelloGetBoardMembersTool,
-      trelloGetBoardLabelsTool
-    ]
-  };
-});
-
-// Handle tool calls with automatic credential injection
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  
-  // Inject credentials into arguments
-  const argsWithCredentials = {
-    ...args,
-    apiKey: TRELLO_API_KEY,
-    token: TRELLO_TOKEN
-  };
-  
-  try {
-    let result;
-    
-    switch (name) {
-      // Phase 1: Essential tools
-      case 'trello_search':
-        result = await handleTrelloSearch(argsWithCredentials);
-        break;
-      
-      case 'trello_get_user_boards':
-        result = await handleTrelloGetUserBoards(argsWithCredentials);
-        break;
-      
-      case 'get_board_details':
-        result = await handleGetBoardDetails(argsWithCredentials);
-        break;
-      
-      case 'get_card':
-        result = await handleGetCard(argsWithCredentials);
-        break;
-      
-      case 'create_card':
-        result = await handleCreateCard(argsWithCredentials);
-        break;
-      
-      // Phase 2: Core operations
-      case 'update_card':
-        result = await handleUpdateCard(argsWithCredentials);
-        break;
-      
-      case 'move_card':
-        result = await handleMoveCard(argsWithCredentials);
-        break;
-      
-      case 'trello_add_comment':
-        result = await handleTrelloAddComment(argsWithCredentials);
-        break;
-      
-      case 'trello_get_list_cards':
-        result = await handleTrelloGetListCards(argsWithCredentials);
-        break;
-      
-      case 'trello_create_list':
-        result = await handleTrelloCreateList(argsWithCredentials);
-        break;
-      
-      // Original tools (maintained for compatibility)
-      case 'list_boards':
-        result = await handleListBoards(argsWithCredentials);
-        break;
-      
-      case 'get_lists':
-        result = await handleGetLists(argsWithCredentials);
-        break;
-      
-      // Member management
-      case 'trello_get_member':
-        result = await handleTrelloGetMember(argsWithCredentials);
-        break;
-      
-      // Phase 3: Advanced features
-      case 'trello_get_board_cards':
-        result = await handleTrelloGetBoardCards(argsWithCredentials);
-        break;
-      
-      case 'trello_get_card_actions':
-        result = await handleTrelloGetCardActions(argsWithCredentials);
-        break;
-      
-      case 'trello_get_card_attachments':
-        result = await handleTrelloGetCardAttachments(argsWithCredentials);
-        break;
-      
-      case 'trello_get_card_checklists':
-        result = await handleTrelloGetCardChecklists(argsWithCredentials);
-        break;
-      
-      case 'trello_get_board_members':
-        result = await handleTrelloGetBoardMembers(argsWithCredentials);
-        break;
-      
-      case 'trello_get_board_labels':
-        result = await handleTrelloGetBoardLabels(argsWithCredentials);
-        break;
-        
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-    
-    return result;
-    
-  } catch (error) {
-    throw error;
-  }
-});
-
-// List resources (empty for now)
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return { resources: [] };
-});
-
-// List prompts (empty for now)
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
-  return { prompts: [] };
-});
+const httpMode = process.argv.includes('--http') || process.env.MCP_TRANSPORT === 'http';
+const subcommands = { setup: runSetup, doctor: runDoctor };
+const subcommand = process.argv[2] as keyof typeof subcommands | undefined;
 
 // Error handler
 process.on('uncaughtException', (_error) => {
@@ -265,14 +28,60 @@ process.on('unhandledRejection', (_reason) => {
   process.exit(1);
 });
 
+// Shared HTTP server: clients send their own credentials per session. The
+// environment credentials are a fallback only when MCP_HTTP_ENV_CREDENTIALS=true,
+// since anyone who can reach the server would otherwise act as the host.
+function runHttp() {
+  const port = Number(process.env.PORT) || 3000;
+  const idleSeconds = Number(process.env.MCP_SESSION_IDLE_TIMEOUT);
+  startHttpServer(port, {
+    ...(credentials && process.env.MCP_HTTP_ENV_CREDENTIALS === 'true' && { defaultCredentials: credentials }),
+    ...(idleSeconds > 0 && { sessionIdleTimeoutMs: idleSeconds * 1000 }),
+    ...(process.env.HOST && { host: process.env.HOST })
+  });
+}
+
 // Start the server
 async function main() {
+  // No console output in MCP mode - only JSON-RPC on stdout!
+  // Either the environment credentials or an accounts file must be present
+  if (!credentials && listAccounts().length === 0) {
+    // stderr is safe: MCP clients only read stdout, and usually show stderr in their logs
+    console.error('Trello credentials are missing. Run "trello-desktop-mcp setup" to create them, or "trello-desktop-mcp doctor" to see what is wrong.');
+    process.exit(1);
+  }
+
+  // Create server instance with automatic credential injection
+  const server = createMCPServer({
+    name: 'trello-mcp-desktop',
+    ...(credentials && { credentials })
+  });
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  
+
   // Server is running - no output needed
 }
 
-main().catch((_error) => {
-  process.exit(1);
-});
\ No newline at end of file
+// Interactive subcommands: `trello-desktop-mcp setup` and `trello-desktop-mcp doctor`
+async function runSubcommand(run: (typeof subcommands)[keyof typeof subcommands]) {
+  const io = createConsoleIO();
+  try {
+    process.exitCode = await run(io);
+  } finally {
+    io.close();
+  }
+}
+
+if (subcommand && Object.hasOwn(subcommands, subcommand)) {
+  runSubcommand(subcommands[subcommand]).catch((error) => {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
+} else if (httpMode) {
+  runHttp();
+} else {
+  main().catch((_error) => {
+    process.exit(1);
+  });
+}
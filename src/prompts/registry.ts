@@ -0,0 +1,236 @@
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TrelloClient, unwrapBatchItem } from '../trello/client.js';
+import { ReferenceResolver } from '../trello/resolver.js';
+import type {
+  TrelloAction,
+  TrelloBoard,
+  TrelloCard,
+  TrelloCredentials,
+  TrelloLabel,
+  TrelloList
+} from '../types/trello.js';
+import { extractCredentials, formatValidationError } from '../utils/validation.js';
+import { renderActions, renderBoard, renderCardLine } from '../resources/markdown.js';
+
+const ACTIVITY_FILTER = 'createCard,updateCard,commentCard';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PromptContext {
+  client: TrelloClient;
+  resolver: ReferenceResolver;
+  boardId: string;
+}
+
+interface PromptRegistration {
+  prompt: Prompt;
+  schema: z.ZodTypeAny;
+  build: (context: PromptContext, args: Record<string, string | number | undefined>) => Promise<string>;
+}
+
+const boardArgument = {
+  name: 'board',
+  description: 'Board ID, name or URL',
+  required: true
+};
+
+const boardSchema = z.object({
+  board: z.string().min(1, 'Board is required')
+});
+
+export const sprintPlanningSchema = boardSchema.extend({
+  backlogList: z.string().min(1).optional(),
+  capacity: z.coerce.number().int().positive().optional()
+});
+
+export const retrospectiveSchema = boardSchema.extend({
+  days: z.coerce.number().int().min(1).max(90).optional()
+});
+
+function since(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString();
+}
+
+function boardURL(boardId: string, withCards = false): string {
+  return withCards
+    ? `/boards/${boardId}?lists=open&cards=open&card_members=true&card_labels=true`
+    : `/boards/${boardId}`;
+}
+
+function activityURL(boardId: string, days: number, limit: number): string {
+  return `/boards/${boardId}/actions?filter=${ACTIVITY_FILTER}&since=${since(days)}&limit=${limit}`;
+}
+
+// Prompts pre-fetch everything they need in a single /batch round trip
+async function fetchAll<T extends unknown[]>(client: TrelloClient, urls: string[]): Promise<T> {
+  return (await client.batch(urls)).data.map(unwrapBatchItem) as T;
+}
+
+function renderCardWithSummary(card: TrelloCard, listName?: string): string {
+  const list = listName ? ` (in ${listName})` : '';
+  const summary = card.desc ? `\n  ${card.desc.split('\n')[0]}` : '';
+  return `${renderCardLine(card)}${list}${summary}`;
+}
+
+function listNames(lists: TrelloList[]): Map<string, string> {
+  return new Map(lists.map(list => [list.id, list.name]));
+}
+
+const promptRegistry: PromptRegistration[] = [
+  {
+    prompt: {
+      name: 'trello_standup',
+      description: 'Daily standup summary of a board: what moved in the last 24 hours, what is in progress and what is blocked',
+      arguments: [boardArgument]
+    },
+    schema: boardSchema,
+    build: async ({ client, boardId }) => {
+      const [board, actions] = await fetchAll<[TrelloBoard, TrelloAction[]]>(client, [
+        boardURL(boardId, true),
+        activityURL(boardId, 1, 200)
+      ]);
+
+      return [
+        `Prepare the daily standup for the Trello board "${board.name}".`,
+        'Using the activity and board snapshot below, summarise for each team member what they finished since yesterday, what they are working on now and anything that looks blocked or overdue. Keep it short enough to read aloud.',
+        '',
+        '## Activity in the last 24 hours',
+        '',
+        renderActions(actions),
+        '',
+        '## Current board',
+        '',
+        renderBoard(board)
+      ].join('\n');
+    }
+  },
+  {
+    prompt: {
+      name: 'trello_sprint_planning',
+      description: 'Plan the next sprint from the cards in a backlog list',
+      arguments: [
+        boardArgument,
+        { name: 'backlogList', description: 'Name or ID of the backlog list (defaults to "Backlog")' },
+        { name: 'capacity', description: 'How many cards the team can take on this sprint' }
+      ]
+    },
+    schema: sprintPlanningSchema,
+    build: async ({ client, resolver, boardId }, args) => {
+      const backlogId = await resolver.resolveList(String(args.backlogList ?? 'Backlog'), boardId);
+      const [board, lists, backlog] = await fetchAll<[TrelloBoard, TrelloList[], TrelloCard[]]>(client, [
+        boardURL(boardId),
+        `/boards/${boardId}/lists?filter=open`,
+        `/lists/${backlogId}/cards?filter=open`
+      ]);
+      const backlogName = lists.find(list => list.id === backlogId)?.name ?? 'Backlog';
+      const capacity = args.capacity
+        ? `The team has capacity for about ${args.capacity} cards.`
+        : 'Ask how much capacity the team has if it is not obvious from the backlog.';
+
+      return [
+        `Help plan the next sprint for the Trello board "${board.name}".`,
+        `Review the ${backlog.length} card(s) in the "${backlogName}" list, group related work, call out cards that are too vague or too large to start, and propose an ordered sprint scope. ${capacity}`,
+        `The board's lists are: ${lists.map(list => list.name).join(', ')}. Do not move any cards until the plan has been agreed.`,
+        '',
+        `## ${backlogName}`,
+        '',
+        backlog.length > 0 ? backlog.map(card => renderCardWithSummary(card)).join('\n') : '_No cards._'
+      ].join('\n');
+    }
+  },
+  {
+    prompt: {
+      name: 'trello_triage',
+      description: 'Suggest labels for the open cards on a board that have none',
+      arguments: [boardArgument]
+    },
+    schema: boardSchema,
+    build: async ({ client, boardId }) => {
+      const [board, lists, labels, cards] = await fetchAll<[TrelloBoard, TrelloList[], TrelloLabel[], TrelloCard[]]>(client, [
+        boardURL(boardId),
+        `/boards/${boardId}/lists?filter=open`,
+        `/boards/${boardId}/labels`,
+        `/boards/${boardId}/cards?filter=open`
+      ]);
+      const names = listNames(lists);
+      const unlabeled = cards.filter(card => (card.labels?.length ?? 0) === 0);
+      const availableLabels = labels.map(label => `- ${label.name || '(no name)'} (${label.color ?? 'no color'}) — ${label.id}`);
+
+      return [
+        `Triage the unlabeled cards on the Trello board "${board.name}".`,
+        'For each card below, suggest one or more of the existing labels and explain why in a few words. Flag cards that look like duplicates or have too little detail to triage. Once the suggestions are confirmed, apply them with trello_add_label_to_card.',
+        '',
+        '## Available labels',
+        '',
+        availableLabels.length > 0 ? availableLabels.join('\n') : '_This board has no labels yet; suggest a small set to create first._',
+        '',
+        `## Unlabeled cards (${unlabeled.length})`,
+        '',
+        unlabeled.length > 0 ? unlabeled.map(card => renderCardWithSummary(card, names.get(card.idList))).join('\n') : '_Every open card already has a label._'
+      ].join('\n');
+    }
+  },
+  {
+    prompt: {
+      name: 'trello_retrospective',
+      description: 'Run a retrospective from the recent card activity on a board',
+      arguments: [
+        boardArgument,
+        { name: 'days', description: 'How many days of activity to cover (defaults to 14)' }
+      ]
+    },
+    schema: retrospectiveSchema,
+    build: async ({ client, boardId }, args) => {
+      const days = Number(args.days ?? 14);
+      const [board, actions] = await fetchAll<[TrelloBoard, TrelloAction[]]>(client, [
+        boardURL(boardId),
+        activityURL(boardId, days, 1000)
+      ]);
+
+      return [
+        `Facilitate a retrospective for the Trello board "${board.name}" covering the last ${days} day(s).`,
+        'From the activity below, identify what went well, what slowed the team down (cards that bounced between lists, sat untouched or were archived unfinished) and three concrete action items for the next iteration.',
+        '',
+        `## Activity (${actions.length} action(s))`,
+        '',
+        renderActions(actions)
+      ].join('\n');
+    }
+  }
+];
+
+export function listPrompts(): Prompt[] {
+  return promptRegistry.map(registration => registration.prompt);
+}
+
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  credentials?: TrelloCredentials
+): Promise<GetPromptResult> {
+  const registration = promptRegistry.find(candidate => candidate.prompt.name === name);
+  if (!registration) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  try {
+    const parsed = registration.schema.parse(args);
+    const client = new TrelloClient(extractCredentials(credentials).credentials);
+    const resolver = new ReferenceResolver(client);
+    const boardId = await resolver.resolveBoard(parsed.board);
+    const text = await registration.build({ client, resolver, boardId }, parsed);
+
+    return {
+      ...(registration.prompt.description && { description: registration.prompt.description }),
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(formatValidationError(error));
+    }
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error((error as { message?: string })?.message ?? 'Unknown error occurred');
+  }
+}
@@ -0,0 +1,133 @@
+import type {
+  TrelloAction,
+  TrelloBoard,
+  TrelloCard,
+  TrelloList
+} from '../types/trello.js';
+
+function formatDue(card: Pick<TrelloCard, 'due' | 'dueComplete'>): string {
+  if (!card.due) return '';
+  return ` — due ${card.due.slice(0, 10)}${card.dueComplete ? ' ✓' : ''}`;
+}
+
+function formatLabels(card: Pick<TrelloCard, 'labels'>): string {
+  const labels = card.labels?.map(label => label.name || label.color).filter(Boolean) ?? [];
+  return labels.length > 0 ? ` [${labels.join(', ')}]` : '';
+}
+
+function formatMembers(card: Pick<TrelloCard, 'members'>): string {
+  const members = card.members?.map(member => `@${member.username}`) ?? [];
+  return members.length > 0 ? ` ${members.join(' ')}` : '';
+}
+
+export function renderCardLine(card: TrelloCard): string {
+  return `- [${card.name}](trello://card/${card.id})${formatLabels(card)}${formatMembers(card)}${formatDue(card)}`;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+export function renderBoards(boards: TrelloBoard[]): string {
+  const lines = ['# Trello boards', ''];
+
+  if (boards.length === 0) {
+    lines.push('_No open boards._');
+  }
+
+  for (const board of boards) {
+    const description = board.desc ? ` — ${board.desc.split('\n')[0]}` : '';
+    lines.push(`- [${board.name}](trello://board/${board.id})${description}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function renderBoard(board: TrelloBoard): string {
+  const lines = [`# ${board.name}`, '', board.shortUrl];
+
+  if (board.desc) {
+    lines.push('', board.desc);
+  }
+
+  const cards = board.cards ?? [];
+  for (const list of board.lists ?? []) {
+    const listCards = cards.filter(card => card.idList === list.id);
+    lines.push('', `## [${list.name}](trello://board/${board.id}/list/${list.id}) (${listCards.length})`, '');
+    lines.push(...(listCards.length > 0 ? listCards.map(renderCardLine) : ['_No cards._']));
+  }
+
+  return lines.join('\n');
+}
+
+export function renderList(board: TrelloBoard, list: TrelloList, cards: TrelloCard[]): string {
+  const lines = [`# ${list.name}`, '', `List on [${board.name}](trello://board/${board.id}) — ${cards.length} card(s)`, ''];
+  lines.push(...(cards.length > 0 ? cards.map(renderCardLine) : ['_No cards._']));
+  return lines.join('\n');
+}
+
+export function renderCard(card: TrelloCard, comments: TrelloAction[] = []): string {
+  const lines = [`# ${card.name}`, '', card.shortUrl];
+
+  const details = [
+    card.closed ? '- **Status:** archived' : undefined,
+    card.due ? `- **Due:** ${card.due}${card.dueComplete ? ' (complete)' : ''}` : undefined,
+    card.labels?.length ? `- **Labels:** ${card.labels.map(label => label.name || label.color).join(', ')}` : undefined,
+    card.members?.length ? `- **Members:** ${card.members.map(member => `${member.fullName} (@${member.username})`).join(', ')}` : undefined,
+    `- **Board:** [${card.idBoard}](trello://board/${card.idBoard})`
+  ].filter((line): line is string => line !== undefined);
+  lines.push('', ...details);
+
+  if (card.desc) {
+    lines.push('', '## Description', '', card.desc);
+  }
+
+  for (const checklist of card.checklists ?? []) {
+    const done = checklist.checkItems.filter(item => item.state === 'complete').length;
+    lines.push('', `## ${checklist.name} (${done}/${checklist.checkItems.length})`, '');
+    lines.push(...checklist.checkItems.map(item => `- [${item.state === 'complete' ? 'x' : ' '}] ${item.name}`));
+  }
+
+  if (comments.length > 0) {
+    lines.push('', '## Comments');
+    for (const comment of comments) {
+      lines.push('', `**${comment.memberCreator?.fullName ?? 'Unknown'}** — ${comment.date}`, '', quote(comment.data.text ?? ''));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function describeAction(action: TrelloAction): string {
+  const cardName = action.data.card?.name ? `"${action.data.card.name}"` : 'a card';
+
+  switch (action.type) {
+    case 'createCard':
+      return `created ${cardName} in ${action.data.list?.name ?? 'a list'}`;
+    case 'commentCard':
+      return `commented on ${cardName}: ${(action.data.text ?? '').split('\n')[0]}`;
+    case 'updateCard':
+      if (action.data.listBefore && action.data.listAfter) {
+        return `moved ${cardName} from ${action.data.listBefore.name} to ${action.data.listAfter.name}`;
+      }
+      if (action.data.old && 'closed' in action.data.old) {
+        return `${action.data.card?.closed ? 'archived' : 'restored'} ${cardName}`;
+      }
+      if (action.data.old && 'dueComplete' in action.data.old) {
+        return `marked ${cardName} ${action.data.card?.dueComplete ? 'complete' : 'incomplete'}`;
+      }
+      return `updated ${cardName}`;
+    default:
+      return `${action.type} on ${cardName}`;
+  }
+}
+
+export function renderActions(actions: TrelloAction[]): string {
+  if (actions.length === 0) {
+    return '_No activity._';
+  }
+
+  return actions
+    .map(action => `- ${action.date.slice(0, 16).replace('T', ' ')} ${action.memberCreator?.fullName ?? 'Unknown'} ${describeAction(action)}`)
+    .join('\n');
+}
@@ -0,0 +1,139 @@
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { TrelloClient, unwrapBatchItem } from '../trello/client.js';
+import { ReferenceResolver } from '../trello/resolver.js';
+import type { TrelloAction, TrelloBoard, TrelloCard, TrelloCredentials, TrelloList } from '../types/trello.js';
+import { extractCredentials } from '../utils/validation.js';
+import { renderBoards, renderBoard, renderList, renderCard } from './markdown.js';
+
+const MARKDOWN = 'text/markdown';
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+interface ResourceRoute {
+  pattern: RegExp;
+  read: (client: TrelloClient, resolver: ReferenceResolver, ...params: string[]) => Promise<string>;
+}
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'trello://board/{boardId}',
+    name: 'Trello board',
+    description: 'A board with all of its open lists and cards. The board can be given by ID, name or shortLink.',
+    mimeType: MARKDOWN
+  },
+  {
+    uriTemplate: 'trello://board/{boardId}/list/{listId}',
+    name: 'Trello list',
+    description: 'The open cards in one list of a board. The list can be given by ID or name.',
+    mimeType: MARKDOWN
+  },
+  {
+    uriTemplate: 'trello://card/{cardId}',
+    name: 'Trello card',
+    description: 'A card with its description, labels, members, checklists and recent comments. The card can be given by ID or shortLink.',
+    mimeType: MARKDOWN
+  }
+];
+
+const routes: ResourceRoute[] = [
+  {
+    pattern: /^trello:\/\/boards\/?$/,
+    read: async (client) => renderBoards((await client.getMyBoards('open')).data)
+  },
+  {
+    pattern: /^trello:\/\/board\/([^/]+)\/?$/,
+    read: async (client, resolver, boardRef) => {
+      const boardId = await resolver.resolveBoard(boardRef);
+      return renderBoard((await client.getBoard(boardId, true)).data);
+    }
+  },
+  {
+    pattern: /^trello:\/\/board\/([^/]+)\/list\/([^/]+)\/?$/,
+    read: async (client, resolver, boardRef, listRef) => {
+      const boardId = await resolver.resolveBoard(boardRef);
+      const listId = await resolver.resolveList(listRef, boardId);
+      const [board, lists, cards] = (await client.batch([
+        `/boards/${boardId}`,
+        `/boards/${boardId}/lists?filter=all`,
+        `/lists/${listId}/cards?filter=open`
+      ])).data.map(unwrapBatchItem) as [TrelloBoard, TrelloList[], TrelloCard[]];
+      const list = lists.find(candidate => candidate.id === listId);
+      if (!list) {
+        throw new Error(`List ${listId} is not on board ${board.name}`);
+      }
+      return renderList(board, list, cards);
+    }
+  },
+  {
+    pattern: /^trello:\/\/card\/([^/]+)\/?$/,
+    read: async (client, resolver, cardRef) => {
+      const cardId = await resolver.resolveCard(cardRef);
+      const [card, comments] = (await client.batch([
+        `/cards/${cardId}?members=true&labels=true&checklists=all&badges=true`,
+        `/cards/${cardId}/actions?filter=commentCard&limit=20`
+      ])).data.map(unwrapBatchItem) as [TrelloCard, TrelloAction[]];
+      return renderCard(card, comments);
+    }
+  }
+];
+
+function createClient(credentials?: TrelloCredentials): TrelloClient {
+  return new TrelloClient(extractCredentials(credentials).credentials);
+}
+
+function toError(error: unknown): Error {
+  if (error instanceof Error) return error;
+  const message = (error as { message?: string })?.message;
+  return new Error(message ?? 'Unknown error occurred');
+}
+
+/**
+ * Lists the board overview plus one resource per open board, so clients can
+ * offer boards for attachment without the user typing a URI.
+ */
+export async function listResources(credentials?: TrelloCredentials): Promise<Resource[]> {
+  const resources: Resource[] = [
+    {
+      uri: 'trello://boards',
+      name: 'Trello boards',
+      description: 'All open boards you have access to',
+      mimeType: MARKDOWN
+    }
+  ];
+
+  try {
+    const boards = (await createClient(credentials).getMyBoards('open')).data;
+    resources.push(...boards.map(board => ({
+      uri: `trello://board/${board.id}`,
+      name: board.name,
+      ...(board.desc && { description: board.desc.split('\n')[0] }),
+      mimeType: MARKDOWN
+    })));
+  } catch {
+    // Listing is best effort; the templates still work once credentials do
+  }
+
+  return resources;
+}
+
+export async function readResource(uri: string, credentials?: TrelloCredentials): Promise<ResourceContents[]> {
+  for (const route of routes) {
+    const match = route.pattern.exec(uri);
+    if (!match) continue;
+
+    try {
+      const client = createClient(credentials);
+      const params = match.slice(1).map(param => decodeURIComponent(param));
+      const text = await route.read(client, new ReferenceResolver(client), ...params);
+      return [{ uri, mimeType: MARKDOWN, text }];
+    } catch (error) {
+      throw toError(error);
+    }
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
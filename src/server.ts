@@ -2,74 +2,44 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
-  InitializeRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { 
-  listBoardsTool, 
-  handleListBoards,
-  getBoardDetailsTool,
-  handleGetBoardDetails,
-  getListsTool,
-  handleGetLists
-} from './tools/boards.js';
-import { 
-  createCardTool, 
-  handleCreateCard,
-  updateCardTool,
-  handleUpdateCard,
-  moveCardTool,
-  handleMoveCard,
-  getCardTool,
-  handleGetCard
-} from './tools/cards.js';
-import {
-  trelloSearchTool,
-  handleTrelloSearch
-} from './tools/search.js';
-import {
-  trelloGetListCardsTool,
-  handleTrelloGetListCards,
-  trelloCreateListTool,
-  handleTrelloCreateList,
-  trelloAddCommentTool,
-  handleTrelloAddComment
-} from './tools/lists.js';
-import {
-  trelloGetUserBoardsTool,
-  handleTrelloGetUserBoards,
-  trelloGetMemberTool,
-  handleTrelloGetMember
-} from './tools/members.js';
-import {
-  trelloGetBoardCardsTool,
-  handleTrelloGetBoardCards,
-  trelloGetCardActionsTool,
-  handleTrelloGetCardActions,
-  trelloGetCardAttachmentsTool,
-  handleTrelloGetCardAttachments,
-  trelloGetCardChecklistsTool,
-  handleTrelloGetCardChecklists,
-  trelloGetBoardMembersTool,
-  handleTrelloGetBoardMembers,
-  trelloGetBoardLabelsTool,
-  handleTrelloGetBoardLabels,
-  trelloCreateLabelTool,
-  handleTrelloCreateLabel,
-  trelloUpdateLabelTool,
-  handleTrelloUpdateLabel,
-  trelloAddLabelToCardTool,
-  handleTrelloAddLabelToCard,
-  trelloRemoveLabelFromCardTool,
-  handleTrelloRemoveLabelFromCard
-} from './tools/advanced.js';
-
-export function createMCPServer() {
+import type { TrelloCredentials } from './types/trello.js';
+import { listTools, callTool } from './tools/registry.js';
+import { toolPolicyFromEnv, type ToolPolicy } from './tools/policy.js';
+import { elicitationConfirmer } from './tools/confirmation.js';
+import { resourceTemplates, listResources, readResource } from './resources/registry.js';
+import { listPrompts, getPrompt } from './prompts/registry.js';
+
+export interface MCPServerOptions {
+  name?: string;
+  // When set, these credentials are injected into every tool call and
+  // override anything supplied in the tool arguments.
+  credentials?: TrelloCredentials;
+  // Whether tool calls may pick a configured account profile with `account`.
+  // Defaults to true; shared servers turn it off so callers cannot use the
+  // host's accounts.
+  accounts?: boolean;
+  // Read-only mode and tool allow/deny lists; defaults to the TRELLO_READ_ONLY,
+  // TRELLO_ALLOWED_TOOLS and TRELLO_DENIED_TOOLS environment variables
+  toolPolicy?: ToolPolicy;
+}
+
+export function createMCPServer(options: MCPServerOptions = {}) {
+  const name = options.name ?? 'trello-mcp-server';
+  const accounts = options.accounts ?? true;
+  const toolPolicy = options.toolPolicy ?? toolPolicyFromEnv();
+
+  // The SDK answers initialize itself: it negotiates the protocol version and
+  // records the client's capabilities, which tell us whether it can elicit
   const server = new Server(
     {
-      name: 'trello-mcp-server',
+      name,
       version: '1.0.0',
     },
     {
@@ -81,153 +51,64 @@ export function createMCPServer() {
     }
   );
 
-  // Handle MCP initialization
-  server.setRequestHandler(InitializeRequestSchema, async (_request) => {
-    return {
-      protocolVersion: '2024-11-05',
-      capabilities: {
-        tools: {},
-        resources: {},
-        prompts: {},
-      },
-      serverInfo: {
-        name: 'trello-mcp-server',
-        version: '1.0.0',
-      },
-    };
-  });
-
   // Handle list tools request
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        // Phase 1: Essential tools
-        trelloSearchTool,
-        trelloGetUserBoardsTool,
-        getBoardDetailsTool,
-        getCardTool,
-        createCardTool,
-        // Phase 2: Core operations
-        updateCardTool,
-        moveCardTool,
-        trelloAddCommentTool,
-        trelloGetListCardsTool,
-        trelloCreateListTool,
-        // Original tools (maintained for compatibility)
-        listBoardsTool,
-        getListsTool,
-        // Member management
-        trelloGetMemberTool,
-        // Phase 3: Advanced features
-        trelloGetBoardCardsTool,
-        trelloGetCardActionsTool,
-        trelloGetCardAttachmentsTool,
-        trelloGetCardChecklistsTool,
-        trelloGetBoardMembersTool,
-        trelloGetBoardLabelsTool,
-        trelloCreateLabelTool,
-        trelloUpdateLabelTool,
-        trelloAddLabelToCardTool,
-        trelloRemoveLabelFromCardTool
-      ],
+      tools: listTools({ accounts, policy: toolPolicy }),
     };
   });
 
   // Handle list resources request (required by MCP spec)
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     return {
-      resources: [],
+      resources: await listResources(options.credentials),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return {
+      contents: await readResource(request.params.uri, options.credentials),
     };
   });
 
   // Handle list prompts request (required by MCP spec)
   server.setRequestHandler(ListPromptsRequestSchema, async () => {
     return {
-      prompts: [],
+      prompts: listPrompts(),
     };
   });
 
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return await getPrompt(request.params.name, request.params.arguments, options.credentials);
+  });
+
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    switch (name) {
-      // Phase 1: Essential tools
-      case 'trello_search':
-        return await handleTrelloSearch(args);
-      
-      case 'trello_get_user_boards':
-        return await handleTrelloGetUserBoards(args);
-      
-      case 'get_board_details':
-        return await handleGetBoardDetails(args);
-      
-      case 'get_card':
-        return await handleGetCard(args);
-      
-      case 'create_card':
-        return await handleCreateCard(args);
-      
-      // Phase 2: Core operations
-      case 'update_card':
-        return await handleUpdateCard(args);
-      
-      case 'move_card':
-        return await handleMoveCard(args);
-      
-      case 'trello_add_comment':
-        return await handleTrelloAddComment(args);
-      
-      case 'trello_get_list_cards':
-        return await handleTrelloGetListCards(args);
-      
-      case 'trello_create_list':
-        return await handleTrelloCreateList(args);
-      
-      // Original tools (maintained for compatibility)
-      case 'list_boards':
-        return await handleListBoards(args);
-      
-      case 'get_lists':
-        return await handleGetLists(args);
-      
-      // Member management
-      case 'trello_get_member':
-        return await handleTrelloGetMember(args);
-      
-      // Phase 3: Advanced features
-      case 'trello_get_board_cards':
-        return await handleTrelloGetBoardCards(args);
-      
-      case 'trello_get_card_actions':
-        return await handleTrelloGetCardActions(args);
-      
-      case 'trello_get_card_attachments':
-        return await handleTrelloGetCardAttachments(args);
-      
-      case 'trello_get_card_checklists':
-        return await handleTrelloGetCardChecklists(args);
-      
-      case 'trello_get_board_members':
-        return await handleTrelloGetBoardMembers(args);
-      
-      case 'trello_get_board_labels':
-        return await handleTrelloGetBoardLabels(args);
-
-      case 'trello_create_label':
-        return await handleTrelloCreateLabel(args);
-
-      case 'trello_update_label':
-        return await handleTrelloUpdateLabel(args);
-
-      case 'trello_add_label_to_card':
-        return await handleTrelloAddLabelToCard(args);
-
-      case 'trello_remove_label_from_card':
-        return await handleTrelloRemoveLabelFromCard(args);
-      
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    const { name: toolName, arguments: args } = request.params;
+    const account = args?.account;
+
+    if (account !== undefined && !accounts) {
+      return {
+        content: [{ type: 'text' as const, text: 'Error: account profiles are not available on this server' }],
+        isError: true
+      };
     }
+
+    // A selected profile replaces the injected credentials
+    const toolArgs = options.credentials && account === undefined
+      ? { ...args, apiKey: options.credentials.apiKey, token: options.credentials.token }
+      : args;
+
+    // Destructive tools ask the user through elicitation when the client
+    // supports it, and otherwise need `confirm: true`
+    const confirm = server.getClientCapabilities()?.elicitation ? elicitationConfirmer(server) : undefined;
+
+    return await callTool(toolName, toolArgs, toolPolicy, confirm, accounts);
   });
 
   return server;
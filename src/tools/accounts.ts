@@ -0,0 +1,82 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TrelloClient } from '../trello/client.js';
+import { formatValidationError } from '../utils/validation.js';
+import { accountsFilePath, listAccounts, resolveAccount } from '../utils/accounts.js';
+import { outputSchema, toolResult, objectField, arrayField, stringField, booleanField } from './output.js';
+
+export const listAccountsSchema = z.object({
+  verify: z.boolean().optional().default(false)
+});
+
+const validateListAccounts = (args: unknown) => listAccountsSchema.parse(args);
+
+export const trelloListAccountsTool: Tool = {
+  name: 'trello_list_accounts',
+  description: 'List the Trello account profiles configured for this server. Pass one of the names as the "account" argument of any other tool to act as that account.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      verify: {
+        type: 'boolean',
+        description: 'Also check each account\'s credentials by looking up the Trello user they belong to',
+        default: false
+      }
+    }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({
+    configFile: stringField,
+    accounts: arrayField(objectField({
+      name: stringField,
+      description: stringField,
+      isDefault: booleanField,
+      username: stringField,
+      fullName: stringField,
+      error: stringField
+    }, ['name', 'isDefault']))
+  }, ['configFile', 'accounts'])
+};
+
+export async function handleTrelloListAccounts(args: unknown) {
+  try {
+    const { verify } = validateListAccounts(args ?? {});
+    const accounts = listAccounts();
+
+    const entries = await Promise.all(accounts.map(async account => {
+      if (!verify) return account;
+      try {
+        const response = await new TrelloClient(resolveAccount(account.name)).getCurrentUser();
+        return { ...account, username: response.data.username, fullName: response.data.fullName };
+      } catch (error) {
+        return { ...account, error: (error as { message?: string })?.message ?? 'Unknown error occurred' };
+      }
+    }));
+
+    const result = {
+      summary: accounts.length > 0
+        ? `Found ${accounts.length} account profile(s)`
+        : 'No account profiles configured; tools use the TRELLO_API_KEY and TRELLO_TOKEN credentials',
+      configFile: accountsFilePath(),
+      accounts: entries
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error occurred';
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error listing accounts: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
@@ -2,94 +2,78 @@ import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TrelloClient } from '../trello/client.js';
 import { formatValidationError, extractCredentials } from '../utils/validation.js';
+import { outputSchema, toolResult, arrayField, stringField, cardField, labelField, memberField, attachmentField, checklistField, actionField } from './output.js';
+import { dryRunResult, pickFields } from './dryRun.js';
 
-const validateGetBoardCards = (args: unknown) => {
-  const schema = z.object({
-    boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format'),
-    attachments: z.string().optional(),
-    members: z.string().optional(),
-    filter: z.string().optional()
-  });
-  
-  return schema.parse(args);
-};
+export const getBoardCardsSchema = z.object({
+  boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format'),
+  attachments: z.string().optional(),
+  members: z.string().optional(),
+  filter: z.string().optional()
+});
 
-const validateGetCardActions = (args: unknown) => {
-  const schema = z.object({
-    cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
-    filter: z.string().optional(),
-    limit: z.number().min(1).max(1000).optional()
-  });
-  
-  return schema.parse(args);
-};
+export const getCardActionsSchema = z.object({
+  cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
+  filter: z.string().optional(),
+  limit: z.number().min(1).max(1000).optional()
+});
 
-const validateGetCardAttachments = (args: unknown) => {
-  const schema = z.object({
-    cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
-    fields: z.array(z.string()).optional()
-  });
-  
-  return schema.parse(args);
-};
+export const getCardAttachmentsSchema = z.object({
+  cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
+  fields: z.array(z.string()).optional()
+});
 
-const validateGetCardChecklists = (args: unknown) => {
-  const schema = z.object({
-    cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
-    checkItems: z.string().optional(),
-    fields: z.array(z.string()).optional()
-  });
-  
-  return schema.parse(args);
-};
+export const getCardChecklistsSchema = z.object({
+  cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
+  checkItems: z.string().optional(),
+  fields: z.array(z.string()).optional()
+});
 
-const validateGetBoardMembers = (args: unknown) => {
-  const schema = z.object({
-    boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format')
-  });
-  
-  return schema.parse(args);
-};
+export const getBoardMembersSchema = z.object({
+  boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format')
+});
 
-const validateGetBoardLabels = (args: unknown) => {
-  const schema = z.object({
-    boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format')
-  });
-  
-  return schema.parse(args);
-};
+export const getBoardLabelsSchema = z.object({
+  boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format')
+});
 
-const validateCreateLabel = (args: unknown) => {
-  const schema = z.object({
-    boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format'),
-    name: z.string().min(1, 'Label name is required').max(16384, 'Label name too long'),
-    color: z.string().min(1, 'Color is required')
-  });
+export const createLabelSchema = z.object({
+  boardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format'),
+  name: z.string().min(1, 'Label name is required').max(16384, 'Label name too long'),
+  color: z.string().min(1, 'Color is required')
+});
 
-  return schema.parse(args);
-};
+export const updateLabelSchema = z.object({
+  labelId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid label ID format'),
+  name: z.string().min(1).max(16384).optional(),
+  color: z.string().min(1).optional()
+}).refine(data => Boolean(data.name || data.color), {
+  message: 'At least one of name or color must be provided',
+  path: ['name']
+});
 
-const validateUpdateLabel = (args: unknown) => {
-  const schema = z.object({
-    labelId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid label ID format'),
-    name: z.string().min(1).max(16384).optional(),
-    color: z.string().min(1).optional()
-  }).refine(data => Boolean(data.name || data.color), {
-    message: 'At least one of name or color must be provided',
-    path: ['name']
-  });
-
-  return schema.parse(args);
-};
+export const cardLabelSchema = z.object({
+  cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
+  labelId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid label ID format')
+});
 
-const validateAddLabelToCard = (args: unknown) => {
-  const schema = z.object({
-    cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
-    labelId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid label ID format')
-  });
+const validateGetBoardCards = (args: unknown) => getBoardCardsSchema.parse(args);
 
-  return schema.parse(args);
-};
+const validateGetCardActions = (args: unknown) => getCardActionsSchema.parse(args);
+
+const validateGetCardAttachments = (args: unknown) => getCardAttachmentsSchema.parse(args);
+
+const validateGetCardChecklists = (args: unknown) => getCardChecklistsSchema.parse(args);
+
+const validateGetBoardMembers = (args: unknown) => getBoardMembersSchema.parse(args);
+
+const validateGetBoardLabels = (args: unknown) => getBoardLabelsSchema.parse(args);
+
+const validateCreateLabel = (args: unknown) => createLabelSchema.parse(args);
+
+const validateUpdateLabel = (args: unknown) => updateLabelSchema.parse(args);
+
+const validateCardLabel = (args: unknown) => cardLabelSchema.parse(args);
 
 export const trelloGetBoardCardsTool: Tool = {
   name: 'trello_get_board_cards',
@@ -122,7 +106,9 @@ export const trelloGetBoardCardsTool: Tool = {
       }
     },
     required: ['boardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ boardId: stringField, cards: arrayField(cardField) }, ['boardId', 'cards'])
 };
 
 export async function handleTrelloGetBoardCards(args: unknown) {
@@ -170,17 +156,11 @@ export async function handleTrelloGetBoardCards(args: unknown) {
           date: attachment.date
         })) || []
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -226,7 +206,9 @@ export const trelloGetCardActionsTool: Tool = {
       }
     },
     required: ['cardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ cardId: stringField, actions: arrayField(actionField) }, ['cardId', 'actions'])
 };
 
 export async function handleTrelloGetCardActions(args: unknown) {
@@ -266,17 +248,11 @@ export async function handleTrelloGetCardActions(args: unknown) {
           } : null
         }
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -314,7 +290,9 @@ export const trelloGetCardAttachmentsTool: Tool = {
       }
     },
     required: ['cardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ cardId: stringField, attachments: arrayField(attachmentField) }, ['cardId', 'attachments'])
 };
 
 export async function handleTrelloGetCardAttachments(args: unknown) {
@@ -346,17 +324,11 @@ export async function handleTrelloGetCardAttachments(args: unknown) {
           url: preview.url
         })) || []
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -400,7 +372,9 @@ export const trelloGetCardChecklistsTool: Tool = {
       }
     },
     required: ['cardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ cardId: stringField, checklists: arrayField(checklistField) }, ['cardId', 'checklists'])
 };
 
 export async function handleTrelloGetCardChecklists(args: unknown) {
@@ -431,17 +405,11 @@ export async function handleTrelloGetCardChecklists(args: unknown) {
           nameData: item.nameData
         })) || []
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -474,7 +442,9 @@ export const trelloGetBoardMembersTool: Tool = {
       }
     },
     required: ['boardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ boardId: stringField, members: arrayField(memberField) }, ['boardId', 'members'])
 };
 
 export async function handleTrelloGetBoardMembers(args: unknown) {
@@ -498,17 +468,11 @@ export async function handleTrelloGetBoardMembers(args: unknown) {
         avatarUrl: member.avatarUrl,
         initials: member.initials
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -541,7 +505,9 @@ export const trelloGetBoardLabelsTool: Tool = {
       }
     },
     required: ['boardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ boardId: stringField, labels: arrayField(labelField) }, ['boardId', 'labels'])
 };
 
 export async function handleTrelloGetBoardLabels(args: unknown) {
@@ -562,17 +528,11 @@ export async function handleTrelloGetBoardLabels(args: unknown) {
         color: label.color,
         uses: label.uses
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -614,7 +574,9 @@ export const trelloCreateLabelTool: Tool = {
       }
     },
     required: ['boardId', 'name', 'color']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ label: labelField }, ['label'])
 };
 
 export async function handleTrelloCreateLabel(args: unknown) {
@@ -638,14 +600,7 @@ export async function handleTrelloCreateLabel(args: unknown) {
       rateLimit: response.rateLimit
     };
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -665,6 +620,13 @@ export async function handleTrelloCreateLabel(args: unknown) {
   }
 }
 
+export async function previewCreateLabel(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { boardId, name, color } = validateCreateLabel(params);
+  const { data: board } = await new TrelloClient(credentials).getBoard(boardId);
+  return dryRunResult(`would create label "${name}" on board "${board.name}"`, null, { name, color, idBoard: boardId });
+}
+
 export const trelloUpdateLabelTool: Tool = {
   name: 'trello_update_label',
   description: 'Update the name or color of an existing Trello label.',
@@ -687,7 +649,9 @@ export const trelloUpdateLabelTool: Tool = {
       }
     },
     required: ['labelId']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ label: labelField }, ['label'])
 };
 
 export async function handleTrelloUpdateLabel(args: unknown) {
@@ -711,14 +675,7 @@ export async function handleTrelloUpdateLabel(args: unknown) {
       rateLimit: response.rateLimit
     };
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -738,6 +695,14 @@ export async function handleTrelloUpdateLabel(args: unknown) {
   }
 }
 
+export async function previewUpdateLabel(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { labelId, ...updates } = validateUpdateLabel(params);
+  const { data: label } = await new TrelloClient(credentials).getLabel(labelId);
+  const before = pickFields({ name: label.name, color: label.color }, Object.keys(updates));
+  return dryRunResult(`would update label "${label.name || label.color}"`, before, { ...before, ...updates });
+}
+
 export const trelloAddLabelToCardTool: Tool = {
   name: 'trello_add_label_to_card',
   description: 'Assign an existing label to a Trello card.',
@@ -756,13 +721,15 @@ export const trelloAddLabelToCardTool: Tool = {
       }
     },
     required: ['cardId', 'labelId']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ cardId: stringField, labels: arrayField(stringField) }, ['cardId', 'labels'])
 };
 
 export async function handleTrelloAddLabelToCard(args: unknown) {
   try {
     const { credentials, params } = extractCredentials(args);
-    const { cardId, labelId } = validateAddLabelToCard(params);
+    const { cardId, labelId } = validateCardLabel(params);
     const client = new TrelloClient(credentials);
 
     const response = await client.addLabelToCard(cardId, labelId);
@@ -774,14 +741,7 @@ export async function handleTrelloAddLabelToCard(args: unknown) {
       rateLimit: response.rateLimit
     };
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -801,6 +761,19 @@ export async function handleTrelloAddLabelToCard(args: unknown) {
   }
 }
 
+export async function previewAddLabelToCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId, labelId } = validateCardLabel(params);
+  const client = new TrelloClient(credentials);
+  const [{ data: card }, { data: label }] = await Promise.all([client.getCard(cardId), client.getLabel(labelId)]);
+  const idLabels = card.idLabels ?? [];
+  return dryRunResult(
+    `would add label "${label.name || label.color}" to card "${card.name}"`,
+    { idLabels },
+    { idLabels: idLabels.includes(labelId) ? idLabels : [...idLabels, labelId] }
+  );
+}
+
 export const trelloRemoveLabelFromCardTool: Tool = {
   name: 'trello_remove_label_from_card',
   description: 'Remove a label from a Trello card.',
@@ -819,13 +792,15 @@ export const trelloRemoveLabelFromCardTool: Tool = {
       }
     },
     required: ['cardId', 'labelId']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ cardId: stringField, labelId: stringField }, ['cardId', 'labelId'])
 };
 
 export async function handleTrelloRemoveLabelFromCard(args: unknown) {
   try {
     const { credentials, params } = extractCredentials(args);
-    const { cardId, labelId } = validateAddLabelToCard(params);
+    const { cardId, labelId } = validateCardLabel(params);
     const client = new TrelloClient(credentials);
 
     const response = await client.removeLabelFromCard(cardId, labelId);
@@ -837,14 +812,7 @@ export async function handleTrelloRemoveLabelFromCard(args: unknown) {
       rateLimit: response.rateLimit
     };
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -863,3 +831,27 @@ export async function handleTrelloRemoveLabelFromCard(args: unknown) {
     };
   }
 }
+
+export async function previewRemoveLabelFromCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId, labelId } = validateCardLabel(params);
+  const client = new TrelloClient(credentials);
+  const [{ data: card }, { data: label }] = await Promise.all([client.getCard(cardId), client.getLabel(labelId)]);
+  const idLabels = card.idLabels ?? [];
+  return dryRunResult(
+    `would remove label "${label.name || label.color}" from card "${card.name}"`,
+    { idLabels },
+    { idLabels: idLabels.filter(id => id !== labelId) }
+  );
+}
+
+export async function describeRemoveLabelFromCard(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId, labelId } = validateCardLabel(params);
+  const client = new TrelloClient(credentials);
+  const { data: card } = await client.getCard(cardId);
+  const { data: labels } = await client.getBoardLabels(card.idBoard);
+  const label = labels.find(candidate => candidate.id === labelId);
+  const labelName = label ? `"${label.name || label.color}"` : labelId;
+  return `Remove label ${labelName} from card "${card.name}".`;
+}
@@ -1,13 +1,52 @@
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { TrelloClient } from '../trello/client.js';
+import { TrelloClient, boardUpdateBody } from '../trello/client.js';
 import { 
   validateListBoards, 
   validateGetBoard, 
   validateGetBoardLists, 
+  validateCreateBoard,
+  validateUpdateBoard,
+  validateCloseBoard,
+  validateCopyBoard,
   formatValidationError,
   extractCredentials
 } from '../utils/validation.js';
+import type { TrelloBoard } from '../types/trello.js';
+import { outputSchema, toolResult, arrayField, objectField, stringField, booleanField, boardField, boardDetailsField, listField } from './output.js';
+import { dryRunResult } from './dryRun.js';
+
+const boardSummary = (board: TrelloBoard) => ({
+  id: board.id,
+  name: board.name,
+  description: board.desc || 'No description',
+  url: board.shortUrl,
+  lastActivity: board.dateLastActivity,
+  closed: board.closed,
+  permissions: board.prefs?.permissionLevel || 'unknown'
+});
+
+const boardPrefsField = objectField({
+  permissionLevel: stringField,
+  voting: stringField,
+  comments: stringField,
+  invitations: stringField,
+  selfJoin: booleanField,
+  cardCovers: booleanField,
+  background: stringField
+}, []);
+
+const boardIdProperty = {
+  type: 'string',
+  description: 'The ID of the board (you can get this from list_boards)',
+  pattern: '^[a-f0-9]{24}$'
+};
+
+const workspaceProperty = {
+  type: 'string',
+  description: 'Optional: ID of the workspace (organization) that owns the board',
+  pattern: '^[a-f0-9]{24}$'
+};
 
 export const listBoardsTool: Tool = {
   name: 'list_boards',
@@ -22,7 +61,9 @@ export const listBoardsTool: Tool = {
         default: 'open'
       }
     }
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ boards: arrayField(boardField) }, ['boards'])
 };
 
 export async function handleListBoards(args: unknown) {
@@ -44,18 +85,12 @@ export async function handleListBoards(args: unknown) {
       closed: board.closed
     }));
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify({
-            summary,
-            boards: boardList,
-            rateLimit: response.rateLimit
-          }, null, 2)
-        }
-      ]
-    };
+    return toolResult({
+      summary,
+      boards: boardList,
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
+    });
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -93,7 +128,9 @@ export const getBoardDetailsTool: Tool = {
       }
     },
     required: ['boardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ board: boardDetailsField }, ['board'])
 };
 
 export async function handleGetBoardDetails(args: unknown) {
@@ -139,17 +176,11 @@ export async function handleGetBoardDetails(args: unknown) {
           })) || []
         })
       },
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -188,7 +219,9 @@ export const getListsTool: Tool = {
       }
     },
     required: ['boardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ boardId: stringField, lists: arrayField(listField) }, ['boardId', 'lists'])
 };
 
 export async function handleGetLists(args: unknown) {
@@ -210,17 +243,72 @@ export async function handleGetLists(args: unknown) {
         closed: list.closed,
         subscribed: list.subscribed
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
     return {
       content: [
         {
           type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
+          text: `Error getting lists: ${errorMessage}`
         }
-      ]
+      ],
+      isError: true
     };
+  }
+}
+
+export const trelloCreateBoardTool: Tool = {
+  name: 'trello_create_board',
+  description: 'Create a new Trello board, optionally inside a workspace. Trello adds "To Do", "Doing" and "Done" lists unless defaultLists is false.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Name of the new board',
+        minLength: 1
+      },
+      desc: {
+        type: 'string',
+        description: 'Optional: description of the board'
+      },
+      idOrganization: workspaceProperty,
+      defaultLists: {
+        type: 'boolean',
+        description: 'Create the default "To Do", "Doing" and "Done" lists',
+        default: true
+      }
+    },
+    required: ['name']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ board: boardField }, ['board'])
+};
+
+export async function handleTrelloCreateBoard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const boardData = validateCreateBoard(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.createBoard(boardData);
+    const board = response.data;
+
+    return toolResult({
+      summary: `Created board: ${board.name}`,
+      board: boardSummary(board),
+      rateLimit: response.rateLimit
+    });
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -232,10 +320,302 @@ export async function handleGetLists(args: unknown) {
       content: [
         {
           type: 'text' as const,
-          text: `Error getting lists: ${errorMessage}`
+          text: `Error creating board: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewCreateBoard(args: unknown) {
+  const { params } = extractCredentials(args);
+  const boardData = validateCreateBoard(params);
+  const where = boardData.idOrganization ? ` in workspace ${boardData.idOrganization}` : '';
+  return dryRunResult(`would create board "${boardData.name}"${where}`, null, boardData);
+}
+
+export const trelloUpdateBoardTool: Tool = {
+  name: 'trello_update_board',
+  description: 'Rename a Trello board, change its description, or change its preferences such as visibility, voting, comments and background.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      boardId: boardIdProperty,
+      name: {
+        type: 'string',
+        description: 'New name for the board',
+        minLength: 1
+      },
+      desc: {
+        type: 'string',
+        description: 'New description for the board'
+      },
+      prefs: {
+        type: 'object',
+        description: 'Board preferences to change; the others keep their current value',
+        properties: {
+          permissionLevel: { type: 'string', enum: ['private', 'org', 'public'], description: 'Who can see the board' },
+          voting: { type: 'string', enum: ['disabled', 'members', 'observers', 'org', 'public'], description: 'Who can vote on cards' },
+          comments: { type: 'string', enum: ['disabled', 'members', 'observers', 'org', 'public'], description: 'Who can comment on cards' },
+          invitations: { type: 'string', enum: ['members', 'admins'], description: 'Who can invite people to the board' },
+          selfJoin: { type: 'boolean', description: 'Whether workspace members can join the board themselves' },
+          cardCovers: { type: 'boolean', description: 'Whether card covers are shown' },
+          background: { type: 'string', enum: ['blue', 'orange', 'green', 'red', 'purple', 'pink', 'lime', 'sky', 'grey'], description: 'Background color' }
+        },
+        additionalProperties: false
+      }
+    },
+    required: ['boardId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ board: boardField, prefs: boardPrefsField }, ['board'])
+};
+
+export async function handleTrelloUpdateBoard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { boardId, ...updates } = validateUpdateBoard(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.updateBoard(boardId, updates);
+    const board = response.data;
+
+    return toolResult({
+      summary: `Updated board: ${board.name}`,
+      board: boardSummary(board),
+      ...(board.prefs && {
+        prefs: {
+          permissionLevel: board.prefs.permissionLevel,
+          voting: board.prefs.voting,
+          comments: board.prefs.comments,
+          invitations: board.prefs.invitations,
+          selfJoin: board.prefs.selfJoin,
+          cardCovers: board.prefs.cardCovers,
+          background: board.prefs.background
+        }
+      }),
+      rateLimit: response.rateLimit
+    });
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error updating board: ${errorMessage}`
         }
       ],
       isError: true
     };
   }
 }
+
+export async function previewUpdateBoard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { boardId, ...updates } = validateUpdateBoard(params);
+  const { data: board } = await new TrelloClient(credentials).getBoard(boardId);
+  const after = boardUpdateBody(updates);
+  const current = boardUpdateBody({ name: board.name, desc: board.desc, prefs: board.prefs });
+
+  return dryRunResult(
+    `would update board "${board.name}"`,
+    Object.fromEntries(Object.keys(after).map(field => [field, current[field]])),
+    after
+  );
+}
+
+export const trelloCloseBoardTool: Tool = {
+  name: 'trello_close_board',
+  description: 'Close (archive) a Trello board. Closed boards are hidden from the board list and read-only until reopened with trello_reopen_board.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      boardId: boardIdProperty
+    },
+    required: ['boardId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ board: boardField }, ['board'])
+};
+
+export async function handleTrelloCloseBoard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { boardId } = validateCloseBoard(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.closeBoard(boardId);
+    const board = response.data;
+
+    return toolResult({
+      summary: `Closed board: ${board.name}`,
+      board: boardSummary(board),
+      rateLimit: response.rateLimit
+    });
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error closing board: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewCloseBoard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { boardId } = validateCloseBoard(params);
+  const { data: board } = await new TrelloClient(credentials).getBoard(boardId);
+  return dryRunResult(`would close board "${board.name}"`, { closed: board.closed }, { closed: true });
+}
+
+export async function describeCloseBoard(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { boardId } = validateCloseBoard(params);
+  const { data: board } = await new TrelloClient(credentials).getBoard(boardId, true);
+  return `Close board "${board.name}" with its ${board.lists?.length ?? 0} list(s) and ${board.cards?.length ?? 0} open card(s).`;
+}
+
+export const trelloReopenBoardTool: Tool = {
+  name: 'trello_reopen_board',
+  description: 'Reopen a closed Trello board.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      boardId: boardIdProperty
+    },
+    required: ['boardId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ board: boardField }, ['board'])
+};
+
+export async function handleTrelloReopenBoard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { boardId } = validateCloseBoard(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.reopenBoard(boardId);
+    const board = response.data;
+
+    return toolResult({
+      summary: `Reopened board: ${board.name}`,
+      board: boardSummary(board),
+      rateLimit: response.rateLimit
+    });
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error reopening board: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewReopenBoard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { boardId } = validateCloseBoard(params);
+  const { data: board } = await new TrelloClient(credentials).getBoard(boardId);
+  return dryRunResult(`would reopen board "${board.name}"`, { closed: board.closed }, { closed: false });
+}
+
+export const trelloCopyBoardTool: Tool = {
+  name: 'trello_copy_board',
+  description: 'Create a new board from an existing one used as a template. The lists and labels are always copied; set keepFromSource to "cards" to copy the open cards too.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sourceBoardId: {
+        type: 'string',
+        description: 'ID of the board to copy',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      name: {
+        type: 'string',
+        description: 'Name of the new board',
+        minLength: 1
+      },
+      idOrganization: workspaceProperty,
+      keepFromSource: {
+        type: 'string',
+        enum: ['cards', 'none'],
+        description: '"cards" to copy the open cards along with the lists and labels, "none" for an empty copy',
+        default: 'none'
+      }
+    },
+    required: ['sourceBoardId', 'name']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ board: boardField, sourceBoardId: stringField }, ['board', 'sourceBoardId'])
+};
+
+export async function handleTrelloCopyBoard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { sourceBoardId, ...copy } = validateCopyBoard(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.copyBoard(sourceBoardId, copy);
+    const board = response.data;
+
+    return toolResult({
+      summary: `Created board "${board.name}" from board ${sourceBoardId}${copy.keepFromSource === 'cards' ? ' with its cards' : ''}`,
+      board: boardSummary(board),
+      sourceBoardId,
+      rateLimit: response.rateLimit
+    });
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error copying board: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewCopyBoard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { sourceBoardId, ...copy } = validateCopyBoard(params);
+  const { data: source } = await new TrelloClient(credentials).getBoard(sourceBoardId);
+  return dryRunResult(
+    `would copy board "${source.name}" to a new board "${copy.name}"${copy.keepFromSource === 'cards' ? ' with its cards' : ''}`,
+    null,
+    { ...copy, idBoardSource: source.id }
+  );
+}
@@ -0,0 +1,375 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TrelloClient, unwrapBatchItem } from '../trello/client.js';
+import { formatValidationError, extractCredentials, trelloIdSchema } from '../utils/validation.js';
+import { mapSettled } from '../utils/concurrency.js';
+import type { TrelloCard, TrelloList, UpdateCardRequest } from '../types/trello.js';
+import { outputSchema, toolResult, arrayField, objectField, stringField, numberField } from './output.js';
+import { dryRunResult, pickFields } from './dryRun.js';
+import { cardSnapshot } from './cards.js';
+import type { ChangeDescription } from './confirmation.js';
+
+// Upper bound on the cards one call may change, so a loose filter cannot
+// rewrite a whole board by accident
+const MAX_BULK_CARDS = 100;
+const DEFAULT_CONCURRENCY = 5;
+
+// Arguments that pick the cards; a confirmed call replaces them with cardIds
+const SELECTION_ARGUMENTS = ['listId', 'boardId', 'labelId', 'memberId', 'dueFilter'];
+
+export const bulkUpdateCardsSchema = z.object({
+  cardIds: z.array(trelloIdSchema).min(1).max(MAX_BULK_CARDS).optional(),
+  listId: trelloIdSchema.optional(),
+  boardId: trelloIdSchema.optional(),
+  labelId: trelloIdSchema.optional(),
+  memberId: trelloIdSchema.optional(),
+  dueFilter: z.enum(['overdue', 'has_due', 'no_due', 'complete', 'incomplete']).optional(),
+  operation: z.enum(['move', 'set_labels', 'add_members', 'remove_members', 'set_due', 'archive']),
+  idList: trelloIdSchema.optional(),
+  pos: z.union([z.number().min(0), z.enum(['top', 'bottom'])]).optional(),
+  idLabels: z.array(trelloIdSchema).optional(),
+  idMembers: z.array(trelloIdSchema).min(1).optional(),
+  due: z.string().datetime().nullable().optional(),
+  dueComplete: z.boolean().optional(),
+  concurrency: z.number().int().min(1).max(10).optional()
+}).superRefine((args, context) => {
+  const selectors = [args.cardIds, args.listId, args.boardId].filter(selector => selector !== undefined);
+  if (selectors.length !== 1) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ['cardIds'], message: 'Give exactly one of cardIds, listId or boardId' });
+  }
+
+  const missing = {
+    move: args.idList === undefined ? 'idList' : undefined,
+    set_labels: args.idLabels === undefined ? 'idLabels' : undefined,
+    add_members: args.idMembers === undefined ? 'idMembers' : undefined,
+    remove_members: args.idMembers === undefined ? 'idMembers' : undefined,
+    set_due: args.due === undefined && args.dueComplete === undefined ? 'due' : undefined,
+    archive: undefined
+  }[args.operation];
+  if (missing) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: [missing], message: `Required for the "${args.operation}" operation` });
+  }
+});
+
+type BulkUpdateArgs = z.infer<typeof bulkUpdateCardsSchema>;
+
+interface BulkCardResult {
+  cardId: string;
+  name?: string;
+  status: 'updated' | 'unchanged' | 'failed';
+  error?: string;
+}
+
+interface Selection {
+  cards: TrelloCard[];
+  // Requested cards that could not be read
+  unreadable: BulkCardResult[];
+}
+
+function errorText(error: unknown): string {
+  return (error as { message?: string })?.message ?? 'Unknown error occurred';
+}
+
+const cardLabels = (card: TrelloCard) => card.idLabels ?? card.labels?.map(label => label.id) ?? [];
+const cardMembers = (card: TrelloCard) => card.idMembers ?? card.members?.map(member => member.id) ?? [];
+
+function matchesDueFilter(card: TrelloCard, filter: NonNullable<BulkUpdateArgs['dueFilter']>): boolean {
+  switch (filter) {
+    case 'overdue':
+      return card.due !== null && !card.dueComplete && Date.parse(card.due) < Date.now();
+    case 'has_due':
+      return card.due !== null;
+    case 'no_due':
+      return card.due === null;
+    case 'complete':
+      return card.due !== null && card.dueComplete;
+    case 'incomplete':
+      return card.due !== null && !card.dueComplete;
+  }
+}
+
+/**
+ * The open cards picked by the selector, narrowed by the label, member and
+ * due filters.
+ */
+async function selectCards(client: TrelloClient, args: BulkUpdateArgs): Promise<Selection> {
+  let cards: TrelloCard[];
+  const unreadable: BulkCardResult[] = [];
+
+  if (args.cardIds) {
+    const { data: items } = await client.batch<TrelloCard>(args.cardIds.map(cardId => `/cards/${cardId}`));
+    cards = [];
+    items.forEach((item, index) => {
+      try {
+        cards.push(unwrapBatchItem(item));
+      } catch (error) {
+        unreadable.push({ cardId: args.cardIds![index], status: 'failed', error: errorText(error) });
+      }
+    });
+  } else if (args.listId) {
+    cards = (await client.getListCards(args.listId)).data;
+  } else {
+    cards = (await client.getBoardCards(args.boardId!)).data;
+  }
+
+  const selected = cards
+    .filter(card => !args.labelId || cardLabels(card).includes(args.labelId))
+    .filter(card => !args.memberId || cardMembers(card).includes(args.memberId))
+    .filter(card => !args.dueFilter || matchesDueFilter(card, args.dueFilter));
+
+  if (selected.length > MAX_BULK_CARDS) {
+    throw new Error(`the selection matches ${selected.length} cards; narrow it down to at most ${MAX_BULK_CARDS} with labelId, memberId or dueFilter`);
+  }
+  return { cards: selected, unreadable };
+}
+
+/**
+ * The fields the operation would set on a card, or null when the card
+ * already looks that way. `destination` is the target list of a move.
+ */
+function changesFor(card: TrelloCard, args: BulkUpdateArgs, destination?: TrelloList): UpdateCardRequest | null {
+  const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+  switch (args.operation) {
+    case 'move':
+      return card.idList === args.idList && args.pos === undefined
+        ? null
+        : {
+            idList: args.idList,
+            ...(destination && destination.idBoard !== card.idBoard && { idBoard: destination.idBoard }),
+            ...(args.pos !== undefined && { pos: args.pos })
+          };
+    case 'set_labels':
+      return sameSet(cardLabels(card), args.idLabels!) ? null : { idLabels: args.idLabels };
+    case 'add_members': {
+      const members = [...new Set([...cardMembers(card), ...args.idMembers!])];
+      return sameSet(cardMembers(card), members) ? null : { idMembers: members };
+    }
+    case 'remove_members': {
+      const members = cardMembers(card).filter(id => !args.idMembers!.includes(id));
+      return sameSet(cardMembers(card), members) ? null : { idMembers: members };
+    }
+    case 'set_due': {
+      const changes = {
+        ...(args.due !== undefined && args.due !== card.due && { due: args.due }),
+        ...(args.dueComplete !== undefined && args.dueComplete !== card.dueComplete && { dueComplete: args.dueComplete })
+      };
+      return Object.keys(changes).length > 0 ? changes : null;
+    }
+    case 'archive':
+      return card.closed ? null : { closed: true };
+  }
+}
+
+function applyChanges(client: TrelloClient, card: TrelloCard, operation: BulkUpdateArgs['operation'], changes: UpdateCardRequest) {
+  switch (operation) {
+    case 'move':
+      return client.moveCard(card.id, {
+        idList: changes.idList!,
+        ...(changes.idBoard !== undefined && { idBoard: changes.idBoard }),
+        ...(changes.pos !== undefined && { pos: changes.pos })
+      });
+    case 'archive':
+      return client.archiveCard(card.id);
+    default:
+      return client.updateCard(card.id, changes);
+  }
+}
+
+async function loadBulkUpdate(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const bulkArgs = bulkUpdateCardsSchema.parse(params);
+  const client = new TrelloClient(credentials);
+  // Cards moving to a list on another board need that board as well
+  const destination = bulkArgs.operation === 'move' ? (await client.getList(bulkArgs.idList!)).data : undefined;
+  return { client, bulkArgs, destination, selection: await selectCards(client, bulkArgs) };
+}
+
+const bulkResultField = objectField({
+  cardId: stringField,
+  name: stringField,
+  status: { type: 'string', enum: ['updated', 'unchanged', 'failed'] },
+  error: stringField
+}, ['cardId', 'status']);
+
+export const trelloBulkUpdateCardsTool: Tool = {
+  name: 'trello_bulk_update_cards',
+  description: 'Apply one change to many cards at once: move them, set their labels, add or remove members, set the due date, or archive them. Select the cards by ID, by list, or by board, optionally filtered by label, member or due date. Reports the outcome for each card instead of stopping at the first failure.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cardIds: {
+        type: 'array',
+        items: { type: 'string', pattern: '^[a-f0-9]{24}$' },
+        maxItems: MAX_BULK_CARDS,
+        description: 'Select these cards'
+      },
+      listId: {
+        type: 'string',
+        description: 'Select the open cards in this list',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      boardId: {
+        type: 'string',
+        description: 'Select the open cards on this board',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      labelId: {
+        type: 'string',
+        description: 'Optional filter: only cards with this label',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      memberId: {
+        type: 'string',
+        description: 'Optional filter: only cards assigned to this member ID',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      dueFilter: {
+        type: 'string',
+        enum: ['overdue', 'has_due', 'no_due', 'complete', 'incomplete'],
+        description: 'Optional filter on the due date: "overdue" for past due and not complete, "complete"/"incomplete" for cards with a due date'
+      },
+      operation: {
+        type: 'string',
+        enum: ['move', 'set_labels', 'add_members', 'remove_members', 'set_due', 'archive'],
+        description: 'Change to apply to every selected card'
+      },
+      idList: {
+        type: 'string',
+        description: 'For "move": the destination list',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      pos: {
+        oneOf: [
+          { type: 'number', minimum: 0 },
+          { type: 'string', enum: ['top', 'bottom'] }
+        ],
+        description: 'For "move": position in the destination list'
+      },
+      idLabels: {
+        type: 'array',
+        items: { type: 'string', pattern: '^[a-f0-9]{24}$' },
+        description: 'For "set_labels": the labels each card should have (an empty array removes all labels)'
+      },
+      idMembers: {
+        type: 'array',
+        items: { type: 'string', pattern: '^[a-f0-9]{24}$' },
+        description: 'For "add_members" and "remove_members": member IDs to add or remove'
+      },
+      due: {
+        type: ['string', 'null'],
+        format: 'date-time',
+        description: 'For "set_due": due date (ISO 8601 format) or null to remove it'
+      },
+      dueComplete: {
+        type: 'boolean',
+        description: 'For "set_due": mark the due date complete or incomplete'
+      },
+      concurrency: {
+        type: 'number',
+        minimum: 1,
+        maximum: 10,
+        description: 'How many cards to update at the same time',
+        default: DEFAULT_CONCURRENCY
+      }
+    },
+    required: ['operation']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({
+    operation: stringField,
+    selected: numberField,
+    updated: numberField,
+    unchanged: numberField,
+    failed: numberField,
+    results: arrayField(bulkResultField)
+  }, ['operation', 'selected', 'updated', 'unchanged', 'failed', 'results'])
+};
+
+export async function handleTrelloBulkUpdateCards(args: unknown) {
+  try {
+    const { client, bulkArgs, destination, selection } = await loadBulkUpdate(args);
+
+    const settled = await mapSettled(selection.cards, bulkArgs.concurrency ?? DEFAULT_CONCURRENCY, async (card): Promise<BulkCardResult> => {
+      const changes = changesFor(card, bulkArgs, destination);
+      if (!changes) {
+        return { cardId: card.id, name: card.name, status: 'unchanged' };
+      }
+      await applyChanges(client, card, bulkArgs.operation, changes);
+      return { cardId: card.id, name: card.name, status: 'updated' };
+    });
+
+    const results: BulkCardResult[] = [
+      ...settled.map((outcome, index): BulkCardResult => outcome.status === 'fulfilled'
+        ? outcome.value
+        : { cardId: selection.cards[index].id, name: selection.cards[index].name, status: 'failed', error: errorText(outcome.reason) }),
+      ...selection.unreadable
+    ];
+    const count = (status: BulkCardResult['status']) => results.filter(result => result.status === status).length;
+
+    const result = {
+      summary: `Bulk ${bulkArgs.operation} on ${results.length} card(s): ${count('updated')} updated, ${count('unchanged')} unchanged, ${count('failed')} failed`,
+      operation: bulkArgs.operation,
+      selected: results.length,
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      failed: count('failed'),
+      results
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : errorText(error);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error updating cards: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewBulkUpdateCards(args: unknown) {
+  const { bulkArgs, destination, selection } = await loadBulkUpdate(args);
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+
+  for (const card of selection.cards) {
+    const changes = changesFor(card, bulkArgs, destination);
+    if (!changes) continue;
+    const current = pickFields(cardSnapshot(card), Object.keys(changes));
+    before[card.id] = current;
+    after[card.id] = { ...current, ...changes };
+  }
+
+  const unreadable = selection.unreadable.length > 0 ? `; ${selection.unreadable.length} card(s) could not be read` : '';
+  return dryRunResult(
+    `would ${bulkArgs.operation} ${Object.keys(after).length} of ${selection.cards.length} selected card(s)${unreadable}`,
+    before,
+    after
+  );
+}
+
+/**
+ * Describes the selected cards and pins them by ID, so the confirmed call
+ * updates the cards the user saw even if the board changes in between.
+ */
+export async function describeBulkUpdateCards(args: unknown): Promise<string | ChangeDescription> {
+  const { bulkArgs, selection } = await loadBulkUpdate(args);
+  const names = selection.cards.slice(0, 5).map(card => `"${card.name}"`).join(', ');
+  const more = selection.cards.length > 5 ? ` and ${selection.cards.length - 5} more` : '';
+  const summary = `Apply "${bulkArgs.operation}" to ${selection.cards.length} card(s)${names ? `: ${names}${more}` : ''}.`;
+
+  const cardIds = [...selection.cards.map(card => card.id), ...selection.unreadable.map(result => result.cardId)];
+  if (cardIds.length === 0) {
+    return summary;
+  }
+  const pinned = Object.entries(args as Record<string, unknown>).filter(([key]) => !SELECTION_ARGUMENTS.includes(key));
+  return { summary, args: { ...Object.fromEntries(pinned), cardIds } };
+}
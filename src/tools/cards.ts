@@ -6,9 +6,28 @@ import {
   validateUpdateCard, 
   validateMoveCard, 
   validateGetCard,
+  validateCardId,
+  validateConfirmDeleteCard,
   formatValidationError,
   extractCredentials
 } from '../utils/validation.js';
+import type { TrelloCard } from '../types/trello.js';
+import { outputSchema, toolResult, cardField } from './output.js';
+import { dryRunResult, pickFields } from './dryRun.js';
+
+// Card fields the write tools change, as they look before a dry-run change
+export const cardSnapshot = (card: TrelloCard): Record<string, unknown> => ({
+  name: card.name,
+  desc: card.desc,
+  idList: card.idList,
+  idBoard: card.idBoard,
+  pos: card.pos,
+  due: card.due,
+  dueComplete: card.dueComplete,
+  closed: card.closed,
+  idMembers: card.idMembers ?? card.members?.map(member => member.id) ?? [],
+  idLabels: card.idLabels ?? card.labels?.map(label => label.id) ?? []
+});
 
 export const createCardTool: Tool = {
   name: 'create_card',
@@ -59,7 +78,9 @@ export const createCardTool: Tool = {
       }
     },
     required: ['name', 'idList']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ card: cardField }, ['card'])
 };
 
 export async function handleCreateCard(args: unknown) {
@@ -96,14 +117,7 @@ export async function handleCreateCard(args: unknown) {
       rateLimit: response.rateLimit
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -123,9 +137,16 @@ export async function handleCreateCard(args: unknown) {
   }
 }
 
+export async function previewCreateCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const cardData = validateCreateCard(params);
+  const { data: list } = await new TrelloClient(credentials).getList(cardData.idList);
+  return dryRunResult(`would create card "${cardData.name}" in list "${list.name}"`, null, { ...cardData, idBoard: list.idBoard });
+}
+
 export const updateCardTool: Tool = {
   name: 'update_card',
-  description: 'Update properties of an existing Trello card. Use this to change card details like name, description, due date, or status.',
+  description: 'Update properties of an existing Trello card. Use this to change card details like name, description or due date. To archive or move a card, use trello_archive_card or move_card.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -142,10 +163,6 @@ export const updateCardTool: Tool = {
         type: 'string',
         description: 'New description for the card'
       },
-      closed: {
-        type: 'boolean',
-        description: 'Set to true to archive the card, false to unarchive'
-      },
       due: {
         type: ['string', 'null'],
         format: 'date-time',
@@ -155,11 +172,6 @@ export const updateCardTool: Tool = {
         type: 'boolean',
         description: 'Mark the due date as complete (true) or incomplete (false)'
       },
-      idList: {
-        type: 'string',
-        description: 'Move card to a different list by providing the list ID',
-        pattern: '^[a-f0-9]{24}$'
-      },
       pos: {
         oneOf: [
           { type: 'number', minimum: 0 },
@@ -169,7 +181,9 @@ export const updateCardTool: Tool = {
       }
     },
     required: ['cardId']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ card: cardField }, ['card'])
 };
 
 export async function handleUpdateCard(args: unknown) {
@@ -202,14 +216,7 @@ export async function handleUpdateCard(args: unknown) {
       rateLimit: response.rateLimit
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -229,6 +236,14 @@ export async function handleUpdateCard(args: unknown) {
   }
 }
 
+export async function previewUpdateCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId, ...updates } = validateUpdateCard(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(cardId);
+  const before = pickFields(cardSnapshot(card), Object.keys(updates));
+  return dryRunResult(`would update card "${card.name}"`, before, { ...before, ...updates });
+}
+
 export const moveCardTool: Tool = {
   name: 'move_card',
   description: 'Move a card to a different list. Use this to change a card\'s workflow status (e.g., from "To Do" to "In Progress").',
@@ -254,7 +269,9 @@ export const moveCardTool: Tool = {
       }
     },
     required: ['cardId', 'idList']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ card: cardField }, ['card'])
 };
 
 export async function handleMoveCard(args: unknown) {
@@ -278,14 +295,7 @@ export async function handleMoveCard(args: unknown) {
       rateLimit: response.rateLimit
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -305,6 +315,19 @@ export async function handleMoveCard(args: unknown) {
   }
 }
 
+export async function previewMoveCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId, idList, pos } = validateMoveCard(params);
+  const client = new TrelloClient(credentials);
+  const { data: card } = await client.getCard(cardId);
+  const [{ data: from }, { data: to }] = await Promise.all([client.getList(card.idList), client.getList(idList)]);
+  return dryRunResult(
+    `would move card "${card.name}" from list "${from.name}" to list "${to.name}"`,
+    { list: from.name, idList: card.idList, idBoard: card.idBoard, pos: card.pos },
+    { list: to.name, idList: to.id, idBoard: to.idBoard, pos: pos ?? card.pos }
+  );
+}
+
 export const getCardTool: Tool = {
   name: 'get_card',
   description: 'Get detailed information about a specific Trello card, including its content, status, members, and attachments.',
@@ -323,7 +346,9 @@ export const getCardTool: Tool = {
       }
     },
     required: ['cardId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ card: cardField }, ['card'])
 };
 
 export async function handleGetCard(args: unknown) {
@@ -380,17 +405,143 @@ export async function handleGetCard(args: unknown) {
           } : undefined
         })
       },
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
+    };
+    
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error getting card: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export const archiveCardTool: Tool = {
+  name: 'trello_archive_card',
+  description: 'Archive (close) a Trello card. Archived cards are hidden from the board but can be restored later with trello_restore_card.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cardId: {
+        type: 'string',
+        description: 'ID of the card to archive (you can get this from board details or card searches)',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['cardId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ card: cardField }, ['card'])
+};
+
+export async function handleArchiveCard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { cardId } = validateCardId(params);
+    const client = new TrelloClient(credentials);
+    const response = await client.archiveCard(cardId);
+    const card = response.data;
+    
+    const result = {
+      summary: `Archived card: ${card.name}`,
+      card: {
+        id: card.id,
+        name: card.name,
+        url: card.shortUrl,
+        listId: card.idList,
+        boardId: card.idBoard,
+        closed: card.closed
+      },
       rateLimit: response.rateLimit
     };
     
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
     return {
       content: [
         {
           type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
+          text: `Error archiving card: ${errorMessage}`
         }
-      ]
+      ],
+      isError: true
     };
+  }
+}
+
+export async function previewArchiveCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId } = validateCardId(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(cardId);
+  return dryRunResult(`would archive card "${card.name}"`, { closed: card.closed }, { closed: true });
+}
+
+export async function describeArchiveCard(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId } = validateCardId(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(cardId);
+  return `Archive card "${card.name}" (${card.shortUrl}). It will be hidden from its board until it is restored.`;
+}
+
+export const restoreCardTool: Tool = {
+  name: 'trello_restore_card',
+  description: 'Restore (unarchive) a previously archived Trello card so it shows up on its board again.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cardId: {
+        type: 'string',
+        description: 'ID of the archived card to restore',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['cardId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ card: cardField }, ['card'])
+};
+
+export async function handleRestoreCard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { cardId } = validateCardId(params);
+    const client = new TrelloClient(credentials);
+    const response = await client.restoreCard(cardId);
+    const card = response.data;
+    
+    const result = {
+      summary: `Restored card: ${card.name}`,
+      card: {
+        id: card.id,
+        name: card.name,
+        url: card.shortUrl,
+        listId: card.idList,
+        boardId: card.idBoard,
+        closed: card.closed
+      },
+      rateLimit: response.rateLimit
+    };
+    
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -402,10 +553,94 @@ export async function handleGetCard(args: unknown) {
       content: [
         {
           type: 'text' as const,
-          text: `Error getting card: ${errorMessage}`
+          text: `Error restoring card: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewRestoreCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId } = validateCardId(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(cardId);
+  return dryRunResult(`would restore card "${card.name}"`, { closed: card.closed }, { closed: false });
+}
+
+export const deleteCardTool: Tool = {
+  name: 'trello_delete_card',
+  description: 'Permanently delete a Trello card. This cannot be undone; prefer trello_archive_card unless the user explicitly asks to delete.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cardId: {
+        type: 'string',
+        description: 'ID of the card to delete permanently',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      confirm: {
+        type: 'boolean',
+        const: true,
+        description: 'Must be set to true to confirm the permanent deletion'
+      }
+    },
+    required: ['cardId', 'confirm']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ card: cardField }, ['card'])
+};
+
+export async function handleDeleteCard(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { cardId } = validateConfirmDeleteCard(params);
+    const client = new TrelloClient(credentials);
+    const cardResponse = await client.getCard(cardId);
+    const card = cardResponse.data;
+    const response = await client.deleteCard(cardId);
+    
+    const result = {
+      summary: `Permanently deleted card: ${card.name}`,
+      card: {
+        id: card.id,
+        name: card.name,
+        listId: card.idList,
+        boardId: card.idBoard
+      },
+      rateLimit: response.rateLimit
+    };
+    
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error deleting card: ${errorMessage}`
         }
       ],
       isError: true
     };
   }
 }
+
+export async function previewDeleteCard(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId } = validateCardId(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(cardId);
+  return dryRunResult(`would permanently delete card "${card.name}"`, cardSnapshot(card), null);
+}
+
+export async function describeDeleteCard(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId } = validateCardId(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(cardId);
+  return `Permanently delete card "${card.name}" (${card.shortUrl}) with its comments, checklists and attachments. This cannot be undone.`;
+}
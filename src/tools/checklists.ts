@@ -0,0 +1,566 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TrelloClient } from '../trello/client.js';
+import type { TrelloChecklist, TrelloCheckItem } from '../types/trello.js';
+import { formatValidationError, extractCredentials } from '../utils/validation.js';
+import { outputSchema, toolResult, stringField, checklistField, checkItemField } from './output.js';
+import { dryRunResult, pickFields } from './dryRun.js';
+
+const positionSchema = z.union([z.number().min(0), z.enum(['top', 'bottom'])]);
+
+export const createChecklistSchema = z.object({
+  cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
+  name: z.string().min(1, 'Checklist name is required').max(16384, 'Checklist name too long'),
+  pos: positionSchema.optional()
+});
+
+export const updateChecklistSchema = z.object({
+  checklistId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid checklist ID format'),
+  name: z.string().min(1).max(16384).optional(),
+  pos: positionSchema.optional()
+}).refine(data => data.name !== undefined || data.pos !== undefined, {
+  message: 'At least one of name or pos must be provided',
+  path: ['name']
+});
+
+export const deleteChecklistSchema = z.object({
+  checklistId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid checklist ID format')
+});
+
+export const addCheckItemSchema = z.object({
+  checklistId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid checklist ID format'),
+  name: z.string().min(1, 'Item name is required').max(16384, 'Item name too long'),
+  pos: positionSchema.optional(),
+  checked: z.boolean().optional(),
+  due: z.string().datetime().optional(),
+  idMember: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid member ID format').optional()
+});
+
+export const updateCheckItemSchema = z.object({
+  cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
+  checkItemId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid check item ID format'),
+  name: z.string().min(1).max(16384).optional(),
+  state: z.enum(['complete', 'incomplete']).optional(),
+  pos: positionSchema.optional(),
+  due: z.string().datetime().nullable().optional(),
+  idMember: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid member ID format').nullable().optional()
+}).refine(({ cardId: _cardId, checkItemId: _checkItemId, ...updates }) => Object.values(updates).some(value => value !== undefined), {
+  message: 'At least one of name, state, pos, due or idMember must be provided',
+  path: ['name']
+});
+
+export const deleteCheckItemSchema = z.object({
+  checklistId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid checklist ID format'),
+  checkItemId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid check item ID format')
+});
+
+const validateCreateChecklist = (args: unknown) => createChecklistSchema.parse(args);
+
+const validateUpdateChecklist = (args: unknown) => updateChecklistSchema.parse(args);
+
+const validateDeleteChecklist = (args: unknown) => deleteChecklistSchema.parse(args);
+
+const validateAddCheckItem = (args: unknown) => addCheckItemSchema.parse(args);
+
+const validateUpdateCheckItem = (args: unknown) => updateCheckItemSchema.parse(args);
+
+const validateDeleteCheckItem = (args: unknown) => deleteCheckItemSchema.parse(args);
+
+const formatCheckItem = (item: TrelloCheckItem) => ({
+  id: item.id,
+  name: item.name,
+  state: item.state,
+  position: item.pos,
+  due: item.due,
+  memberId: item.idMember
+});
+
+const formatChecklist = (checklist: TrelloChecklist) => ({
+  id: checklist.id,
+  name: checklist.name,
+  cardId: checklist.idCard,
+  position: checklist.pos,
+  checkItems: checklist.checkItems?.map(formatCheckItem) || []
+});
+
+const positionProperty = {
+  oneOf: [
+    { type: 'number', minimum: 0 },
+    { type: 'string', enum: ['top', 'bottom'] }
+  ]
+};
+
+export const trelloCreateChecklistTool: Tool = {
+  name: 'trello_create_checklist',
+  description: 'Create a new, empty checklist on a Trello card. Add items to it afterwards with trello_add_checklist_item.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cardId: {
+        type: 'string',
+        description: 'ID of the card to add the checklist to',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      name: {
+        type: 'string',
+        description: 'Name of the checklist (e.g., "Acceptance criteria")',
+        minLength: 1
+      },
+      pos: {
+        ...positionProperty,
+        description: 'Position of the checklist on the card: "top", "bottom", or specific number'
+      }
+    },
+    required: ['cardId', 'name']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ checklist: checklistField }, ['checklist'])
+};
+
+export async function handleTrelloCreateChecklist(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { cardId, name, pos } = validateCreateChecklist(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.createChecklist({
+      idCard: cardId,
+      name,
+      ...(pos !== undefined && { pos })
+    });
+    const checklist = response.data;
+
+    const result = {
+      summary: `Created checklist "${checklist.name}" on card ${cardId}`,
+      checklist: formatChecklist(checklist),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error occurred';
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error creating checklist: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewCreateChecklist(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const checklistData = validateCreateChecklist(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(checklistData.cardId);
+  return dryRunResult(`would add checklist "${checklistData.name}" to card "${card.name}"`, null, checklistData);
+}
+
+export const trelloUpdateChecklistTool: Tool = {
+  name: 'trello_update_checklist',
+  description: 'Rename a checklist or change its position on the card.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      checklistId: {
+        type: 'string',
+        description: 'ID of the checklist to update (you can get this from trello_get_card_checklists)',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      name: {
+        type: 'string',
+        description: 'New name for the checklist',
+        minLength: 1
+      },
+      pos: {
+        ...positionProperty,
+        description: 'New position of the checklist on the card: "top", "bottom", or specific number'
+      }
+    },
+    required: ['checklistId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ checklist: checklistField }, ['checklist'])
+};
+
+export async function handleTrelloUpdateChecklist(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { checklistId, name, pos } = validateUpdateChecklist(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.updateChecklist(checklistId, {
+      ...(name !== undefined && { name }),
+      ...(pos !== undefined && { pos })
+    });
+    const checklist = response.data;
+
+    const result = {
+      summary: `Updated checklist "${checklist.name}"`,
+      checklist: formatChecklist(checklist),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error occurred';
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error updating checklist: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewUpdateChecklist(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { checklistId, ...updates } = validateUpdateChecklist(params);
+  const { data: checklist } = await new TrelloClient(credentials).getChecklist(checklistId);
+  const before = pickFields({ name: checklist.name, pos: checklist.pos }, Object.keys(updates));
+  return dryRunResult(`would update checklist "${checklist.name}"`, before, { ...before, ...updates });
+}
+
+export const trelloDeleteChecklistTool: Tool = {
+  name: 'trello_delete_checklist',
+  description: 'Delete a checklist and all of its items from a Trello card.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      checklistId: {
+        type: 'string',
+        description: 'ID of the checklist to delete',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['checklistId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ checklistId: stringField }, ['checklistId'])
+};
+
+export async function handleTrelloDeleteChecklist(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { checklistId } = validateDeleteChecklist(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.deleteChecklist(checklistId);
+
+    const result = {
+      summary: `Deleted checklist ${checklistId}`,
+      checklistId,
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error occurred';
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error deleting checklist: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewDeleteChecklist(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { checklistId } = validateDeleteChecklist(params);
+  const { data: checklist } = await new TrelloClient(credentials).getChecklist(checklistId);
+  return dryRunResult(`would delete checklist "${checklist.name}"`, {
+    name: checklist.name,
+    cardId: checklist.idCard,
+    checkItems: checklist.checkItems?.map(item => item.name) ?? []
+  }, null);
+}
+
+export async function describeDeleteChecklist(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { checklistId } = validateDeleteChecklist(params);
+  const { data: checklist } = await new TrelloClient(credentials).getChecklist(checklistId);
+  const items = checklist.checkItems ?? [];
+  const complete = items.filter(item => item.state === 'complete').length;
+  return `Delete checklist "${checklist.name}" and its ${items.length} item(s) (${complete} complete).`;
+}
+
+export const trelloAddChecklistItemTool: Tool = {
+  name: 'trello_add_checklist_item',
+  description: 'Add an item to an existing checklist, optionally with a due date and an assigned member.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      checklistId: {
+        type: 'string',
+        description: 'ID of the checklist to add the item to',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      name: {
+        type: 'string',
+        description: 'Text of the checklist item',
+        minLength: 1
+      },
+      pos: {
+        ...positionProperty,
+        description: 'Position of the item in the checklist: "top", "bottom", or specific number'
+      },
+      checked: {
+        type: 'boolean',
+        description: 'Create the item already marked as complete',
+        default: false
+      },
+      due: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Optional due date for the item (ISO 8601 format)'
+      },
+      idMember: {
+        type: 'string',
+        description: 'Optional ID of the member responsible for the item',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['checklistId', 'name']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ checklistId: stringField, checkItem: checkItemField }, ['checklistId', 'checkItem'])
+};
+
+export async function handleTrelloAddChecklistItem(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { checklistId, ...itemData } = validateAddCheckItem(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.addCheckItem(checklistId, itemData);
+    const item = response.data;
+
+    const result = {
+      summary: `Added item "${item.name}" to checklist ${checklistId}`,
+      checklistId,
+      checkItem: formatCheckItem(item),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error occurred';
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error adding checklist item: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewAddChecklistItem(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { checklistId, ...itemData } = validateAddCheckItem(params);
+  const { data: checklist } = await new TrelloClient(credentials).getChecklist(checklistId);
+  return dryRunResult(`would add item "${itemData.name}" to checklist "${checklist.name}"`, null, { ...itemData, checklistId });
+}
+
+export const trelloUpdateChecklistItemTool: Tool = {
+  name: 'trello_update_checklist_item',
+  description: 'Update a checklist item: tick it off or reopen it, rename it, reorder it, or change its due date or assigned member.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cardId: {
+        type: 'string',
+        description: 'ID of the card the checklist belongs to',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      checkItemId: {
+        type: 'string',
+        description: 'ID of the checklist item to update (you can get this from trello_get_card_checklists)',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      name: {
+        type: 'string',
+        description: 'New text for the item',
+        minLength: 1
+      },
+      state: {
+        type: 'string',
+        enum: ['complete', 'incomplete'],
+        description: 'Mark the item as "complete" or "incomplete"'
+      },
+      pos: {
+        ...positionProperty,
+        description: 'New position of the item in the checklist: "top", "bottom", or specific number'
+      },
+      due: {
+        type: ['string', 'null'],
+        format: 'date-time',
+        description: 'Set the item due date (ISO 8601 format) or null to remove it'
+      },
+      idMember: {
+        type: ['string', 'null'],
+        description: 'ID of the member responsible for the item, or null to unassign',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['cardId', 'checkItemId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ cardId: stringField, checkItem: checkItemField }, ['cardId', 'checkItem'])
+};
+
+export async function handleTrelloUpdateChecklistItem(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { cardId, checkItemId, ...updates } = validateUpdateCheckItem(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.updateCheckItem(cardId, checkItemId, updates);
+    const item = response.data;
+
+    const result = {
+      summary: `Updated checklist item "${item.name}"`,
+      cardId,
+      checkItem: formatCheckItem(item),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error occurred';
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error updating checklist item: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewUpdateChecklistItem(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId, checkItemId, ...updates } = validateUpdateCheckItem(params);
+  const { data: checklists } = await new TrelloClient(credentials).getCardChecklists(cardId);
+  const item = checklists.flatMap(checklist => checklist.checkItems ?? []).find(candidate => candidate.id === checkItemId);
+  if (!item) {
+    throw new Error(`Checklist item ${checkItemId} is not on card ${cardId}`);
+  }
+  const before = pickFields({ ...item }, Object.keys(updates));
+  return dryRunResult(`would update checklist item "${item.name}"`, before, { ...before, ...updates });
+}
+
+export const trelloDeleteChecklistItemTool: Tool = {
+  name: 'trello_delete_checklist_item',
+  description: 'Delete a single item from a checklist.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      checklistId: {
+        type: 'string',
+        description: 'ID of the checklist containing the item',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      checkItemId: {
+        type: 'string',
+        description: 'ID of the checklist item to delete',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['checklistId', 'checkItemId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ checklistId: stringField, checkItemId: stringField }, ['checklistId', 'checkItemId'])
+};
+
+export async function handleTrelloDeleteChecklistItem(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { checklistId, checkItemId } = validateDeleteCheckItem(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.deleteCheckItem(checklistId, checkItemId);
+
+    const result = {
+      summary: `Deleted item ${checkItemId} from checklist ${checklistId}`,
+      checklistId,
+      checkItemId,
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError
+      ? formatValidationError(error)
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error occurred';
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error deleting checklist item: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewDeleteChecklistItem(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { checklistId, checkItemId } = validateDeleteCheckItem(params);
+  const { data: checklist } = await new TrelloClient(credentials).getChecklist(checklistId);
+  const item = checklist.checkItems?.find(candidate => candidate.id === checkItemId);
+  if (!item) {
+    throw new Error(`Checklist item ${checkItemId} is not on checklist "${checklist.name}"`);
+  }
+  return dryRunResult(`would delete item "${item.name}" from checklist "${checklist.name}"`, pickFields({ ...item }, ['name', 'state', 'due', 'idMember']), null);
+}
+
+export async function describeDeleteChecklistItem(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { checklistId, checkItemId } = validateDeleteCheckItem(params);
+  const { data: checklist } = await new TrelloClient(credentials).getChecklist(checklistId);
+  const item = checklist.checkItems?.find(candidate => candidate.id === checkItemId);
+  return `Delete item ${item ? `"${item.name}"` : checkItemId} from checklist "${checklist.name}".`;
+}
@@ -0,0 +1,142 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Asks the user to approve a change described by `message`. Resolves true only
+ * when they confirmed it.
+ */
+export type Confirmer = (message: string) => Promise<boolean>;
+
+// Describes what a destructive tool call is about to change, e.g.
+// 'Archive card "Fix login" (https://trello.com/c/AbCd1234).'
+// Tools that pick their targets at run time (bulk updates) also return the
+// arguments with those targets pinned, so the confirmed call changes exactly
+// what the user approved.
+export type ChangeDescriber = (args: unknown) => Promise<string | ChangeDescription>;
+
+export interface ChangeDescription {
+  summary: string;
+  args: Record<string, unknown>;
+}
+
+type ConfirmationOutcome =
+  | { proceed: true; args: unknown }
+  | { proceed: false; result: { content: Array<{ type: 'text'; text: string }>; isError: true } };
+
+const CONFIRMATION_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    confirm: {
+      type: 'boolean' as const,
+      title: 'Apply this change',
+      default: false
+    }
+  },
+  required: ['confirm']
+};
+
+// Argument names that must never appear in a confirmation message
+const HIDDEN_ARGUMENTS = new Set(['apiKey', 'token', 'account', 'confirm']);
+const SECRET_ARGUMENTS = new Set(['apiKey', 'token', 'confirm']);
+
+/**
+ * Tools annotated as destructive (archive, delete, remove) only run once the
+ * user has confirmed them.
+ */
+export function requiresConfirmation(tool: Tool): boolean {
+  return tool.annotations?.destructiveHint === true;
+}
+
+/**
+ * Adds the `confirm` argument that clients without elicitation use to pass
+ * the user's approval.
+ */
+export function withConfirmation(tool: Tool): Tool {
+  if (!requiresConfirmation(tool) || tool.inputSchema.properties?.confirm) {
+    return tool;
+  }
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        confirm: {
+          type: 'boolean',
+          description: 'Set to true once the user has approved this change. Only used when the client cannot ask the user itself.'
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Asks through MCP elicitation. Declining, cancelling or leaving the box
+ * unticked all count as "no".
+ */
+export function elicitationConfirmer(server: Server): Confirmer {
+  return async message => {
+    const result = await server.elicitInput({ message, requestedSchema: CONFIRMATION_SCHEMA });
+    return result.action === 'accept' && result.content?.confirm === true;
+  };
+}
+
+function refusal(text: string): ConfirmationOutcome {
+  return { proceed: false, result: { content: [{ type: 'text', text }], isError: true } };
+}
+
+function withoutArguments(args: Record<string, unknown>, hidden: Set<string>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).filter(([key]) => !hidden.has(key)));
+}
+
+async function describeChange(tool: Tool, args: Record<string, unknown>, describe?: ChangeDescriber): Promise<ChangeDescription> {
+  try {
+    if (describe) {
+      const description = await describe(args);
+      return typeof description === 'string' ? { summary: description, args } : description;
+    }
+  } catch {
+    // Fall back to the arguments; the tool itself reports lookup failures
+  }
+  return { summary: `Run ${tool.name} with ${JSON.stringify(withoutArguments(args, HIDDEN_ARGUMENTS))}.`, args };
+}
+
+/**
+ * Gate for destructive tool calls. With a confirmer the user is always asked,
+ * whatever the arguments say; without one the call needs `confirm: true`.
+ * Confirmed calls continue with `confirm: true` set and with any targets the
+ * describer pinned.
+ */
+export async function confirmToolCall(
+  tool: Tool,
+  args: unknown,
+  describe?: ChangeDescriber,
+  confirm?: Confirmer
+): Promise<ConfirmationOutcome> {
+  const params = args !== null && typeof args === 'object' ? args as Record<string, unknown> : {};
+
+  if (!confirm) {
+    if (params.confirm === true) {
+      return { proceed: true, args };
+    }
+    const { summary, args: described } = await describeChange(tool, params, describe);
+    const retry = described === params
+      ? '"confirm": true'
+      : `"confirm": true and these arguments: ${JSON.stringify(withoutArguments(described, SECRET_ARGUMENTS))}`;
+    return refusal(`Error: ${tool.name} needs confirmation before it changes Trello data. ${summary} Ask the user to approve this change, then call ${tool.name} again with ${retry}.`);
+  }
+
+  const { summary, args: described } = await describeChange(tool, params, describe);
+  let confirmed: boolean;
+  try {
+    confirmed = await confirm(summary);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return refusal(`Error: could not ask the user to confirm ${tool.name} (${reason}). Nothing was changed.`);
+  }
+
+  return confirmed
+    ? { proceed: true, args: { ...described, confirm: true } }
+    : refusal(`Cancelled: the user did not confirm. ${summary} Nothing was changed.`);
+}
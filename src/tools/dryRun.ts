@@ -0,0 +1,87 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { arrayField, booleanField, objectField, stringField, toolResult } from './output.js';
+
+// The fields of an entity a write touches; null when it does not exist
+// (before a create, after a delete)
+export type Snapshot = Record<string, unknown> | null;
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const snapshotField = { type: ['object', 'null'] };
+
+const changeField = objectField({ field: stringField, before: {}, after: {} }, ['field']);
+
+export function isDryRun(args: unknown): boolean {
+  return args !== null && typeof args === 'object' && (args as Record<string, unknown>).dryRun === true;
+}
+
+/**
+ * The named fields of a snapshot, with missing ones as null so the diff
+ * shows them being set.
+ */
+export function pickFields(snapshot: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, snapshot[field] ?? null]));
+}
+
+export function diffSnapshots(before: Snapshot, after: Snapshot): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return [...fields]
+    .map(field => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+/**
+ * Result of a dry run: what the write would do, as before/after snapshots
+ * and the fields that differ. `summary` reads like "would create card ...".
+ */
+export function dryRunResult(summary: string, before: Snapshot, after: Snapshot) {
+  return toolResult({
+    summary: `Dry run: ${summary}. Nothing was changed.`,
+    dryRun: true,
+    before,
+    after,
+    changes: diffSnapshots(before, after)
+  });
+}
+
+/**
+ * Adds the `dryRun` argument to a write tool, and lets its outputSchema
+ * describe either the real result or a dry-run preview.
+ */
+export function withDryRun(tool: Tool): Tool {
+  const output = tool.outputSchema;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        dryRun: {
+          type: 'boolean',
+          description: 'Validate the input and return a before/after diff of what would change, without changing anything',
+          default: false
+        }
+      }
+    },
+    ...(output && {
+      outputSchema: {
+        ...output,
+        properties: {
+          ...output.properties,
+          dryRun: booleanField,
+          before: snapshotField,
+          after: snapshotField,
+          changes: arrayField(changeField)
+        },
+        required: ['summary'],
+        if: { properties: { dryRun: { const: true } }, required: ['dryRun'] },
+        then: { required: ['dryRun', 'before', 'after', 'changes'] },
+        else: { required: output.required ?? [] }
+      }
+    })
+  };
+}
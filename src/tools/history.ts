@@ -0,0 +1,340 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { TrelloClient } from '../trello/client.js';
+import { credentialScope } from '../trello/cache.js';
+import { journalFromEnv, currentJournalContext, runInJournalContext, type Journal, type JournalEntry } from '../trello/journal.js';
+import { formatValidationError, extractCredentials } from '../utils/validation.js';
+import type { UpdateCardRequest } from '../types/trello.js';
+import { outputSchema, toolResult, arrayField, objectField, stringField, nullableStringField, booleanField } from './output.js';
+import { dryRunResult, diffSnapshots, pickFields, type Snapshot } from './dryRun.js';
+
+export const historySchema = z.object({
+  limit: z.number().int().min(1).max(100).optional(),
+  entityId: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  includeStates: z.boolean().optional()
+});
+
+export const undoSchema = z.object({
+  entryId: z.string().min(1, 'Journal entry ID is required'),
+  force: z.boolean().optional()
+});
+
+const validateHistory = (args: unknown) => historySchema.parse(args);
+
+// Operations trello_undo knows how to revert
+const UNDOABLE_OPERATIONS = new Set([
+  'updateCard',
+  'moveCard',
+  'archiveCard',
+  'restoreCard',
+  'addLabelToCard',
+  'removeLabelFromCard',
+  'updateLabel'
+]);
+
+interface UndoPlan {
+  // Reads like "restore card "Fix login""
+  summary: string;
+  // The touched fields as they are now, and as the undo leaves them
+  before: Snapshot;
+  after: Snapshot;
+  apply: (client: TrelloClient) => Promise<unknown>;
+}
+
+function requireJournal(): Journal {
+  const journal = journalFromEnv();
+  if (!journal) {
+    throw new Error('the audit journal is off. Unset TRELLO_JOURNAL_FILE, or set it to a file, to record the changes made through this server.');
+  }
+  return journal;
+}
+
+function asSnapshot(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+// Entry ID of the undo that reverted each entry
+function undoneBy(entries: JournalEntry[]): Map<string, string> {
+  return new Map(entries.filter(entry => entry.undoOf && !entry.error).map(entry => [entry.undoOf as string, entry.id]));
+}
+
+function errorText(error: unknown): string {
+  return error instanceof z.ZodError
+    ? formatValidationError(error)
+    : (error as { message?: string })?.message ?? 'Unknown error occurred';
+}
+
+/**
+ * Works out how to revert a journal entry, checking first that the entity
+ * still looks the way the change left it unless `force` is set.
+ */
+async function planUndo(client: TrelloClient, journal: Journal, entry: JournalEntry, force = false): Promise<UndoPlan> {
+  if (entry.error) {
+    throw new Error(`entry ${entry.id} failed (${entry.error}), so there is nothing to undo`);
+  }
+  if (!UNDOABLE_OPERATIONS.has(entry.operation)) {
+    throw new Error(`${entry.operation} cannot be undone; trello_undo reverts card updates, moves, archives and label changes`);
+  }
+  const undoEntry = undoneBy(journal.entries()).get(entry.id);
+  if (undoEntry) {
+    throw new Error(`entry ${entry.id} was already undone by entry ${undoEntry}`);
+  }
+  if (entry.before === null || entry.before === undefined) {
+    throw new Error(`entry ${entry.id} has no recorded prior state to restore`);
+  }
+
+  const before = asSnapshot(entry.before);
+  const [entityId, change] = entry.args as [string, unknown];
+
+  const checkUnchanged = (name: string, current: Record<string, unknown>, changed: Record<string, unknown>) => {
+    const drifted = diffSnapshots(changed, current).map(fieldChange => fieldChange.field);
+    if (drifted.length > 0 && !force) {
+      throw new Error(`${name} has changed since entry ${entry.id} (${drifted.join(', ')}); pass "force": true to undo anyway`);
+    }
+  };
+
+  if (entry.operation === 'updateLabel') {
+    const fields = Object.keys(asSnapshot(change));
+    const { data: label } = await client.getLabel(entityId);
+    const current = pickFields(asSnapshot(label), fields);
+    checkUnchanged(`label "${label.name}"`, current, pickFields(asSnapshot(entry.result), fields));
+    const target = pickFields(before, fields);
+    return {
+      summary: `revert label "${label.name}" (${fields.join(', ')})`,
+      before: current,
+      after: target,
+      apply: client => client.updateLabel(entityId, Object.fromEntries(
+        Object.entries(target).map(([field, value]) => [field, value === null ? 'null' : String(value)])
+      ))
+    };
+  }
+
+  const { data: card } = await client.getCard(entityId);
+  const name = `card "${card.name}"`;
+
+  if (entry.operation === 'addLabelToCard' || entry.operation === 'removeLabelFromCard') {
+    const labelId = change as string;
+    const added = entry.operation === 'addLabelToCard';
+    const hadLabel = (before.idLabels as string[] | undefined ?? []).includes(labelId);
+    const current = card.idLabels ?? card.labels?.map(label => label.id) ?? [];
+    if (hadLabel === added) {
+      throw new Error(`label ${labelId} was already ${added ? 'on' : 'off'} ${name} before entry ${entry.id}, so there is nothing to undo`);
+    }
+    if (current.includes(labelId) !== added) {
+      throw new Error(`label ${labelId} is already ${added ? 'off' : 'on'} ${name}`);
+    }
+    return {
+      summary: `${added ? 'remove' : 'add back'} label ${labelId} ${added ? 'from' : 'on'} ${name}`,
+      before: { idLabels: current },
+      after: { idLabels: added ? current.filter(id => id !== labelId) : [...current, labelId] },
+      apply: client => added ? client.removeLabelFromCard(entityId, labelId) : client.addLabelToCard(entityId, labelId)
+    };
+  }
+
+  const fields = entry.operation === 'archiveCard' || entry.operation === 'restoreCard'
+    ? ['closed']
+    : Object.keys(asSnapshot(change));
+  // A move to another board has to go back to the original board as well
+  if (fields.includes('idList') && before.idBoard !== asSnapshot(entry.result).idBoard) {
+    fields.push('idBoard');
+  }
+
+  const current = pickFields(asSnapshot(card), fields);
+  checkUnchanged(name, current, pickFields(asSnapshot(entry.result), fields));
+  const target = pickFields(before, fields);
+
+  switch (entry.operation) {
+    case 'archiveCard':
+      return { summary: `restore ${name}`, before: current, after: target, apply: client => client.restoreCard(entityId) };
+    case 'restoreCard':
+      return { summary: `archive ${name} again`, before: current, after: target, apply: client => client.archiveCard(entityId) };
+    case 'moveCard':
+      return {
+        summary: `move ${name} back to list ${String(target.idList)}`,
+        before: current,
+        after: target,
+        apply: client => client.updateCard(entityId, target as UpdateCardRequest)
+      };
+    default:
+      return {
+        summary: `revert ${name} (${fields.join(', ')})`,
+        before: current,
+        after: target,
+        apply: client => client.updateCard(entityId, target as UpdateCardRequest)
+      };
+  }
+}
+
+const historyEntryField = objectField({
+  id: stringField,
+  time: stringField,
+  tool: nullableStringField,
+  operation: stringField,
+  entityType: stringField,
+  entityId: nullableStringField,
+  args: arrayField({}),
+  error: nullableStringField,
+  undoOf: nullableStringField,
+  undoneBy: nullableStringField,
+  undoable: booleanField,
+  before: {},
+  result: {}
+}, ['id', 'time', 'operation', 'entityType', 'undoable']);
+
+export const trelloHistoryTool: Tool = {
+  name: 'trello_history',
+  description: 'List recent changes made through this server with the same Trello credentials, newest first, from the local audit journal. Use the entry IDs with trello_undo to revert a change.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 100,
+        description: 'Maximum number of entries to return',
+        default: 20
+      },
+      entityId: {
+        type: 'string',
+        description: 'Optional: only changes to this card, list, label, checklist or check item ID'
+      },
+      tool: {
+        type: 'string',
+        description: 'Optional: only changes made by this tool, e.g. "update_card"'
+      },
+      includeStates: {
+        type: 'boolean',
+        description: 'Include the entity state recorded before each change and the result Trello returned',
+        default: false
+      }
+    }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  outputSchema: outputSchema({ journalFile: stringField, entries: arrayField(historyEntryField) }, ['journalFile', 'entries'])
+};
+
+export async function handleTrelloHistory(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { limit = 20, entityId, tool, includeStates = false } = validateHistory(params);
+    const journal = requireJournal();
+    const identity = credentialScope(credentials);
+    const entries = journal.entries().filter(entry => entry.identity === identity);
+    const undone = undoneBy(entries);
+
+    const matching = entries
+      .filter(entry => !entityId || entry.entity.id === entityId || entry.args[0] === entityId)
+      .filter(entry => !tool || entry.tool === tool)
+      .reverse()
+      .slice(0, limit);
+
+    const result = {
+      summary: `${matching.length} change(s) in the journal${entityId ? ` for ${entityId}` : ''}`,
+      journalFile: journal.file,
+      entries: matching.map(entry => ({
+        id: entry.id,
+        time: entry.time,
+        tool: entry.tool ?? null,
+        operation: entry.operation,
+        entityType: entry.entity.type,
+        entityId: entry.entity.id,
+        args: entry.args,
+        error: entry.error ?? null,
+        undoOf: entry.undoOf ?? null,
+        undoneBy: undone.get(entry.id) ?? null,
+        undoable: UNDOABLE_OPERATIONS.has(entry.operation) && !entry.error && entry.before !== null && !undone.has(entry.id),
+        ...(includeStates && { before: entry.before, result: entry.result ?? null })
+      }))
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error reading history: ${errorText(error)}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export const trelloUndoTool: Tool = {
+  name: 'trello_undo',
+  description: 'Revert a change recorded in the audit journal: card updates, moves, archives and restores, and label changes. Refuses when the entity changed again since, unless forced.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      entryId: {
+        type: 'string',
+        description: 'ID of the journal entry to revert (you can get this from trello_history)'
+      },
+      force: {
+        type: 'boolean',
+        description: 'Revert even if the entity was changed again after this entry',
+        default: false
+      }
+    },
+    required: ['entryId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({
+    entryId: stringField,
+    operation: stringField,
+    changes: arrayField(objectField({ field: stringField, before: {}, after: {} }, ['field']))
+  }, ['entryId', 'operation', 'changes'])
+};
+
+async function loadUndo(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { entryId, force } = undoSchema.parse(params);
+  const journal = requireJournal();
+  const found = journal.find(entryId);
+  // Entries made with other credentials are not this caller's to see or revert
+  const entry = found?.identity === credentialScope(credentials) ? found : undefined;
+  if (!entry) {
+    throw new Error(`no journal entry ${entryId} in ${journal.file}`);
+  }
+  const client = new TrelloClient(credentials);
+  return { client, entry, plan: await planUndo(client, journal, entry, force) };
+}
+
+export async function handleTrelloUndo(args: unknown) {
+  try {
+    const { client, entry, plan } = await loadUndo(args);
+    const context = currentJournalContext() ?? { tool: trelloUndoTool.name, args };
+    await runInJournalContext({ ...context, undoOf: entry.id }, () => plan.apply(client));
+
+    const result = {
+      summary: `Undid entry ${entry.id}: ${plan.summary}`,
+      entryId: entry.id,
+      operation: entry.operation,
+      changes: diffSnapshots(plan.before, plan.after)
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error undoing change: ${errorText(error)}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewUndo(args: unknown) {
+  const { entry, plan } = await loadUndo(args);
+  return dryRunResult(`would undo entry ${entry.id} and ${plan.summary}`, plan.before, plan.after);
+}
+
+export async function describeUndo(args: unknown): Promise<string> {
+  const { entry, plan } = await loadUndo(args);
+  return `Undo journal entry ${entry.id} (${entry.operation}): ${plan.summary}.`;
+}
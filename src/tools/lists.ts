@@ -2,35 +2,93 @@ import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TrelloClient } from '../trello/client.js';
 import { formatValidationError, extractCredentials } from '../utils/validation.js';
+import type { TrelloCard, TrelloList } from '../types/trello.js';
+import { outputSchema, toolResult, arrayField, objectField, stringField, numberField, listField, cardField, actionField } from './output.js';
+import { dryRunResult } from './dryRun.js';
 
-const validateGetListCards = (args: unknown) => {
-  const schema = z.object({
-    listId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format'),
-    filter: z.enum(['all', 'open', 'closed']).optional(),
-    fields: z.array(z.string()).optional()
-  });
-  
-  return schema.parse(args);
-};
+export const getListCardsSchema = z.object({
+  listId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format'),
+  filter: z.enum(['all', 'open', 'closed']).optional(),
+  fields: z.array(z.string()).optional()
+});
 
-const validateCreateList = (args: unknown) => {
-  const schema = z.object({
-    name: z.string().min(1, 'List name is required'),
-    idBoard: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format'),
-    pos: z.union([z.number().min(0), z.enum(['top', 'bottom'])]).optional()
-  });
-  
-  return schema.parse(args);
-};
+export const createListSchema = z.object({
+  name: z.string().min(1, 'List name is required'),
+  idBoard: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format'),
+  pos: z.union([z.number().min(0), z.enum(['top', 'bottom'])]).optional()
+});
 
-const validateAddComment = (args: unknown) => {
-  const schema = z.object({
-    cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
-    text: z.string().min(1, 'Comment text is required')
-  });
-  
-  return schema.parse(args);
-};
+export const addCommentSchema = z.object({
+  cardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid card ID format'),
+  text: z.string().min(1, 'Comment text is required')
+});
+
+export const moveAllCardsSchema = z.object({
+  listId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format'),
+  idList: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format')
+}).refine(args => args.listId !== args.idList, { message: 'Destination must be a different list', path: ['idList'] });
+
+export const archiveAllCardsSchema = z.object({
+  listId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format')
+});
+
+export const updateListSchema = z.object({
+  listId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format'),
+  name: z.string().min(1, 'List name cannot be empty').optional(),
+  pos: z.union([z.number().min(0), z.enum(['top', 'bottom'])]).optional(),
+  softLimit: z.number().int().min(1).max(5000).nullable().optional()
+}).refine(args => args.name !== undefined || args.pos !== undefined || args.softLimit !== undefined, {
+  message: 'Give at least one of name, pos or softLimit'
+});
+
+export const archiveListSchema = z.object({
+  listId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format')
+});
+
+export const moveListSchema = z.object({
+  listId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid list ID format'),
+  targetBoardId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format'),
+  pos: z.union([z.number().min(0), z.enum(['top', 'bottom'])]).optional()
+});
+
+const validateGetListCards = (args: unknown) => getListCardsSchema.parse(args);
+
+const validateCreateList = (args: unknown) => createListSchema.parse(args);
+
+const validateAddComment = (args: unknown) => addCommentSchema.parse(args);
+
+const validateUpdateList = (args: unknown) => updateListSchema.parse(args);
+
+const validateArchiveList = (args: unknown) => archiveListSchema.parse(args);
+
+const validateMoveList = (args: unknown) => moveListSchema.parse(args);
+
+const validateMoveAllCards = (args: unknown) => moveAllCardsSchema.parse(args);
+
+const validateArchiveAllCards = (args: unknown) => archiveAllCardsSchema.parse(args);
+
+const listSummary = (list: TrelloList) => ({
+  id: list.id,
+  name: list.name,
+  boardId: list.idBoard,
+  position: list.pos,
+  closed: list.closed,
+  softLimit: list.softLimit ?? null
+});
+
+const cardNames = (cards: TrelloCard[]) => cards.map(card => ({ id: card.id, name: card.name }));
+
+const cardNameField = objectField({ id: stringField, name: stringField }, ['id']);
+
+// Open cards of the source list, and the lists a move-all goes between
+async function loadMoveAllCards(client: TrelloClient, listId: string, idList: string) {
+  const [{ data: source }, { data: destination }, { data: cards }] = await Promise.all([
+    client.getList(listId),
+    client.getList(idList),
+    client.getListCards(listId)
+  ]);
+  return { source, destination, cards };
+}
 
 export const trelloGetListCardsTool: Tool = {
   name: 'trello_get_list_cards',
@@ -56,7 +114,9 @@ export const trelloGetListCardsTool: Tool = {
       }
     },
     required: ['listId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ listId: stringField, cards: arrayField(cardField) }, ['listId', 'cards'])
 };
 
 export async function handleTrelloGetListCards(args: unknown) {
@@ -97,17 +157,11 @@ export async function handleTrelloGetListCards(args: unknown) {
           username: member.username
         })) || []
       })),
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -153,7 +207,9 @@ export const trelloCreateListTool: Tool = {
       }
     },
     required: ['name', 'idBoard']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ list: listField }, ['list'])
 };
 
 export async function handleTrelloCreateList(args: unknown) {
@@ -181,14 +237,7 @@ export async function handleTrelloCreateList(args: unknown) {
       rateLimit: response.rateLimit
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -208,6 +257,13 @@ export async function handleTrelloCreateList(args: unknown) {
   }
 }
 
+export async function previewCreateList(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const listData = validateCreateList(params);
+  const { data: board } = await new TrelloClient(credentials).getBoard(listData.idBoard);
+  return dryRunResult(`would create list "${listData.name}" on board "${board.name}"`, null, listData);
+}
+
 export const trelloAddCommentTool: Tool = {
   name: 'trello_add_comment',
   description: 'Add a comment to a Trello card. Use this to add notes, updates, or discussions to cards.',
@@ -226,7 +282,9 @@ export const trelloAddCommentTool: Tool = {
       }
     },
     required: ['cardId', 'text']
-  }
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  outputSchema: outputSchema({ comment: actionField }, ['comment'])
 };
 
 export async function handleTrelloAddComment(args: unknown) {
@@ -260,14 +318,80 @@ export async function handleTrelloAddComment(args: unknown) {
       rateLimit: response.rateLimit
     };
     
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
     return {
       content: [
         {
           type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
+          text: `Error adding comment: ${errorMessage}`
         }
-      ]
+      ],
+      isError: true
     };
+  }
+}
+
+export async function previewAddComment(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { cardId, text } = validateAddComment(params);
+  const { data: card } = await new TrelloClient(credentials).getCard(cardId);
+  return dryRunResult(`would comment on card "${card.name}"`, null, { idCard: card.id, text });
+}
+
+export const trelloMoveAllCardsTool: Tool = {
+  name: 'trello_move_all_cards',
+  description: 'Move every open card from one list to another list, which may be on another board. Use this for end-of-sprint cleanup, e.g. moving everything in "Done" to an archive list.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      listId: {
+        type: 'string',
+        description: 'ID of the list to empty',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      idList: {
+        type: 'string',
+        description: 'ID of the list that receives the cards; its board is used as the destination board',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['listId', 'idList']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({
+    sourceList: listField,
+    destinationList: listField,
+    count: numberField,
+    cards: arrayField(cardNameField)
+  }, ['sourceList', 'destinationList', 'count', 'cards'])
+};
+
+export async function handleTrelloMoveAllCards(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { listId, idList } = validateMoveAllCards(params);
+    const client = new TrelloClient(credentials);
+    const { source, destination, cards } = await loadMoveAllCards(client, listId, idList);
+
+    const response = await client.moveAllCardsInList(listId, { idBoard: destination.idBoard, idList });
+
+    const result = {
+      summary: `Moved ${cards.length} card(s) from list "${source.name}" to list "${destination.name}"`,
+      sourceList: listSummary(source),
+      destinationList: listSummary(destination),
+      count: cards.length,
+      cards: cardNames(cards),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -279,10 +403,407 @@ export async function handleTrelloAddComment(args: unknown) {
       content: [
         {
           type: 'text' as const,
-          text: `Error adding comment: ${errorMessage}`
+          text: `Error moving cards: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewMoveAllCards(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { listId, idList } = validateMoveAllCards(params);
+  const { source, destination, cards } = await loadMoveAllCards(new TrelloClient(credentials), listId, idList);
+  const otherBoard = destination.idBoard !== source.idBoard;
+  const location = (list: TrelloList) => ({ idList: list.id, ...(otherBoard && { idBoard: list.idBoard }) });
+
+  return dryRunResult(
+    `would move ${cards.length} card(s) from list "${source.name}" to list "${destination.name}"${otherBoard ? ' on another board' : ''}`,
+    Object.fromEntries(cards.map(card => [card.id, location(source)])),
+    Object.fromEntries(cards.map(card => [card.id, location(destination)]))
+  );
+}
+
+export async function describeMoveAllCards(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { listId, idList } = validateMoveAllCards(params);
+  const { source, destination, cards } = await loadMoveAllCards(new TrelloClient(credentials), listId, idList);
+  const names = cards.slice(0, 5).map(card => `"${card.name}"`).join(', ');
+  const more = cards.length > 5 ? ` and ${cards.length - 5} more` : '';
+  const otherBoard = destination.idBoard !== source.idBoard ? ' on another board' : '';
+
+  return `Move all ${cards.length} card(s) in list "${source.name}" to list "${destination.name}"${otherBoard}${names ? `: ${names}${more}` : ''}.`;
+}
+
+export const trelloArchiveAllCardsTool: Tool = {
+  name: 'trello_archive_all_cards',
+  description: 'Archive every open card in a list. Archived cards can be restored later with trello_restore_card.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      listId: {
+        type: 'string',
+        description: 'ID of the list whose cards should be archived',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['listId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ list: listField, count: numberField, cards: arrayField(cardNameField) }, ['list', 'count', 'cards'])
+};
+
+export async function handleTrelloArchiveAllCards(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { listId } = validateArchiveAllCards(params);
+    const client = new TrelloClient(credentials);
+    const [{ data: list }, { data: cards }] = await Promise.all([client.getList(listId), client.getListCards(listId)]);
+
+    const response = await client.archiveAllCardsInList(listId);
+
+    const result = {
+      summary: `Archived ${cards.length} card(s) in list "${list.name}"`,
+      list: listSummary(list),
+      count: cards.length,
+      cards: cardNames(cards),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error archiving cards: ${errorMessage}`
         }
       ],
       isError: true
     };
   }
 }
+
+export async function previewArchiveAllCards(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { listId } = validateArchiveAllCards(params);
+  const client = new TrelloClient(credentials);
+  const [{ data: list }, { data: cards }] = await Promise.all([client.getList(listId), client.getListCards(listId)]);
+
+  return dryRunResult(
+    `would archive ${cards.length} card(s) in list "${list.name}"`,
+    Object.fromEntries(cards.map(card => [card.id, { closed: false }])),
+    Object.fromEntries(cards.map(card => [card.id, { closed: true }]))
+  );
+}
+
+export async function describeArchiveAllCards(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { listId } = validateArchiveAllCards(params);
+  const client = new TrelloClient(credentials);
+  const [{ data: list }, { data: cards }] = await Promise.all([client.getList(listId), client.getListCards(listId)]);
+  const names = cards.slice(0, 5).map(card => `"${card.name}"`).join(', ');
+  const more = cards.length > 5 ? ` and ${cards.length - 5} more` : '';
+
+  return `Archive all ${cards.length} card(s) in list "${list.name}"${names ? `: ${names}${more}` : ''}.`;
+}
+
+export const trelloUpdateListTool: Tool = {
+  name: 'trello_update_list',
+  description: 'Rename a Trello list, change its position on the board, or set its soft WIP limit. Trello warns when a list holds more cards than its soft limit; it does not block new cards.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      listId: {
+        type: 'string',
+        description: 'ID of the list to update',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      name: {
+        type: 'string',
+        description: 'New name for the list',
+        minLength: 1
+      },
+      pos: {
+        oneOf: [
+          { type: 'number', minimum: 0 },
+          { type: 'string', enum: ['top', 'bottom'] }
+        ],
+        description: 'New position of the list in the board: "top", "bottom", or specific number'
+      },
+      softLimit: {
+        type: ['integer', 'null'],
+        minimum: 1,
+        maximum: 5000,
+        description: 'Soft WIP limit for the number of cards in the list, or null to remove it'
+      }
+    },
+    required: ['listId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ list: listField }, ['list'])
+};
+
+export async function handleTrelloUpdateList(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { listId, ...updates } = validateUpdateList(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.updateList(listId, updates);
+    const list = response.data;
+
+    const result = {
+      summary: `Updated list: ${list.name}`,
+      list: listSummary(list),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error updating list: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewUpdateList(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { listId, ...updates } = validateUpdateList(params);
+  const { data: list } = await new TrelloClient(credentials).getList(listId);
+  const current: Record<string, unknown> = { name: list.name, pos: list.pos, softLimit: list.softLimit ?? null };
+  const fields = Object.keys(updates);
+
+  return dryRunResult(
+    `would update list "${list.name}" (${fields.join(', ')})`,
+    Object.fromEntries(fields.map(field => [field, current[field]])),
+    updates
+  );
+}
+
+export const trelloArchiveListTool: Tool = {
+  name: 'trello_archive_list',
+  description: 'Archive a Trello list. Its cards are hidden from the board along with it. Archived lists can be restored later with trello_restore_list.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      listId: {
+        type: 'string',
+        description: 'ID of the list to archive',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['listId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ list: listField }, ['list'])
+};
+
+export async function handleTrelloArchiveList(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { listId } = validateArchiveList(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.archiveList(listId);
+    const list = response.data;
+
+    const result = {
+      summary: `Archived list: ${list.name}`,
+      list: listSummary(list),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error archiving list: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewArchiveList(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { listId } = validateArchiveList(params);
+  const { data: list } = await new TrelloClient(credentials).getList(listId);
+  return dryRunResult(`would archive list "${list.name}"`, { closed: list.closed }, { closed: true });
+}
+
+export async function describeArchiveList(args: unknown): Promise<string> {
+  const { credentials, params } = extractCredentials(args);
+  const { listId } = validateArchiveList(params);
+  const client = new TrelloClient(credentials);
+  const [{ data: list }, { data: cards }] = await Promise.all([client.getList(listId), client.getListCards(listId)]);
+  return `Archive list "${list.name}" and hide its ${cards.length} open card(s) from the board.`;
+}
+
+export const trelloRestoreListTool: Tool = {
+  name: 'trello_restore_list',
+  description: 'Restore an archived Trello list back onto its board.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      listId: {
+        type: 'string',
+        description: 'ID of the archived list to restore',
+        pattern: '^[a-f0-9]{24}$'
+      }
+    },
+    required: ['listId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ list: listField }, ['list'])
+};
+
+export async function handleTrelloRestoreList(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { listId } = validateArchiveList(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.restoreList(listId);
+    const list = response.data;
+
+    const result = {
+      summary: `Restored list: ${list.name}`,
+      list: listSummary(list),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error restoring list: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewRestoreList(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { listId } = validateArchiveList(params);
+  const { data: list } = await new TrelloClient(credentials).getList(listId);
+  return dryRunResult(`would restore list "${list.name}"`, { closed: list.closed }, { closed: false });
+}
+
+export const trelloMoveListTool: Tool = {
+  name: 'trello_move_list',
+  description: 'Move a Trello list, with all of its cards, to another board.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      listId: {
+        type: 'string',
+        description: 'ID of the list to move',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      targetBoardId: {
+        type: 'string',
+        description: 'ID of the board that receives the list',
+        pattern: '^[a-f0-9]{24}$'
+      },
+      pos: {
+        oneOf: [
+          { type: 'number', minimum: 0 },
+          { type: 'string', enum: ['top', 'bottom'] }
+        ],
+        description: 'Position of the list on the target board: "top", "bottom", or specific number',
+        default: 'bottom'
+      }
+    },
+    required: ['listId', 'targetBoardId']
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  outputSchema: outputSchema({ list: listField }, ['list'])
+};
+
+export async function handleTrelloMoveList(args: unknown) {
+  try {
+    const { credentials, params } = extractCredentials(args);
+    const { listId, targetBoardId, pos } = validateMoveList(params);
+    const client = new TrelloClient(credentials);
+
+    const response = await client.moveListToBoard(listId, targetBoardId, pos);
+    const list = response.data;
+
+    const result = {
+      summary: `Moved list "${list.name}" to board ${targetBoardId}`,
+      list: listSummary(list),
+      rateLimit: response.rateLimit
+    };
+
+    return toolResult(result);
+  } catch (error) {
+    const errorMessage = error instanceof z.ZodError 
+      ? formatValidationError(error)
+      : error instanceof Error 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error moving list: ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function previewMoveList(args: unknown) {
+  const { credentials, params } = extractCredentials(args);
+  const { listId, targetBoardId, pos } = validateMoveList(params);
+  const client = new TrelloClient(credentials);
+  const [{ data: list }, { data: board }] = await Promise.all([client.getList(listId), client.getBoard(targetBoardId)]);
+
+  return dryRunResult(
+    `would move list "${list.name}" to board "${board.name}"`,
+    // Without pos, nothing is sent and Trello picks the position
+    { idBoard: list.idBoard, ...(pos !== undefined && { pos: list.pos }) },
+    { idBoard: board.id, ...(pos !== undefined && { pos }) }
+  );
+}
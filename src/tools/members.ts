@@ -2,25 +2,22 @@ import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TrelloClient } from '../trello/client.js';
 import { formatValidationError, extractCredentials } from '../utils/validation.js';
+import { outputSchema, toolResult, arrayField, boardField, memberField, organizationField } from './output.js';
 
-const validateGetUserBoards = (args: unknown) => {
-  const schema = z.object({
-    filter: z.enum(['all', 'open', 'closed']).optional()
-  });
-  
-  return schema.parse(args);
-};
+export const getUserBoardsSchema = z.object({
+  filter: z.enum(['all', 'open', 'closed']).optional()
+});
 
-const validateGetMember = (args: unknown) => {
-  const schema = z.object({
-    memberId: z.string().min(1, 'Member ID is required'),
-    fields: z.array(z.string()).optional(),
-    boards: z.string().optional(),
-    organizations: z.string().optional()
-  });
-  
-  return schema.parse(args);
-};
+export const getMemberSchema = z.object({
+  memberId: z.string().min(1, 'Member ID is required'),
+  fields: z.array(z.string()).optional(),
+  boards: z.string().optional(),
+  organizations: z.string().optional()
+});
+
+const validateGetUserBoards = (args: unknown) => getUserBoardsSchema.parse(args);
+
+const validateGetMember = (args: unknown) => getMemberSchema.parse(args);
 
 export const trelloGetUserBoardsTool: Tool = {
   name: 'trello_get_user_boards',
@@ -35,7 +32,13 @@ export const trelloGetUserBoardsTool: Tool = {
         default: 'open'
       }
     }
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({
+    user: memberField,
+    boards: arrayField(boardField),
+    organizations: arrayField(organizationField)
+  }, ['user', 'boards', 'organizations'])
 };
 
 export async function handleTrelloGetUserBoards(args: unknown) {
@@ -77,17 +80,11 @@ export async function handleTrelloGetUserBoards(args: unknown) {
         displayName: org.displayName,
         description: org.desc
       })) || [],
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -137,7 +134,13 @@ export const trelloGetMemberTool: Tool = {
       }
     },
     required: ['memberId']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({
+    member: memberField,
+    boards: arrayField(boardField),
+    organizations: arrayField(organizationField)
+  }, ['member', 'boards', 'organizations'])
 };
 
 export async function handleTrelloGetMember(args: unknown) {
@@ -180,17 +183,11 @@ export async function handleTrelloGetMember(args: unknown) {
         displayName: org.displayName,
         description: org.desc
       })) || [],
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -0,0 +1,178 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+type Schema = Record<string, unknown>;
+
+// JSON Schema fragments for the outputSchema of each tool. Nested objects
+// only describe the fields the handlers pick, and leave them optional
+// because Trello omits fields that were not requested.
+
+export const stringField: Schema = { type: 'string' };
+export const nullableStringField: Schema = { type: ['string', 'null'] };
+export const numberField: Schema = { type: 'number' };
+export const booleanField: Schema = { type: 'boolean' };
+
+export function objectField(properties: Record<string, Schema>, required: string[] = []): Schema {
+  return { type: 'object', properties, ...(required.length > 0 && { required }) };
+}
+
+export function arrayField(items: Schema): Schema {
+  return { type: 'array', items };
+}
+
+export const labelField = objectField({
+  id: stringField,
+  name: stringField,
+  color: nullableStringField,
+  boardId: stringField,
+  uses: numberField
+}, ['id']);
+
+export const memberField = objectField({
+  id: stringField,
+  fullName: stringField,
+  username: stringField,
+  initials: stringField,
+  bio: nullableStringField,
+  url: stringField,
+  memberType: stringField,
+  confirmed: booleanField,
+  avatarUrl: nullableStringField
+}, ['id']);
+
+const boardProperties = {
+  id: stringField,
+  name: stringField,
+  description: stringField,
+  url: stringField,
+  closed: booleanField,
+  lastActivity: nullableStringField,
+  permissions: stringField
+};
+
+export const boardField = objectField(boardProperties, ['id']);
+
+export const listField = objectField({
+  id: stringField,
+  name: stringField,
+  boardId: stringField,
+  position: numberField,
+  closed: booleanField,
+  subscribed: booleanField,
+  softLimit: { type: ['number', 'null'] }
+}, ['id']);
+
+export const organizationField = objectField({
+  id: stringField,
+  name: stringField,
+  displayName: stringField,
+  description: nullableStringField,
+  url: stringField
+}, ['id']);
+
+export const attachmentField = objectField({
+  id: stringField,
+  name: stringField,
+  url: stringField,
+  mimeType: nullableStringField,
+  date: stringField,
+  bytes: { type: ['number', 'null'] },
+  isUpload: booleanField,
+  previews: arrayField(objectField({ id: stringField, width: numberField, height: numberField, url: stringField }))
+}, ['id']);
+
+export const checkItemField = objectField({
+  id: stringField,
+  name: stringField,
+  state: { type: 'string', enum: ['complete', 'incomplete'] },
+  position: numberField,
+  due: nullableStringField,
+  memberId: nullableStringField,
+  nameData: {}
+}, ['id']);
+
+export const checklistField = objectField({
+  id: stringField,
+  name: stringField,
+  cardId: stringField,
+  position: numberField,
+  checkItems: arrayField(checkItemField)
+}, ['id']);
+
+export const cardField = objectField({
+  id: stringField,
+  name: stringField,
+  description: stringField,
+  url: stringField,
+  listId: stringField,
+  boardId: stringField,
+  position: numberField,
+  due: nullableStringField,
+  dueComplete: booleanField,
+  closed: booleanField,
+  lastActivity: nullableStringField,
+  labels: arrayField(labelField),
+  members: arrayField(memberField),
+  checklists: arrayField(checklistField),
+  attachments: arrayField(attachmentField),
+  badges: objectField({})
+}, ['id']);
+
+export const boardDetailsField = objectField({
+  ...boardProperties,
+  lists: arrayField(listField),
+  cards: arrayField(cardField)
+}, ['id']);
+
+const namedRefField = { type: ['object', 'null'], properties: { id: stringField, name: stringField } };
+
+export const actionField = objectField({
+  id: stringField,
+  type: stringField,
+  date: stringField,
+  memberCreator: { ...memberField, type: ['object', 'null'] },
+  data: objectField({
+    text: stringField,
+    old: {},
+    card: namedRefField,
+    list: namedRefField
+  })
+}, ['id']);
+
+export const rateLimitField = objectField({
+  limit: numberField,
+  remaining: numberField,
+  resetTime: numberField
+});
+
+/**
+ * outputSchema of a tool: the given properties plus the `summary`,
+ * `rateLimit` and `fromCache` fields every successful result shares.
+ */
+export function outputSchema(properties: Record<string, Schema>, required: string[] = []): NonNullable<Tool['outputSchema']> {
+  return {
+    type: 'object',
+    properties: {
+      summary: stringField,
+      ...properties,
+      rateLimit: rateLimitField,
+      fromCache: booleanField
+    },
+    required: ['summary', ...required]
+  };
+}
+
+/**
+ * A successful tool result: the JSON text for clients that read content, and
+ * the same object as structuredContent for clients that use outputSchema.
+ */
+export function toolResult<T extends Record<string, unknown>>(result: T) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      }
+    ],
+    structuredContent: result
+  };
+}
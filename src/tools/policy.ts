@@ -0,0 +1,44 @@
+/**
+ * Which tools a server exposes. Read-only mode removes every tool that is not
+ * marked read-only; the deny list wins over the allow list, and an allow list
+ * (when given) restricts the server to exactly those tools.
+ */
+export interface ToolPolicy {
+  readOnly?: boolean;
+  allow?: string[];
+  deny?: string[];
+}
+
+export type ToolDecision = { permitted: true } | { permitted: false; reason: string };
+
+function parseList(value: string | undefined): string[] | undefined {
+  const names = value?.split(',').map(name => name.trim()).filter(Boolean);
+  return names && names.length > 0 ? names : undefined;
+}
+
+/**
+ * Policy from TRELLO_READ_ONLY (true/1), TRELLO_ALLOWED_TOOLS and
+ * TRELLO_DENIED_TOOLS (comma-separated tool names).
+ */
+export function toolPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+  const allow = parseList(env.TRELLO_ALLOWED_TOOLS);
+  const deny = parseList(env.TRELLO_DENIED_TOOLS);
+  return {
+    readOnly: env.TRELLO_READ_ONLY === 'true' || env.TRELLO_READ_ONLY === '1',
+    ...(allow && { allow }),
+    ...(deny && { deny })
+  };
+}
+
+export function decideTool(name: string, readOnly: boolean, policy: ToolPolicy): ToolDecision {
+  if (policy.deny?.includes(name)) {
+    return { permitted: false, reason: 'it is on the deny list' };
+  }
+  if (policy.allow && !policy.allow.includes(name)) {
+    return { permitted: false, reason: 'it is not on the allow list' };
+  }
+  if (policy.readOnly && !readOnly) {
+    return { permitted: false, reason: 'the server is in read-only mode' };
+  }
+  return { permitted: true };
+}
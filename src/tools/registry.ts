@@ -0,0 +1,414 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+  listBoardsSchema,
+  getBoardSchema,
+  getBoardListsSchema,
+  createBoardSchema,
+  updateBoardSchema,
+  closeBoardSchema,
+  copyBoardSchema,
+  createCardSchema,
+  updateCardSchema,
+  moveCardSchema,
+  getCardSchema,
+  cardIdSchema,
+  confirmDeleteCardSchema,
+  formatValidationError
+} from '../utils/validation.js';
+import {
+  listBoardsTool,
+  handleListBoards,
+  getBoardDetailsTool,
+  handleGetBoardDetails,
+  getListsTool,
+  handleGetLists,
+  trelloCreateBoardTool,
+  handleTrelloCreateBoard,
+  previewCreateBoard,
+  trelloUpdateBoardTool,
+  handleTrelloUpdateBoard,
+  previewUpdateBoard,
+  trelloCloseBoardTool,
+  handleTrelloCloseBoard,
+  previewCloseBoard,
+  describeCloseBoard,
+  trelloReopenBoardTool,
+  handleTrelloReopenBoard,
+  previewReopenBoard,
+  trelloCopyBoardTool,
+  handleTrelloCopyBoard,
+  previewCopyBoard
+} from './boards.js';
+import {
+  createCardTool,
+  handleCreateCard,
+  previewCreateCard,
+  updateCardTool,
+  handleUpdateCard,
+  previewUpdateCard,
+  moveCardTool,
+  handleMoveCard,
+  previewMoveCard,
+  getCardTool,
+  handleGetCard,
+  archiveCardTool,
+  handleArchiveCard,
+  previewArchiveCard,
+  describeArchiveCard,
+  restoreCardTool,
+  handleRestoreCard,
+  previewRestoreCard,
+  deleteCardTool,
+  handleDeleteCard,
+  previewDeleteCard,
+  describeDeleteCard
+} from './cards.js';
+import {
+  searchSchema,
+  trelloSearchTool,
+  handleTrelloSearch
+} from './search.js';
+import {
+  getListCardsSchema,
+  createListSchema,
+  addCommentSchema,
+  trelloGetListCardsTool,
+  handleTrelloGetListCards,
+  trelloCreateListTool,
+  handleTrelloCreateList,
+  previewCreateList,
+  trelloAddCommentTool,
+  handleTrelloAddComment,
+  previewAddComment,
+  moveAllCardsSchema,
+  archiveAllCardsSchema,
+  trelloMoveAllCardsTool,
+  handleTrelloMoveAllCards,
+  previewMoveAllCards,
+  describeMoveAllCards,
+  trelloArchiveAllCardsTool,
+  handleTrelloArchiveAllCards,
+  previewArchiveAllCards,
+  describeArchiveAllCards,
+  updateListSchema,
+  archiveListSchema,
+  moveListSchema,
+  trelloUpdateListTool,
+  handleTrelloUpdateList,
+  previewUpdateList,
+  trelloArchiveListTool,
+  handleTrelloArchiveList,
+  previewArchiveList,
+  describeArchiveList,
+  trelloRestoreListTool,
+  handleTrelloRestoreList,
+  previewRestoreList,
+  trelloMoveListTool,
+  handleTrelloMoveList,
+  previewMoveList
+} from './lists.js';
+import {
+  getUserBoardsSchema,
+  getMemberSchema,
+  trelloGetUserBoardsTool,
+  handleTrelloGetUserBoards,
+  trelloGetMemberTool,
+  handleTrelloGetMember
+} from './members.js';
+import {
+  getBoardCardsSchema,
+  getCardActionsSchema,
+  getCardAttachmentsSchema,
+  getCardChecklistsSchema,
+  getBoardMembersSchema,
+  getBoardLabelsSchema,
+  createLabelSchema,
+  updateLabelSchema,
+  cardLabelSchema,
+  trelloGetBoardCardsTool,
+  handleTrelloGetBoardCards,
+  trelloGetCardActionsTool,
+  handleTrelloGetCardActions,
+  trelloGetCardAttachmentsTool,
+  handleTrelloGetCardAttachments,
+  trelloGetCardChecklistsTool,
+  handleTrelloGetCardChecklists,
+  trelloGetBoardMembersTool,
+  handleTrelloGetBoardMembers,
+  trelloGetBoardLabelsTool,
+  handleTrelloGetBoardLabels,
+  trelloCreateLabelTool,
+  handleTrelloCreateLabel,
+  previewCreateLabel,
+  trelloUpdateLabelTool,
+  handleTrelloUpdateLabel,
+  previewUpdateLabel,
+  trelloAddLabelToCardTool,
+  handleTrelloAddLabelToCard,
+  previewAddLabelToCard,
+  trelloRemoveLabelFromCardTool,
+  handleTrelloRemoveLabelFromCard,
+  previewRemoveLabelFromCard,
+  describeRemoveLabelFromCard
+} from './advanced.js';
+import {
+  createChecklistSchema,
+  updateChecklistSchema,
+  deleteChecklistSchema,
+  addCheckItemSchema,
+  updateCheckItemSchema,
+  deleteCheckItemSchema,
+  trelloCreateChecklistTool,
+  handleTrelloCreateChecklist,
+  previewCreateChecklist,
+  trelloUpdateChecklistTool,
+  handleTrelloUpdateChecklist,
+  previewUpdateChecklist,
+  trelloDeleteChecklistTool,
+  handleTrelloDeleteChecklist,
+  previewDeleteChecklist,
+  describeDeleteChecklist,
+  trelloAddChecklistItemTool,
+  handleTrelloAddChecklistItem,
+  previewAddChecklistItem,
+  trelloUpdateChecklistItemTool,
+  handleTrelloUpdateChecklistItem,
+  previewUpdateChecklistItem,
+  trelloDeleteChecklistItemTool,
+  handleTrelloDeleteChecklistItem,
+  previewDeleteChecklistItem,
+  describeDeleteChecklistItem
+} from './checklists.js';
+import {
+  bulkUpdateCardsSchema,
+  trelloBulkUpdateCardsTool,
+  handleTrelloBulkUpdateCards,
+  previewBulkUpdateCards,
+  describeBulkUpdateCards
+} from './bulk.js';
+import {
+  historySchema,
+  undoSchema,
+  trelloHistoryTool,
+  handleTrelloHistory,
+  trelloUndoTool,
+  handleTrelloUndo,
+  previewUndo,
+  describeUndo
+} from './history.js';
+import {
+  listAccountsSchema,
+  trelloListAccountsTool,
+  handleTrelloListAccounts
+} from './accounts.js';
+import { runInJournalContext } from '../trello/journal.js';
+import { resolveToolReferences, withReferenceSupport, ReferenceResolutionError } from '../trello/resolver.js';
+import { withAccountSupport } from '../utils/accounts.js';
+import { decideTool, type ToolDecision, type ToolPolicy } from './policy.js';
+import { isDryRun, withDryRun } from './dryRun.js';
+import { confirmToolCall, requiresConfirmation, withConfirmation, type ChangeDescriber, type Confirmer } from './confirmation.js';
+
+export interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface ToolRegistration {
+  tool: Tool;
+  schema: z.ZodTypeAny;
+  handler: (args: unknown) => Promise<ToolResult>;
+  // Summary shown when asking the user to confirm a destructive call
+  describe?: ChangeDescriber;
+  // Dry run of a write tool: validates, looks up the current state and
+  // returns the before/after diff without changing anything
+  preview?: (args: unknown) => Promise<ToolResult>;
+}
+
+/**
+ * Every tool exposed by the MCP server. Both entrypoints build their
+ * ListTools/CallTool handlers from this list, so a tool added here is
+ * available everywhere.
+ */
+export const toolRegistry: ToolRegistration[] = [
+  // Phase 1: Essential tools
+  { tool: trelloSearchTool, schema: searchSchema, handler: handleTrelloSearch },
+  { tool: trelloGetUserBoardsTool, schema: getUserBoardsSchema, handler: handleTrelloGetUserBoards },
+  { tool: getBoardDetailsTool, schema: getBoardSchema, handler: handleGetBoardDetails },
+  { tool: getCardTool, schema: getCardSchema, handler: handleGetCard },
+  { tool: createCardTool, schema: createCardSchema, handler: handleCreateCard, preview: previewCreateCard },
+  // Phase 2: Core operations
+  { tool: updateCardTool, schema: updateCardSchema, handler: handleUpdateCard, preview: previewUpdateCard },
+  { tool: moveCardTool, schema: moveCardSchema, handler: handleMoveCard, preview: previewMoveCard },
+  { tool: trelloAddCommentTool, schema: addCommentSchema, handler: handleTrelloAddComment, preview: previewAddComment },
+  { tool: trelloGetListCardsTool, schema: getListCardsSchema, handler: handleTrelloGetListCards },
+  { tool: trelloCreateListTool, schema: createListSchema, handler: handleTrelloCreateList, preview: previewCreateList },
+  { tool: trelloMoveAllCardsTool, schema: moveAllCardsSchema, handler: handleTrelloMoveAllCards, preview: previewMoveAllCards, describe: describeMoveAllCards },
+  { tool: trelloArchiveAllCardsTool, schema: archiveAllCardsSchema, handler: handleTrelloArchiveAllCards, preview: previewArchiveAllCards, describe: describeArchiveAllCards },
+  { tool: trelloUpdateListTool, schema: updateListSchema, handler: handleTrelloUpdateList, preview: previewUpdateList },
+  { tool: trelloArchiveListTool, schema: archiveListSchema, handler: handleTrelloArchiveList, preview: previewArchiveList, describe: describeArchiveList },
+  { tool: trelloRestoreListTool, schema: archiveListSchema, handler: handleTrelloRestoreList, preview: previewRestoreList },
+  { tool: trelloMoveListTool, schema: moveListSchema, handler: handleTrelloMoveList, preview: previewMoveList },
+  // Board lifecycle
+  { tool: trelloCreateBoardTool, schema: createBoardSchema, handler: handleTrelloCreateBoard, preview: previewCreateBoard },
+  { tool: trelloUpdateBoardTool, schema: updateBoardSchema, handler: handleTrelloUpdateBoard, preview: previewUpdateBoard },
+  { tool: trelloCloseBoardTool, schema: closeBoardSchema, handler: handleTrelloCloseBoard, preview: previewCloseBoard, describe: describeCloseBoard },
+  { tool: trelloReopenBoardTool, schema: closeBoardSchema, handler: handleTrelloReopenBoard, preview: previewReopenBoard },
+  { tool: trelloCopyBoardTool, schema: copyBoardSchema, handler: handleTrelloCopyBoard, preview: previewCopyBoard },
+  // Original tools (maintained for compatibility)
+  { tool: listBoardsTool, schema: listBoardsSchema, handler: handleListBoards },
+  { tool: getListsTool, schema: getBoardListsSchema, handler: handleGetLists },
+  // Member management
+  { tool: trelloGetMemberTool, schema: getMemberSchema, handler: handleTrelloGetMember },
+  // Phase 3: Advanced features
+  { tool: trelloGetBoardCardsTool, schema: getBoardCardsSchema, handler: handleTrelloGetBoardCards },
+  { tool: trelloGetCardActionsTool, schema: getCardActionsSchema, handler: handleTrelloGetCardActions },
+  { tool: trelloGetCardAttachmentsTool, schema: getCardAttachmentsSchema, handler: handleTrelloGetCardAttachments },
+  { tool: trelloGetCardChecklistsTool, schema: getCardChecklistsSchema, handler: handleTrelloGetCardChecklists },
+  { tool: trelloGetBoardMembersTool, schema: getBoardMembersSchema, handler: handleTrelloGetBoardMembers },
+  { tool: trelloGetBoardLabelsTool, schema: getBoardLabelsSchema, handler: handleTrelloGetBoardLabels },
+  { tool: trelloCreateLabelTool, schema: createLabelSchema, handler: handleTrelloCreateLabel, preview: previewCreateLabel },
+  { tool: trelloUpdateLabelTool, schema: updateLabelSchema, handler: handleTrelloUpdateLabel, preview: previewUpdateLabel },
+  { tool: trelloAddLabelToCardTool, schema: cardLabelSchema, handler: handleTrelloAddLabelToCard, preview: previewAddLabelToCard },
+  { tool: trelloRemoveLabelFromCardTool, schema: cardLabelSchema, handler: handleTrelloRemoveLabelFromCard, preview: previewRemoveLabelFromCard, describe: describeRemoveLabelFromCard },
+  // Card lifecycle
+  { tool: archiveCardTool, schema: cardIdSchema, handler: handleArchiveCard, preview: previewArchiveCard, describe: describeArchiveCard },
+  { tool: restoreCardTool, schema: cardIdSchema, handler: handleRestoreCard, preview: previewRestoreCard },
+  { tool: deleteCardTool, schema: confirmDeleteCardSchema, handler: handleDeleteCard, preview: previewDeleteCard, describe: describeDeleteCard },
+  { tool: trelloBulkUpdateCardsTool, schema: bulkUpdateCardsSchema, handler: handleTrelloBulkUpdateCards, preview: previewBulkUpdateCards, describe: describeBulkUpdateCards },
+  // Checklists
+  { tool: trelloCreateChecklistTool, schema: createChecklistSchema, handler: handleTrelloCreateChecklist, preview: previewCreateChecklist },
+  { tool: trelloUpdateChecklistTool, schema: updateChecklistSchema, handler: handleTrelloUpdateChecklist, preview: previewUpdateChecklist },
+  { tool: trelloDeleteChecklistTool, schema: deleteChecklistSchema, handler: handleTrelloDeleteChecklist, preview: previewDeleteChecklist, describe: describeDeleteChecklist },
+  { tool: trelloAddChecklistItemTool, schema: addCheckItemSchema, handler: handleTrelloAddChecklistItem, preview: previewAddChecklistItem },
+  { tool: trelloUpdateChecklistItemTool, schema: updateCheckItemSchema, handler: handleTrelloUpdateChecklistItem, preview: previewUpdateChecklistItem },
+  { tool: trelloDeleteChecklistItemTool, schema: deleteCheckItemSchema, handler: handleTrelloDeleteChecklistItem, preview: previewDeleteChecklistItem, describe: describeDeleteChecklistItem },
+  // Audit journal
+  { tool: trelloHistoryTool, schema: historySchema, handler: handleTrelloHistory },
+  { tool: trelloUndoTool, schema: undoSchema, handler: handleTrelloUndo, preview: previewUndo, describe: describeUndo },
+  // Accounts
+  { tool: trelloListAccountsTool, schema: listAccountsSchema, handler: handleTrelloListAccounts }
+];
+
+const registrationsByName = new Map(toolRegistry.map(registration => [registration.tool.name, registration]));
+
+export interface ListToolsOptions {
+  // Advertise the optional `account` argument; off for servers whose callers
+  // bring their own credentials
+  accounts?: boolean;
+  policy?: ToolPolicy;
+}
+
+// Read-only mode keeps only the tools annotated with readOnlyHint
+export function isToolPermitted(registration: ToolRegistration, policy: ToolPolicy = {}): ToolDecision {
+  return decideTool(registration.tool.name, registration.tool.annotations?.readOnlyHint === true, policy);
+}
+
+// Without account profiles the server does not reveal the host's profiles either
+function isToolAvailable(registration: ToolRegistration, accounts: boolean): boolean {
+  return accounts || registration.tool.name !== trelloListAccountsTool.name;
+}
+
+export function listTools(options: ListToolsOptions = {}): Tool[] {
+  const { accounts = true, policy } = options;
+  return toolRegistry.filter(registration => isToolAvailable(registration, accounts) && isToolPermitted(registration, policy).permitted).map(registration => {
+    const base = withConfirmation(withReferenceSupport(registration.tool));
+    const tool = registration.preview ? withDryRun(base) : base;
+    return accounts && tool.name !== trelloListAccountsTool.name ? withAccountSupport(tool) : tool;
+  });
+}
+
+export function getToolRegistration(name: string): ToolRegistration | undefined {
+  return registrationsByName.get(name);
+}
+
+/**
+ * Runs a tool after the policy check and reference resolution. `dryRun: true`
+ * returns the preview of a write instead. Destructive tools ask `confirm`
+ * (MCP elicitation) first, or require `confirm: true` in the arguments when
+ * no confirmer is given. Writes the handler makes are journaled under the
+ * tool's name. With `accounts` off, the account tools are refused.
+ */
+export async function callTool(
+  name: string,
+  args: unknown,
+  policy?: ToolPolicy,
+  confirm?: Confirmer,
+  accounts = true
+): Promise<ToolResult> {
+  const registration = getToolRegistration(name);
+  if (!registration) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+
+  const decision: ToolDecision = isToolAvailable(registration, accounts)
+    ? isToolPermitted(registration, policy)
+    : { permitted: false, reason: 'account profiles are disabled' };
+  if (!decision.permitted) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error: tool "${name}" is not available on this server because ${decision.reason}`
+        }
+      ],
+      isError: true
+    };
+  }
+
+  let resolvedArgs: unknown;
+  try {
+    resolvedArgs = await resolveToolReferences(args, requiresConfirmation(registration.tool));
+  } catch (error) {
+    const errorMessage = error instanceof ReferenceResolutionError
+      ? error.message
+      : error instanceof z.ZodError
+        ? `references: ${formatValidationError(error)}`
+        : `references: ${(error as { message?: string })?.message ?? 'Unknown error occurred'}`;
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error resolving ${errorMessage}`
+        }
+      ],
+      isError: true
+    };
+  }
+
+  // A dry run changes nothing, so it needs no confirmation
+  if (registration.preview && isDryRun(resolvedArgs)) {
+    try {
+      return await registration.preview(resolvedArgs);
+    } catch (error) {
+      const errorMessage = error instanceof z.ZodError
+        ? formatValidationError(error)
+        : (error as { message?: string })?.message ?? 'Unknown error occurred';
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Error previewing ${name}: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  if (requiresConfirmation(registration.tool)) {
+    const outcome = await confirmToolCall(registration.tool, resolvedArgs, registration.describe, confirm);
+    if (!outcome.proceed) {
+      return outcome.result;
+    }
+    resolvedArgs = outcome.args;
+  }
+
+  // Journal entries written by the handler name this tool call
+  const handlerArgs = resolvedArgs;
+  return runInJournalContext({ tool: name, args: handlerArgs }, () => registration.handler(handlerArgs));
+}
@@ -2,19 +2,18 @@ import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TrelloClient } from '../trello/client.js';
 import { formatValidationError, extractCredentials } from '../utils/validation.js';
+import { outputSchema, toolResult, objectField, arrayField, stringField, numberField, boardField, cardField, memberField, organizationField } from './output.js';
 
-const validateSearch = (args: unknown) => {
-  const schema = z.object({
-    query: z.string().min(1, 'Search query is required'),
-    modelTypes: z.array(z.enum(['boards', 'cards', 'members', 'organizations'])).optional(),
-    boardIds: z.array(z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format')).optional(),
-    boardsLimit: z.number().min(1).max(1000).optional(),
-    cardsLimit: z.number().min(1).max(1000).optional(),
-    membersLimit: z.number().min(1).max(1000).optional()
-  });
-  
-  return schema.parse(args);
-};
+export const searchSchema = z.object({
+  query: z.string().min(1, 'Search query is required'),
+  modelTypes: z.array(z.enum(['boards', 'cards', 'members', 'organizations'])).optional(),
+  boardIds: z.array(z.string().regex(/^[a-f0-9]{24}$/, 'Invalid board ID format')).optional(),
+  boardsLimit: z.number().min(1).max(1000).optional(),
+  cardsLimit: z.number().min(1).max(1000).optional(),
+  membersLimit: z.number().min(1).max(1000).optional()
+});
+
+const validateSearch = (args: unknown) => searchSchema.parse(args);
 
 export const trelloSearchTool: Tool = {
   name: 'trello_search',
@@ -67,7 +66,16 @@ export const trelloSearchTool: Tool = {
       }
     },
     required: ['query']
-  }
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  outputSchema: outputSchema({
+    query: stringField,
+    boards: arrayField(boardField),
+    cards: arrayField(cardField),
+    members: arrayField(memberField),
+    organizations: arrayField(organizationField),
+    totalResults: objectField({ boards: numberField, cards: numberField, members: numberField, organizations: numberField })
+  }, ['query', 'boards', 'cards', 'members', 'organizations', 'totalResults'])
 };
 
 export async function handleTrelloSearch(args: unknown) {
@@ -133,17 +141,11 @@ export async function handleTrelloSearch(args: unknown) {
         members: searchResults.members?.length || 0,
         organizations: searchResults.organizations?.length || 0
       },
-      rateLimit: response.rateLimit
+      rateLimit: response.rateLimit,
+      fromCache: response.fromCache
     };
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
+    return toolResult(result);
   } catch (error) {
     const errorMessage = error instanceof z.ZodError 
       ? formatValidationError(error)
@@ -0,0 +1,146 @@
+import { createHash } from 'node:crypto';
+import type { TrelloCredentials } from '../types/trello.js';
+
+const DEFAULT_TTL_SECONDS = 60;
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Path segments whose following segment identifies an entity
+const ENTITY_SEGMENTS = new Set(['boards', 'cards', 'lists', 'labels', 'checklists', 'checkItem', 'checkItems', 'members', 'organizations']);
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  tags: Set<string>;
+}
+
+/**
+ * In-process TTL cache for Trello GET responses. Entries are tagged with every
+ * Trello ID they mention, so a write can drop all entries that may now be stale
+ * without knowing which endpoints read that entity.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private ttlMs: number,
+    private maxEntries = DEFAULT_MAX_ENTRIES
+  ) {}
+
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  set(key: string, value: unknown, tags: Iterable<string>): void {
+    if (!this.enabled) return;
+
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs, tags: new Set(tags) });
+  }
+
+  invalidate(tags: Iterable<string>): number {
+    const stale = new Set(tags);
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if ([...entry.tags].some(tag => stale.has(tag))) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Short hash that tells credentials apart without revealing them.
+ */
+export function credentialScope(credentials: TrelloCredentials): string {
+  return createHash('sha256').update(`${credentials.apiKey}:${credentials.token}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Keys are scoped by a hash of the credentials so accounts never share entries
+ * and raw tokens are not kept in the key space.
+ */
+export function cacheKey(credentials: TrelloCredentials, endpoint: string, params: Record<string, string> = {}): string {
+  const scope = credentialScope(credentials);
+  const query = Object.keys(params)
+    .sort()
+    .filter(key => params[key] !== undefined)
+    .map(key => `${key}=${params[key]}`)
+    .join('&');
+  return `${scope}:${endpoint}?${query}`;
+}
+
+function collectPayloadIds(value: unknown, tags: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectPayloadIds(item, tags));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  for (const [key, field] of Object.entries(value)) {
+    if (key.startsWith('id')) {
+      if (typeof field === 'string') tags.add(field);
+      if (Array.isArray(field)) field.forEach(id => typeof id === 'string' && tags.add(id));
+    } else if (typeof field === 'object') {
+      collectPayloadIds(field, tags);
+    }
+  }
+}
+
+/**
+ * Collects the entity IDs named in an endpoint path and in any request or
+ * response payloads, e.g. `/cards/abc` with `{ idList: 'def' }` yields `abc`
+ * and `def`.
+ */
+export function collectTags(endpoint: string, ...payloads: unknown[]): Set<string> {
+  const tags = new Set<string>();
+  const segments = endpoint.split('/').filter(Boolean);
+
+  segments.forEach((segment, index) => {
+    const next = segments[index + 1];
+    if (ENTITY_SEGMENTS.has(segment) && next) tags.add(next);
+  });
+
+  payloads.forEach(payload => collectPayloadIds(payload, tags));
+  return tags;
+}
+
+export function invalidationTags(endpoint: string, ...payloads: unknown[]): Set<string> {
+  const tags = collectTags(endpoint, ...payloads);
+  // The board list under /members/me changes whenever a board is created or closed
+  if (endpoint.startsWith('/boards')) tags.add('me');
+  return tags;
+}
+
+function configuredTtlMs(): number {
+  const seconds = Number(process.env.TRELLO_CACHE_TTL ?? DEFAULT_TTL_SECONDS);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+export const responseCache = new ResponseCache(configuredTtlMs());
@@ -1,4 +1,4 @@
-import { logger } from '../utils/logger.js';
+import { logger, type Logger } from '../utils/logger.js';
 import { insights } from '../utils/appInsights.js';
 import type {
   TrelloCredentials,
@@ -12,14 +12,30 @@ import type {
   TrelloComment,
   TrelloAttachment,
   TrelloChecklist,
+  TrelloCheckItem,
   TrelloSearchResults,
   CreateCardRequest,
   UpdateCardRequest,
   MoveCardRequest,
+  UpdateListRequest,
+  CreateBoardRequest,
+  CopyBoardRequest,
+  UpdateBoardRequest,
+  CreateChecklistRequest,
+  UpdateChecklistRequest,
+  CreateCheckItemRequest,
+  UpdateCheckItemRequest,
   TrelloError,
   RateLimitInfo,
-  TrelloApiResponse
+  TrelloApiResponse,
+  TrelloBatchItem
 } from '../types/trello.js';
+import { ResponseCache, responseCache, cacheKey, credentialScope, collectTags, invalidationTags } from './cache.js';
+import { RateLimitGovernor, rateLimitGovernor } from './rateLimiter.js';
+import { FixtureStore, FixtureNotFoundError, fixturesFromEnv } from './fixtures.js';
+import { ScopeGuard, boardScopeFromEnv, type BoardScope } from './scope.js';
+import { Journal, journalFromEnv, type JournalEntity } from './journal.js';
+
 interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
@@ -30,45 +46,140 @@ interface FetchOptions extends RequestInit {
   timeout?: number;
 }
 
+interface RequestOptions extends FetchOptions {
+  params?: Record<string, string>;
+  // Set for requests whose items are cached individually, such as /batch
+  skipCache?: boolean;
+  // Set for the scope guard's own lookups and for /batch, whose items are checked individually
+  skipScope?: boolean;
+}
+
+// Trello rejects /batch calls with more than 10 URLs
+const BATCH_LIMIT = 10;
+
+export const DEFAULT_BASE_URL = 'https://api.trello.com/1';
+
+/**
+ * The API root requests go to: TRELLO_BASE_URL when set (e.g. the bundled fake
+ * server), otherwise the public Trello API.
+ */
+export function resolveBaseURL(baseURL?: string): string {
+  return (baseURL || process.env.TRELLO_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+export interface TrelloClientOptions {
+  // API root such as http://localhost:4010/1; defaults to resolveBaseURL()
+  baseURL?: string;
+  // Defaults to the process-wide cache; pass a disabled cache to always hit the API
+  cache?: ResponseCache;
+  // Defaults to the process-wide governor so concurrent tool calls share one budget
+  governor?: RateLimitGovernor;
+  // Records or replays HTTP exchanges; defaults to the TRELLO_FIXTURES settings
+  fixtures?: FixtureStore;
+  // Boards and workspaces this client may touch; defaults to TRELLO_ALLOWED_BOARDS / TRELLO_ALLOWED_WORKSPACES
+  scope?: BoardScope;
+  // Audit journal every write is appended to; defaults to journalFromEnv()
+  journal?: Journal;
+  // Where request logs go; defaults to the process-wide logger
+  logger?: Logger;
+}
+
+/**
+ * Returns the data of a batch item, or throws its TrelloError like a regular
+ * request would.
+ */
+export function unwrapBatchItem<T>(item: TrelloBatchItem<T>): T {
+  if (!item.ok) throw item.error;
+  return item.data;
+}
+
+function splitBatchURL(url: string): { endpoint: string; params: Record<string, string> } {
+  const parsed = new URL(url, 'https://api.trello.com');
+  return { endpoint: parsed.pathname, params: Object.fromEntries(parsed.searchParams) };
+}
+
+/**
+ * Trello's OAuth-style Authorization header, used instead of key/token query
+ * parameters.
+ */
+export function authorizationHeader(credentials: TrelloCredentials): string {
+  return `OAuth oauth_consumer_key="${credentials.apiKey}", oauth_token="${credentials.token}"`;
+}
+
+/**
+ * The body of a board update: plain fields plus one "prefs/<name>" field per
+ * preference, the shape Trello's PUT /boards/{id} takes.
+ */
+export function boardUpdateBody(updates: UpdateBoardRequest): Record<string, unknown> {
+  const { prefs, ...fields } = updates;
+  return {
+    ...fields,
+    ...Object.fromEntries(Object.entries(prefs ?? {}).map(([pref, value]) => [`prefs/${pref}`, value]))
+  };
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
 export class TrelloClient {
-  private baseURL = 'https://api.trello.com/1';
+  private baseURL: string;
   private credentials: TrelloCredentials;
+  private cache: ResponseCache;
+  private governor: RateLimitGovernor;
+  private fixtures: FixtureStore | undefined;
+  private scope: ScopeGuard;
+  private journal: Journal | undefined;
+  private logger: Logger;
   private retryConfig: RetryConfig = {
     maxRetries: 3,
     baseDelay: 1000,
     maxDelay: 10000
   };
 
-  constructor(credentials: TrelloCredentials) {
+  constructor(credentials: TrelloCredentials, options: TrelloClientOptions = {}) {
     this.credentials = credentials;
+    this.baseURL = resolveBaseURL(options.baseURL);
+    this.cache = options.cache ?? responseCache;
+    this.governor = options.governor ?? rateLimitGovernor;
+    this.fixtures = options.fixtures ?? fixturesFromEnv();
+    this.journal = options.journal ?? journalFromEnv();
+    this.logger = options.logger ?? logger;
+    this.scope = new ScopeGuard(options.scope ?? boardScopeFromEnv(), async <T>(endpoint: string, params: Record<string, string>) =>
+      (await this.makeRequest<T>(endpoint, { params, skipScope: true }, `Scope lookup ${endpoint}`)).data);
   }
 
   private async fetchWithTimeout(url: string, options: FetchOptions = {}): Promise<Response> {
     const { timeout = 15000, ...fetchOptions } = options;
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-    
-    try {
-      const response = await fetch(url, {
-        ...fetchOptions,
-        signal: controller.signal
-      });
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
-    }
+    const live = async () => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+      try {
+        const response = await fetch(url, {
+          ...fetchOptions,
+          signal: controller.signal
+        });
+        clearTimeout(timeoutId);
+        return response;
+      } catch (error) {
+        clearTimeout(timeoutId);
+        throw error;
+      }
+    };
+
+    return this.fixtures ? this.fixtures.handle(url, fetchOptions, this.baseURL, live) : live();
   }
 
   private buildURL(endpoint: string, params?: Record<string, string>): string {
     const url = new URL(`${this.baseURL}${endpoint}`);
     
-    // Add authentication parameters
-    url.searchParams.set('key', this.credentials.apiKey);
-    url.searchParams.set('token', this.credentials.token);
-    
     // Add additional parameters
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -106,6 +217,13 @@ export class TrelloClient {
   }
 
   private handleError(error: unknown): TrelloError {
+    if (error instanceof FixtureNotFoundError) {
+      return {
+        message: error.message,
+        code: 'FIXTURE_NOT_FOUND'
+      };
+    }
+
     if (error instanceof TypeError && error.message.includes('fetch')) {
       return {
         message: 'Network error - unable to reach Trello API',
@@ -170,26 +288,68 @@ export class TrelloClient {
     };
   }
 
+  /**
+   * Sends a request after checking it against the board scope, and drops
+   * out-of-scope boards and cards from listings and search results.
+   */
   private async makeRequest<T>(
     endpoint: string,
-    options: FetchOptions & { params?: Record<string, string> } = {},
+    options: RequestOptions = {},
+    operation: string
+  ): Promise<TrelloApiResponse<T>> {
+    const { skipScope, ...requestOptions } = options;
+    if (skipScope || !this.scope.active) {
+      return this.sendRequest<T>(endpoint, requestOptions, operation);
+    }
+
+    const body = parseBody(requestOptions.body);
+    await this.scope.authorize(
+      endpoint,
+      (requestOptions.method ?? 'GET').toUpperCase(),
+      requestOptions.params,
+      body && typeof body === 'object' ? body as Record<string, unknown> : {}
+    );
+    const response = await this.sendRequest<T>(endpoint, requestOptions, operation);
+    return { ...response, data: await this.scope.filter(endpoint, response.data) };
+  }
+
+  private async sendRequest<T>(
+    endpoint: string,
+    options: RequestOptions = {},
     operation: string
   ): Promise<TrelloApiResponse<T>> {
-    const { params, ...fetchOptions } = options;
+    const { params, skipCache, ...fetchOptions } = options;
+    const isRead = (fetchOptions.method ?? 'GET').toUpperCase() === 'GET';
+    const key = isRead && !skipCache && this.cache.enabled ? cacheKey(this.credentials, endpoint, params) : undefined;
+
+    if (key) {
+      const cached = this.cache.get<T>(key);
+      if (cached !== undefined) {
+        this.logger.debug(`Trello API ${operation} served from cache`);
+        return {
+          data: structuredClone(cached),
+          fromCache: true
+        };
+      }
+    }
+
     const url = this.buildURL(endpoint, params);
     const startTime = Date.now();
     let lastError: unknown;
     
     for (let attempt = 1; attempt <= this.retryConfig.maxRetries; attempt++) {
       try {
-        const response = await this.fetchWithTimeout(url, {
+        const response = await this.governor.schedule(this.credentials, () => this.fetchWithTimeout(url, {
           headers: {
             'Content-Type': 'application/json',
             'User-Agent': 'TrelloMCPServer/1.0.0 (Node.js 22)',
+            // Credentials travel in the header so they never appear in URLs we log
+            'Authorization': authorizationHeader(this.credentials),
             ...fetchOptions.headers
           },
           ...fetchOptions
-        });
+        }));
+        this.governor.observe(this.credentials, response.headers);
         
         const rateLimit = this.extractRateLimitInfo(response);
         const duration = Date.now() - startTime;
@@ -198,13 +358,14 @@ export class TrelloClient {
           // Handle rate limiting
           if (response.status === 429) {
             const retryAfter = parseInt(response.headers.get('retry-after') || '60', 10);
-            logger.warn(`Rate limited, waiting ${retryAfter}s`, { 
+            this.logger.warn(`Rate limited, waiting ${retryAfter}s`, { 
               operation, 
               attempt, 
               maxRetries: this.retryConfig.maxRetries 
             });
             insights.trackEvent('TrelloRateLimit', { operation, attempt, retryAfter });
-            await this.sleep(retryAfter * 1000);
+            // The governor holds this and every other request on these credentials
+            this.governor.throttle(this.credentials, retryAfter * 1000);
             continue;
           }
           
@@ -213,7 +374,7 @@ export class TrelloClient {
         
         const data = await response.json() as T;
         
-        logger.info(`Trello API ${operation} successful`, {
+        this.logger.info(`Trello API ${operation} successful`, {
           status: response.status,
           duration: `${duration}ms`,
           rateLimit
@@ -224,9 +385,16 @@ export class TrelloClient {
           rateLimit: rateLimit?.remaining?.toString()
         });
         
+        if (key) {
+          this.cache.set(key, structuredClone(data), collectTags(endpoint, data));
+        } else if (!isRead) {
+          this.cache.invalidate(invalidationTags(endpoint, parseBody(fetchOptions.body), data));
+        }
+        
         return {
           data,
-          rateLimit
+          rateLimit,
+          fromCache: false
         };
         
       } catch (error) {
@@ -239,7 +407,7 @@ export class TrelloClient {
         
         if (attempt < this.retryConfig.maxRetries && this.shouldRetry(error)) {
           const delay = this.calculateBackoffDelay(attempt);
-          logger.debug(`Retrying ${operation}`, { 
+          this.logger.debug(`Retrying ${operation}`, { 
             delay: `${delay}ms`, 
             attempt, 
             maxRetries: this.retryConfig.maxRetries 
@@ -251,7 +419,7 @@ export class TrelloClient {
         
         // Final attempt failed
         const trelloError = this.handleError(error);
-        logger.error(`Trello API ${operation} failed`, {
+        this.logger.error(`Trello API ${operation} failed`, {
           error: trelloError.message,
           status: trelloError.status,
           duration: `${duration}ms`
@@ -274,6 +442,45 @@ export class TrelloClient {
     throw this.handleError(lastError);
   }
 
+  /**
+   * Runs a write and, when the journal is on, appends it with the entity's
+   * state fetched just before. Failed writes are journaled too.
+   */
+  private async journaled<T>(
+    operation: string,
+    args: unknown[],
+    entity: JournalEntity,
+    beforeEndpoint: string | null,
+    write: () => Promise<TrelloApiResponse<T>>
+  ): Promise<TrelloApiResponse<T>> {
+    const journal = this.journal;
+    if (!journal) {
+      return write();
+    }
+
+    const identity = credentialScope(this.credentials);
+    let before: unknown = null;
+    if (beforeEndpoint) {
+      try {
+        before = (await this.makeRequest<unknown>(beforeEndpoint, { skipCache: true }, `Journal lookup ${beforeEndpoint}`)).data;
+      } catch {
+        // The write itself reports why the entity is unreachable
+      }
+    }
+
+    try {
+      const response = await write();
+      const result = response.data ?? null;
+      const createdId = result && typeof result === 'object' && 'id' in result ? String(result.id) : null;
+      journal.append({ identity, operation, args, entity: { ...entity, id: entity.id ?? createdId }, before, result });
+      return response;
+    } catch (error) {
+      const message = (error as { message?: string })?.message ?? String(error);
+      journal.append({ identity, operation, args, entity, before, error: message });
+      throw error;
+    }
+  }
+
   private shouldRetry(error: unknown): boolean {
     // Network errors should be retried
     if (error instanceof TypeError && error.message.includes('fetch')) {
@@ -318,6 +525,67 @@ export class TrelloClient {
     );
   }
 
+  async createBoard(boardData: CreateBoardRequest): Promise<TrelloApiResponse<TrelloBoard>> {
+    return this.journaled('createBoard', [boardData], { type: 'board', id: null }, null, () =>
+      this.makeRequest<TrelloBoard>(
+        '/boards',
+        {
+          method: 'POST',
+          body: JSON.stringify(boardData)
+        },
+        `Create board "${boardData.name}"`
+      ));
+  }
+
+  async copyBoard(sourceBoardId: string, copy: CopyBoardRequest): Promise<TrelloApiResponse<TrelloBoard>> {
+    return this.journaled('copyBoard', [sourceBoardId, copy], { type: 'board', id: null }, null, () =>
+      this.makeRequest<TrelloBoard>(
+        '/boards',
+        {
+          method: 'POST',
+          body: JSON.stringify({ ...copy, idBoardSource: sourceBoardId })
+        },
+        `Copy board ${sourceBoardId} to "${copy.name}"`
+      ));
+  }
+
+  async updateBoard(boardId: string, updates: UpdateBoardRequest): Promise<TrelloApiResponse<TrelloBoard>> {
+    const body = boardUpdateBody(updates);
+    return this.journaled('updateBoard', [boardId, updates], { type: 'board', id: boardId }, `/boards/${boardId}`, () =>
+      this.makeRequest<TrelloBoard>(
+        `/boards/${boardId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify(body)
+        },
+        `Update board ${boardId}`
+      ));
+  }
+
+  async closeBoard(boardId: string): Promise<TrelloApiResponse<TrelloBoard>> {
+    return this.journaled('closeBoard', [boardId], { type: 'board', id: boardId }, `/boards/${boardId}`, () =>
+      this.makeRequest<TrelloBoard>(
+        `/boards/${boardId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ closed: true })
+        },
+        `Close board ${boardId}`
+      ));
+  }
+
+  async reopenBoard(boardId: string): Promise<TrelloApiResponse<TrelloBoard>> {
+    return this.journaled('reopenBoard', [boardId], { type: 'board', id: boardId }, `/boards/${boardId}`, () =>
+      this.makeRequest<TrelloBoard>(
+        `/boards/${boardId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ closed: false })
+        },
+        `Reopen board ${boardId}`
+      ));
+  }
+
   async getBoardLists(boardId: string, filter?: 'all' | 'open' | 'closed'): Promise<TrelloApiResponse<TrelloList[]>> {
     return this.makeRequest<TrelloList[]>(
       `/boards/${boardId}/lists`,
@@ -327,36 +595,39 @@ export class TrelloClient {
   }
 
   async createCard(cardData: CreateCardRequest): Promise<TrelloApiResponse<TrelloCard>> {
-    return this.makeRequest<TrelloCard>(
-      '/cards',
-      {
-        method: 'POST',
-        body: JSON.stringify(cardData)
-      },
-      `Create card "${cardData.name}"`
-    );
+    return this.journaled('createCard', [cardData], { type: 'card', id: null }, null, () =>
+      this.makeRequest<TrelloCard>(
+        '/cards',
+        {
+          method: 'POST',
+          body: JSON.stringify(cardData)
+        },
+        `Create card "${cardData.name}"`
+      ));
   }
 
   async updateCard(cardId: string, updates: UpdateCardRequest): Promise<TrelloApiResponse<TrelloCard>> {
-    return this.makeRequest<TrelloCard>(
-      `/cards/${cardId}`,
-      {
-        method: 'PUT',
-        body: JSON.stringify(updates)
-      },
-      `Update card ${cardId}`
-    );
+    return this.journaled('updateCard', [cardId, updates], { type: 'card', id: cardId }, `/cards/${cardId}`, () =>
+      this.makeRequest<TrelloCard>(
+        `/cards/${cardId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify(updates)
+        },
+        `Update card ${cardId}`
+      ));
   }
 
   async moveCard(cardId: string, moveData: MoveCardRequest): Promise<TrelloApiResponse<TrelloCard>> {
-    return this.makeRequest<TrelloCard>(
-      `/cards/${cardId}`,
-      {
-        method: 'PUT',
-        body: JSON.stringify(moveData)
-      },
-      `Move card ${cardId}`
-    );
+    return this.journaled('moveCard', [cardId, moveData], { type: 'card', id: cardId }, `/cards/${cardId}`, () =>
+      this.makeRequest<TrelloCard>(
+        `/cards/${cardId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify(moveData)
+        },
+        `Move card ${cardId}`
+      ));
   }
 
   async getCard(cardId: string, includeDetails = false): Promise<TrelloApiResponse<TrelloCard>> {
@@ -375,12 +646,37 @@ export class TrelloClient {
     );
   }
 
+  async archiveCard(cardId: string): Promise<TrelloApiResponse<TrelloCard>> {
+    return this.journaled('archiveCard', [cardId], { type: 'card', id: cardId }, `/cards/${cardId}`, () =>
+      this.makeRequest<TrelloCard>(
+        `/cards/${cardId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ closed: true })
+        },
+        `Archive card ${cardId}`
+      ));
+  }
+
+  async restoreCard(cardId: string): Promise<TrelloApiResponse<TrelloCard>> {
+    return this.journaled('restoreCard', [cardId], { type: 'card', id: cardId }, `/cards/${cardId}`, () =>
+      this.makeRequest<TrelloCard>(
+        `/cards/${cardId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ closed: false })
+        },
+        `Restore card ${cardId}`
+      ));
+  }
+
   async deleteCard(cardId: string): Promise<TrelloApiResponse<void>> {
-    return this.makeRequest<void>(
-      `/cards/${cardId}`,
-      { method: 'DELETE' },
-      `Delete card ${cardId}`
-    );
+    return this.journaled('deleteCard', [cardId], { type: 'card', id: cardId }, `/cards/${cardId}`, () =>
+      this.makeRequest<void>(
+        `/cards/${cardId}`,
+        { method: 'DELETE' },
+        `Delete card ${cardId}`
+      ));
   }
 
   async getBoardMembers(boardId: string): Promise<TrelloApiResponse<TrelloMember[]>> {
@@ -407,7 +703,7 @@ export class TrelloClient {
     membersLimit?: number;
   }): Promise<TrelloApiResponse<TrelloSearchResults>> {
     const params: Record<string, string> = {
-      query: encodeURIComponent(query)
+      query
     };
     
     if (options?.modelTypes) {
@@ -454,13 +750,22 @@ export class TrelloClient {
   }
 
   async addCommentToCard(cardId: string, text: string): Promise<TrelloApiResponse<TrelloComment>> {
-    return this.makeRequest<TrelloComment>(
-      `/cards/${cardId}/actions/comments`,
-      {
-        method: 'POST',
-        body: JSON.stringify({ text })
-      },
-      `Add comment to card ${cardId}`
+    return this.journaled('addCommentToCard', [cardId, text], { type: 'comment', id: null }, null, () =>
+      this.makeRequest<TrelloComment>(
+        `/cards/${cardId}/actions/comments`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ text })
+        },
+        `Add comment to card ${cardId}`
+      ));
+  }
+
+  async getList(listId: string): Promise<TrelloApiResponse<TrelloList>> {
+    return this.makeRequest<TrelloList>(
+      `/lists/${listId}`,
+      {},
+      `Get list ${listId}`
     );
   }
 
@@ -469,14 +774,85 @@ export class TrelloClient {
     idBoard: string;
     pos?: string | number;
   }): Promise<TrelloApiResponse<TrelloList>> {
-    return this.makeRequest<TrelloList>(
-      '/lists',
-      {
-        method: 'POST',
-        body: JSON.stringify(listData)
-      },
-      `Create list "${listData.name}"`
-    );
+    return this.journaled('createList', [listData], { type: 'list', id: null }, null, () =>
+      this.makeRequest<TrelloList>(
+        '/lists',
+        {
+          method: 'POST',
+          body: JSON.stringify(listData)
+        },
+        `Create list "${listData.name}"`
+      ));
+  }
+
+  async updateList(listId: string, updates: UpdateListRequest): Promise<TrelloApiResponse<TrelloList>> {
+    return this.journaled('updateList', [listId, updates], { type: 'list', id: listId }, `/lists/${listId}`, () =>
+      this.makeRequest<TrelloList>(
+        `/lists/${listId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify(updates)
+        },
+        `Update list ${listId}`
+      ));
+  }
+
+  async archiveList(listId: string): Promise<TrelloApiResponse<TrelloList>> {
+    return this.journaled('archiveList', [listId], { type: 'list', id: listId }, `/lists/${listId}`, () =>
+      this.makeRequest<TrelloList>(
+        `/lists/${listId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ closed: true })
+        },
+        `Archive list ${listId}`
+      ));
+  }
+
+  async restoreList(listId: string): Promise<TrelloApiResponse<TrelloList>> {
+    return this.journaled('restoreList', [listId], { type: 'list', id: listId }, `/lists/${listId}`, () =>
+      this.makeRequest<TrelloList>(
+        `/lists/${listId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ closed: false })
+        },
+        `Restore list ${listId}`
+      ));
+  }
+
+  async moveListToBoard(listId: string, boardId: string, pos?: number | string): Promise<TrelloApiResponse<TrelloList>> {
+    const move = { idBoard: boardId, ...(pos !== undefined && { pos }) };
+    return this.journaled('moveListToBoard', [listId, move], { type: 'list', id: listId }, `/lists/${listId}`, () =>
+      this.makeRequest<TrelloList>(
+        `/lists/${listId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify(move)
+        },
+        `Move list ${listId} to board ${boardId}`
+      ));
+  }
+
+  async moveAllCardsInList(listId: string, destination: { idBoard: string; idList: string }): Promise<TrelloApiResponse<TrelloCard[]>> {
+    return this.journaled('moveAllCardsInList', [listId, destination], { type: 'list', id: listId }, `/lists/${listId}/cards`, () =>
+      this.makeRequest<TrelloCard[]>(
+        `/lists/${listId}/moveAllCards`,
+        {
+          method: 'POST',
+          body: JSON.stringify(destination)
+        },
+        `Move all cards from list ${listId} to list ${destination.idList}`
+      ));
+  }
+
+  async archiveAllCardsInList(listId: string): Promise<TrelloApiResponse<void>> {
+    return this.journaled('archiveAllCardsInList', [listId], { type: 'list', id: listId }, `/lists/${listId}/cards`, () =>
+      this.makeRequest<void>(
+        `/lists/${listId}/archiveAllCards`,
+        { method: 'POST' },
+        `Archive all cards in list ${listId}`
+      ));
   }
 
   async getMember(memberId: string, options?: {
@@ -555,6 +931,30 @@ export class TrelloClient {
     );
   }
 
+  async getBoardActions(boardId: string, options?: {
+    filter?: string;
+    since?: string;
+    limit?: number;
+  }): Promise<TrelloApiResponse<TrelloAction[]>> {
+    const params: Record<string, string> = {};
+
+    if (options?.filter) {
+      params.filter = options.filter;
+    }
+    if (options?.since) {
+      params.since = options.since;
+    }
+    if (options?.limit) {
+      params.limit = options.limit.toString();
+    }
+
+    return this.makeRequest<TrelloAction[]>(
+      `/boards/${boardId}/actions`,
+      { params },
+      `Get actions for board ${boardId}`
+    );
+  }
+
   async getCardAttachments(cardId: string, options?: {
     fields?: string[];
   }): Promise<TrelloApiResponse<TrelloAttachment[]>> {
@@ -591,45 +991,224 @@ export class TrelloClient {
     );
   }
 
-  async createLabel(boardId: string, name: string, color: string): Promise<TrelloApiResponse<TrelloLabel>> {
-    return this.makeRequest<TrelloLabel>(
-      '/labels',
-      {
-        method: 'POST',
-        params: { name, color, idBoard: boardId }
-      },
-      `Create label "${name}" on board ${boardId}`
+  async getChecklist(checklistId: string): Promise<TrelloApiResponse<TrelloChecklist>> {
+    return this.makeRequest<TrelloChecklist>(
+      `/checklists/${checklistId}`,
+      { params: { checkItems: 'all' } },
+      `Get checklist ${checklistId}`
     );
   }
 
-  async updateLabel(labelId: string, updates: { name?: string; color?: string }): Promise<TrelloApiResponse<TrelloLabel>> {
+  async createChecklist(checklistData: CreateChecklistRequest): Promise<TrelloApiResponse<TrelloChecklist>> {
+    return this.journaled('createChecklist', [checklistData], { type: 'checklist', id: null }, null, () =>
+      this.makeRequest<TrelloChecklist>(
+        '/checklists',
+        {
+          method: 'POST',
+          body: JSON.stringify(checklistData)
+        },
+        `Create checklist "${checklistData.name}" on card ${checklistData.idCard}`
+      ));
+  }
+
+  async updateChecklist(checklistId: string, updates: UpdateChecklistRequest): Promise<TrelloApiResponse<TrelloChecklist>> {
+    return this.journaled('updateChecklist', [checklistId, updates], { type: 'checklist', id: checklistId }, `/checklists/${checklistId}`, () =>
+      this.makeRequest<TrelloChecklist>(
+        `/checklists/${checklistId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify(updates)
+        },
+        `Update checklist ${checklistId}`
+      ));
+  }
+
+  async deleteChecklist(checklistId: string): Promise<TrelloApiResponse<void>> {
+    return this.journaled('deleteChecklist', [checklistId], { type: 'checklist', id: checklistId }, `/checklists/${checklistId}`, () =>
+      this.makeRequest<void>(
+        `/checklists/${checklistId}`,
+        { method: 'DELETE' },
+        `Delete checklist ${checklistId}`
+      ));
+  }
+
+  async addCheckItem(checklistId: string, itemData: CreateCheckItemRequest): Promise<TrelloApiResponse<TrelloCheckItem>> {
+    return this.journaled('addCheckItem', [checklistId, itemData], { type: 'checkItem', id: null }, null, () =>
+      this.makeRequest<TrelloCheckItem>(
+        `/checklists/${checklistId}/checkItems`,
+        {
+          method: 'POST',
+          body: JSON.stringify(itemData)
+        },
+        `Add item "${itemData.name}" to checklist ${checklistId}`
+      ));
+  }
+
+  async updateCheckItem(cardId: string, checkItemId: string, updates: UpdateCheckItemRequest): Promise<TrelloApiResponse<TrelloCheckItem>> {
+    return this.journaled('updateCheckItem', [cardId, checkItemId, updates], { type: 'checkItem', id: checkItemId }, `/cards/${cardId}/checkItem/${checkItemId}`, () =>
+      this.makeRequest<TrelloCheckItem>(
+        `/cards/${cardId}/checkItem/${checkItemId}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify(updates)
+        },
+        `Update check item ${checkItemId} on card ${cardId}`
+      ));
+  }
+
+  async deleteCheckItem(checklistId: string, checkItemId: string): Promise<TrelloApiResponse<void>> {
+    return this.journaled('deleteCheckItem', [checklistId, checkItemId], { type: 'checkItem', id: checkItemId }, `/checklists/${checklistId}/checkItems/${checkItemId}`, () =>
+      this.makeRequest<void>(
+        `/checklists/${checklistId}/checkItems/${checkItemId}`,
+        { method: 'DELETE' },
+        `Delete check item ${checkItemId} from checklist ${checklistId}`
+      ));
+  }
+
+  async createLabel(boardId: string, name: string, color: string): Promise<TrelloApiResponse<TrelloLabel>> {
+    return this.journaled('createLabel', [boardId, name, color], { type: 'label', id: null }, null, () =>
+      this.makeRequest<TrelloLabel>(
+        '/labels',
+        {
+          method: 'POST',
+          params: { name, color, idBoard: boardId }
+        },
+        `Create label "${name}" on board ${boardId}`
+      ));
+  }
+
+  async getLabel(labelId: string): Promise<TrelloApiResponse<TrelloLabel>> {
     return this.makeRequest<TrelloLabel>(
       `/labels/${labelId}`,
-      {
-        method: 'PUT',
-        params: updates
-      },
-      `Update label ${labelId}`
+      {},
+      `Get label ${labelId}`
     );
   }
 
+  async updateLabel(labelId: string, updates: { name?: string; color?: string }): Promise<TrelloApiResponse<TrelloLabel>> {
+    return this.journaled('updateLabel', [labelId, updates], { type: 'label', id: labelId }, `/labels/${labelId}`, () =>
+      this.makeRequest<TrelloLabel>(
+        `/labels/${labelId}`,
+        {
+          method: 'PUT',
+          params: updates
+        },
+        `Update label ${labelId}`
+      ));
+  }
+
   async addLabelToCard(cardId: string, labelId: string): Promise<TrelloApiResponse<string[]>> {
     const params = { value: labelId };
-    return this.makeRequest<string[]>(
-      `/cards/${cardId}/idLabels`,
-      {
-        method: 'POST',
-        params
-      },
-      `Add label ${labelId} to card ${cardId}`
-    );
+    return this.journaled('addLabelToCard', [cardId, labelId], { type: 'card', id: cardId }, `/cards/${cardId}`, () =>
+      this.makeRequest<string[]>(
+        `/cards/${cardId}/idLabels`,
+        {
+          method: 'POST',
+          params
+        },
+        `Add label ${labelId} to card ${cardId}`
+      ));
   }
 
   async removeLabelFromCard(cardId: string, labelId: string): Promise<TrelloApiResponse<void>> {
-    return this.makeRequest<void>(
-      `/cards/${cardId}/idLabels/${labelId}`,
-      { method: 'DELETE' },
-      `Remove label ${labelId} from card ${cardId}`
-    );
+    return this.journaled('removeLabelFromCard', [cardId, labelId], { type: 'card', id: cardId }, `/cards/${cardId}`, () =>
+      this.makeRequest<void>(
+        `/cards/${cardId}/idLabels/${labelId}`,
+        { method: 'DELETE' },
+        `Remove label ${labelId} from card ${cardId}`
+      ));
   }
-}
\ No newline at end of file
+
+  private toBatchItem<T>(result: Record<string, unknown>): TrelloBatchItem<T> {
+    if ('200' in result) {
+      return { ok: true, data: result['200'] as T };
+    }
+
+    // Failures come back either as { "404": "message" } or as an error object
+    const statusKey = Object.keys(result).find(key => /^\d{3}$/.test(key));
+    const status = statusKey ? parseInt(statusKey, 10) : Number(result.statusCode) || 500;
+    const statusText = String(statusKey ? result[statusKey] : result.message ?? 'Batch item failed');
+
+    return { ok: false, error: this.handleError({ status, statusText }) };
+  }
+
+  /**
+   * Fetches several GET routes (e.g. `/boards/{id}/lists`) through `/1/batch`,
+   * ten at a time. Items are returned in request order and fail individually,
+   * so one missing card does not fail the whole call.
+   */
+  async batch<T = unknown>(urls: string[]): Promise<TrelloApiResponse<TrelloBatchItem<T>[]>> {
+    const items = new Array<TrelloBatchItem<T>>(urls.length);
+    const keys = urls.map(url => {
+      const { endpoint, params } = splitBatchURL(url);
+      return this.cache.enabled ? cacheKey(this.credentials, endpoint, params) : undefined;
+    });
+
+    // Out-of-scope items fail on their own without being requested
+    const refused = new Set<number>();
+    if (this.scope.active) {
+      await Promise.all(urls.map(async (url, index) => {
+        const { endpoint, params } = splitBatchURL(url);
+        try {
+          await this.scope.authorize(endpoint, 'GET', params);
+        } catch (error) {
+          items[index] = { ok: false, error: error as TrelloError };
+          refused.add(index);
+        }
+      }));
+    }
+
+    const pending: number[] = [];
+    urls.forEach((_url, index) => {
+      if (refused.has(index)) return;
+      const key = keys[index];
+      const cached = key ? this.cache.get<T>(key) : undefined;
+      if (cached !== undefined) {
+        items[index] = { ok: true, data: structuredClone(cached) };
+      } else {
+        pending.push(index);
+      }
+    });
+
+    const chunks: number[][] = [];
+    for (let start = 0; start < pending.length; start += BATCH_LIMIT) {
+      chunks.push(pending.slice(start, start + BATCH_LIMIT));
+    }
+
+    const responses = await Promise.all(chunks.map(chunk => this.makeRequest<Record<string, unknown>[]>(
+      '/batch',
+      {
+        // Commas separate the routes, so escape the ones inside each route
+        params: { urls: chunk.map(index => urls[index].replace(/,/g, '%2C')).join(',') },
+        skipCache: true,
+        skipScope: true
+      },
+      `Batch ${chunk.length} request(s)`
+    )));
+
+    let rateLimit: RateLimitInfo | undefined;
+    responses.forEach((response, chunkIndex) => {
+      rateLimit = response.rateLimit ?? rateLimit;
+      chunks[chunkIndex].forEach((index, position) => {
+        const item = this.toBatchItem<T>(response.data[position] ?? {});
+        const key = keys[index];
+        if (item.ok && key) {
+          this.cache.set(key, structuredClone(item.data), collectTags(splitBatchURL(urls[index]).endpoint, item.data));
+        }
+        items[index] = item;
+      });
+    });
+
+    if (this.scope.active) {
+      await Promise.all(items.map(async (item, index) => {
+        if (item.ok) item.data = await this.scope.filter(splitBatchURL(urls[index]).endpoint, item.data);
+      }));
+    }
+
+    return {
+      data: items,
+      rateLimit,
+      fromCache: urls.length > 0 && pending.length === 0
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export type FixtureMode = 'record' | 'replay';
+
+// Query parameters that carry credentials and must never reach a fixture file
+const SECRET_PARAMS = ['key', 'token'];
+
+// Headers worth replaying; everything else (cookies, tracing IDs) is noise
+const RECORDED_HEADERS = /^(content-type|retry-after|x-rate-limit-.*)$/i;
+
+export interface Fixture {
+  request: {
+    method: string;
+    // Path and query relative to the API root, with credentials removed
+    url: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+/**
+ * Thrown in replay mode when a request has no recorded response left.
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(method: string, url: string, file: string) {
+    super(`No recorded fixture for ${method} ${url} in ${file}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Strips the API root and the key/token parameters from a request URL.
+ */
+export function scrubURL(url: string, baseURL: string): string {
+  const parsed = new URL(url);
+  SECRET_PARAMS.forEach(name => parsed.searchParams.delete(name));
+  parsed.searchParams.sort();
+
+  const root = new URL(baseURL).pathname.replace(/\/+$/, '');
+  const path = parsed.pathname.startsWith(`${root}/`) ? parsed.pathname.slice(root.length) : parsed.pathname;
+  const query = parsed.searchParams.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+function parseJSON(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function requestKey(method: string, url: string, body: unknown): string {
+  return JSON.stringify([method.toUpperCase(), url, body ?? null]);
+}
+
+/**
+ * Request/response pairs stored in one JSON file. In record mode every live
+ * response is appended and the file rewritten; in replay mode each request is
+ * answered by the first unused recording with the same method, URL and body,
+ * so a test that repeats a request sees each recorded response in turn.
+ */
+export class FixtureStore {
+  private fixtures: Fixture[];
+  private replayed = new Set<number>();
+
+  constructor(
+    readonly file: string,
+    readonly mode: FixtureMode
+  ) {
+    // A recording session replaces whatever the file held before
+    this.fixtures = mode === 'replay' && existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) as Fixture[] : [];
+  }
+
+  get size(): number {
+    return this.fixtures.length;
+  }
+
+  async handle(url: string, init: RequestInit, baseURL: string, live: () => Promise<Response>): Promise<Response> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const scrubbed = scrubURL(url, baseURL);
+    const body = typeof init.body === 'string' ? parseJSON(init.body) : undefined;
+
+    if (this.mode === 'replay') {
+      return this.replay(method, scrubbed, body);
+    }
+
+    const response = await live();
+    const text = await response.clone().text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (RECORDED_HEADERS.test(name)) headers[name.toLowerCase()] = value;
+    });
+
+    this.fixtures.push({
+      request: { method, url: scrubbed, ...(body !== undefined && { body }) },
+      response: { status: response.status, statusText: response.statusText, headers, body: parseJSON(text) }
+    });
+    this.save();
+    return response;
+  }
+
+  private replay(method: string, url: string, body: unknown): Response {
+    const key = requestKey(method, url, body);
+    const index = this.fixtures.findIndex((fixture, position) =>
+      !this.replayed.has(position) && requestKey(fixture.request.method, fixture.request.url, fixture.request.body) === key);
+    if (index === -1) {
+      throw new FixtureNotFoundError(method, url, this.file);
+    }
+    this.replayed.add(index);
+
+    const { response } = this.fixtures[index];
+    const text = response.body === undefined ? null : typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+    return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  private save() {
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, `${JSON.stringify(this.fixtures, null, 2)}\n`);
+  }
+}
+
+const storesByFile = new Map<string, FixtureStore>();
+
+/**
+ * The store selected by TRELLO_FIXTURES=record|replay and TRELLO_FIXTURES_FILE,
+ * shared by every client in the process. Undefined when fixtures are off.
+ */
+export function fixturesFromEnv(): FixtureStore | undefined {
+  const mode = process.env.TRELLO_FIXTURES;
+  const file = process.env.TRELLO_FIXTURES_FILE;
+  if ((mode !== 'record' && mode !== 'replay') || !file) {
+    return undefined;
+  }
+
+  const id = `${mode}:${file}`;
+  let store = storesByFile.get(id);
+  if (!store) {
+    store = new FixtureStore(file, mode);
+    storesByFile.set(id, store);
+  }
+  return store;
+}
@@ -0,0 +1,138 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+export type JournalEntityType = 'board' | 'card' | 'list' | 'label' | 'checklist' | 'checkItem' | 'comment';
+
+export interface JournalEntity {
+  type: JournalEntityType;
+  // Null for a create that failed before Trello assigned an ID
+  id: string | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  time: string;
+  // credentialScope() of the credentials that made the change; history and
+  // undo only show a caller the entries made with its own credentials
+  identity?: string;
+  // Tool call that made the change, with credentials left out; absent when
+  // the client was used outside a tool call
+  tool?: string;
+  toolArgs?: unknown;
+  // TrelloClient method and the arguments it was called with
+  operation: string;
+  args: unknown[];
+  entity: JournalEntity;
+  // The entity as Trello returned it just before the change; null for
+  // creates and when the lookup failed
+  before: unknown;
+  result?: unknown;
+  error?: string;
+  // Entry this change reverted, for changes made by trello_undo
+  undoOf?: string;
+}
+
+export type NewJournalEntry = Omit<JournalEntry, 'id' | 'time' | 'tool' | 'toolArgs' | 'undoOf'>;
+
+export interface JournalContext {
+  tool: string;
+  args: unknown;
+  undoOf?: string;
+}
+
+// Tool call in progress, so client writes can be attributed to it
+const journalContext = new AsyncLocalStorage<JournalContext>();
+
+// Tool arguments that must never be written to the journal
+const HIDDEN_ARGUMENTS = new Set(['apiKey', 'token']);
+
+function visibleArgs(args: unknown): unknown {
+  if (args === null || typeof args !== 'object' || Array.isArray(args)) return args;
+  return Object.fromEntries(Object.entries(args).filter(([key]) => !HIDDEN_ARGUMENTS.has(key)));
+}
+
+/**
+ * Runs `fn` with every journal entry it writes attributed to `context`.
+ */
+export function runInJournalContext<T>(context: JournalContext, fn: () => T): T {
+  return journalContext.run({ ...context, args: visibleArgs(context.args) }, fn);
+}
+
+export function currentJournalContext(): JournalContext | undefined {
+  return journalContext.getStore();
+}
+
+/**
+ * Append-only JSONL log of the writes made through TrelloClient, one entry
+ * per line. Nothing is ever rewritten; undoing a change appends a new entry.
+ */
+export class Journal {
+  constructor(readonly file: string) {}
+
+  append(entry: NewJournalEntry): JournalEntry {
+    const context = journalContext.getStore();
+    const written: JournalEntry = {
+      id: randomBytes(6).toString('hex'),
+      time: new Date().toISOString(),
+      ...(context && { tool: context.tool, toolArgs: context.args }),
+      ...entry,
+      ...(context?.undoOf && { undoOf: context.undoOf })
+    };
+
+    mkdirSync(dirname(this.file), { recursive: true });
+    appendFileSync(this.file, `${JSON.stringify(written)}\n`, { encoding: 'utf8', mode: 0o600 });
+    return written;
+  }
+
+  /**
+   * Entries oldest first. Lines that do not parse, such as a write cut short
+   * by a crash, are skipped.
+   */
+  entries(): JournalEntry[] {
+    if (!existsSync(this.file)) return [];
+
+    return readFileSync(this.file, 'utf8').split('\n').flatMap(line => {
+      if (!line.trim()) return [];
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        return entry && typeof entry.id === 'string' ? [entry] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  find(id: string): JournalEntry | undefined {
+    return this.entries().find(entry => entry.id === id);
+  }
+}
+
+const journalsByFile = new Map<string, Journal>();
+
+/**
+ * Path of the journal: TRELLO_JOURNAL_FILE, or ~/.trello-mcp/journal.jsonl.
+ * Undefined when TRELLO_JOURNAL_FILE is "off".
+ */
+export function journalFilePath(): string | undefined {
+  const file = process.env.TRELLO_JOURNAL_FILE || join(homedir(), '.trello-mcp', 'journal.jsonl');
+  return file === 'off' ? undefined : file;
+}
+
+/**
+ * The journal at journalFilePath(), shared by every client in the process.
+ * Undefined when journaling is off.
+ */
+export function journalFromEnv(): Journal | undefined {
+  const file = journalFilePath();
+  if (!file) return undefined;
+
+  let journal = journalsByFile.get(file);
+  if (!journal) {
+    journal = new Journal(file);
+    journalsByFile.set(file, journal);
+  }
+  return journal;
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'node:crypto';
+import type { TrelloCredentials } from '../types/trello.js';
+
+// Trello allows 300 requests per 10 seconds per API key and 100 per token
+const DEFAULT_INTERVAL_MS = 10_000;
+const DEFAULT_KEY_LIMIT = 300;
+const DEFAULT_TOKEN_LIMIT = 100;
+
+export interface RateLimitGovernorConfig {
+  intervalMs: number;
+  keyLimit: number;
+  tokenLimit: number;
+}
+
+interface QueuedRequest {
+  scopes: [string, string];
+  run: () => void;
+}
+
+/**
+ * Continuously refilling bucket: `capacity` tokens per `intervalMs`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+
+  constructor(
+    private capacity: number,
+    private intervalMs: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.intervalMs);
+    this.lastRefill = now;
+  }
+
+  msUntilAvailable(now = Date.now()): number {
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * this.intervalMs) / this.capacity);
+  }
+
+  take(now = Date.now()) {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  /**
+   * Adopts the server's view of the window. Trello counts requests we cannot
+   * see (other processes sharing the key), so never trust a higher local count.
+   */
+  sync(remaining: number, capacity?: number, intervalMs?: number) {
+    if (capacity && capacity > 0) this.capacity = capacity;
+    if (intervalMs && intervalMs > 0) this.intervalMs = intervalMs;
+    this.refill(Date.now());
+    this.tokens = Math.min(this.tokens, remaining);
+  }
+
+  block(ms: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+}
+
+function scope(kind: 'key' | 'token', secret: string): string {
+  return `${kind}:${createHash('sha256').update(secret).digest('hex').slice(0, 16)}`;
+}
+
+function headerNumber(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  if (value === null) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Paces Trello requests across every client in the process with one token
+ * bucket per API key and one per token. Requests queue in FIFO order and are
+ * released as soon as both of their buckets have capacity.
+ */
+export class RateLimitGovernor {
+  private buckets = new Map<string, TokenBucket>();
+  private queue: QueuedRequest[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private config: RateLimitGovernorConfig;
+
+  constructor(config: Partial<RateLimitGovernorConfig> = {}) {
+    this.config = {
+      intervalMs: config.intervalMs ?? DEFAULT_INTERVAL_MS,
+      keyLimit: config.keyLimit ?? DEFAULT_KEY_LIMIT,
+      tokenLimit: config.tokenLimit ?? DEFAULT_TOKEN_LIMIT
+    };
+  }
+
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  private scopes(credentials: TrelloCredentials): [string, string] {
+    return [scope('key', credentials.apiKey), scope('token', credentials.token)];
+  }
+
+  private bucket(name: string): TokenBucket {
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      const limit = name.startsWith('key:') ? this.config.keyLimit : this.config.tokenLimit;
+      bucket = new TokenBucket(limit, this.config.intervalMs);
+      this.buckets.set(name, bucket);
+    }
+    return bucket;
+  }
+
+  schedule<T>(credentials: TrelloCredentials, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        scopes: this.scopes(credentials),
+        run: () => task().then(resolve, reject)
+      });
+      this.drain();
+    });
+  }
+
+  private drain() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    const blocked = new Set<string>();
+    let nextWait = Infinity;
+
+    this.queue = this.queue.filter(request => {
+      // Keep FIFO order per scope: once a scope is waiting, later requests for it wait too
+      if (request.scopes.some(name => blocked.has(name))) return true;
+
+      const waits = request.scopes.map(name => this.bucket(name).msUntilAvailable(now));
+      const wait = Math.max(...waits);
+      if (wait > 0) {
+        // Only the exhausted buckets hold back later requests
+        request.scopes.forEach((name, index) => waits[index] > 0 && blocked.add(name));
+        nextWait = Math.min(nextWait, wait);
+        return true;
+      }
+
+      request.scopes.forEach(name => this.bucket(name).take(now));
+      request.run();
+      return false;
+    });
+
+    if (this.queue.length > 0 && Number.isFinite(nextWait)) {
+      this.timer = setTimeout(() => this.drain(), nextWait);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Feeds the X-Rate-Limit headers of a response back into the buckets.
+   */
+  observe(credentials: TrelloCredentials, headers: Headers) {
+    const [keyScope, tokenScope] = this.scopes(credentials);
+
+    for (const [name, prefix] of [[keyScope, 'x-rate-limit-api-key'], [tokenScope, 'x-rate-limit-api-token']] as const) {
+      const remaining = headerNumber(headers, `${prefix}-remaining`);
+      if (remaining === undefined) continue;
+
+      this.bucket(name).sync(
+        remaining,
+        headerNumber(headers, `${prefix}-max-requests`),
+        headerNumber(headers, `${prefix}-interval-ms`)
+      );
+    }
+  }
+
+  /**
+   * Holds every request for these credentials after a 429 until Trello's
+   * Retry-After has passed.
+   */
+  throttle(credentials: TrelloCredentials, retryAfterMs: number) {
+    this.scopes(credentials).forEach(name => this.bucket(name).block(retryAfterMs));
+    this.drain();
+  }
+}
+
+export const rateLimitGovernor = new RateLimitGovernor();
@@ -0,0 +1,388 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { TrelloClient } from './client.js';
+import type { TrelloBoard, TrelloError, TrelloLabel, TrelloList } from '../types/trello.js';
+import { rankMatches } from '../utils/fuzzy.js';
+import { extractCredentials } from '../utils/validation.js';
+
+export type ReferenceKind = 'board' | 'list' | 'card' | 'label';
+
+interface ReferenceField {
+  kind: ReferenceKind;
+  array?: boolean;
+}
+
+interface Candidate {
+  id: string;
+  name: string;
+  context?: string;
+}
+
+/**
+ * Tool argument names that hold a Trello ID and may instead be given as a
+ * name, a URL or a shortLink.
+ */
+export const referenceFields: Record<string, ReferenceField> = {
+  boardId: { kind: 'board' },
+  idBoard: { kind: 'board' },
+  boardIds: { kind: 'board', array: true },
+  // Destination board; unlike boardId it does not narrow list and label names
+  targetBoardId: { kind: 'board' },
+  sourceBoardId: { kind: 'board' },
+  cardId: { kind: 'card' },
+  cardIds: { kind: 'card', array: true },
+  listId: { kind: 'list' },
+  idList: { kind: 'list' },
+  labelId: { kind: 'label' },
+  idLabels: { kind: 'label', array: true }
+};
+
+const referenceHints: Record<ReferenceKind, string> = {
+  board: 'Accepts a board ID, a board name or a Trello board URL.',
+  list: 'Accepts a list ID or a list name.',
+  card: 'Accepts a card ID, a card name, a card shortLink or a Trello card URL.',
+  label: 'Accepts a label ID, a label name or a label color.'
+};
+
+// Resolution order, so boards are known before the lists, cards and labels on them
+const kindOrder: ReferenceKind[] = ['board', 'card', 'list', 'label'];
+
+// Fuzzy matches scoring within this margin of the best one are ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+const MAX_LISTED_CANDIDATES = 10;
+
+const TRELLO_ID_PATTERN = /^[a-f0-9]{24}$/i;
+const SHORT_LINK_PATTERN = /^[A-Za-z0-9]{8}$/;
+const TRELLO_URL_PATTERN = /^https?:\/\/(?:www\.)?trello\.com\/([bc])\/([A-Za-z0-9]+)/i;
+
+export class ReferenceResolutionError extends Error {
+  readonly code: 'AMBIGUOUS_REFERENCE' | 'REFERENCE_NOT_FOUND';
+  readonly candidates: Candidate[];
+
+  constructor(message: string, code: 'AMBIGUOUS_REFERENCE' | 'REFERENCE_NOT_FOUND', candidates: Candidate[] = []) {
+    super(message);
+    this.name = 'ReferenceResolutionError';
+    this.code = code;
+    this.candidates = candidates;
+  }
+}
+
+export function isTrelloId(value: unknown): value is string {
+  return typeof value === 'string' && TRELLO_ID_PATTERN.test(value);
+}
+
+export function parseTrelloUrl(value: string): { type: 'board' | 'card'; shortLink: string } | undefined {
+  const match = TRELLO_URL_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  return {
+    type: match[1].toLowerCase() === 'b' ? 'board' : 'card',
+    shortLink: match[2]
+  };
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as TrelloError).code === 'NOT_FOUND';
+}
+
+function describeCandidate(candidate: Candidate): string {
+  const context = candidate.context ? ` on ${candidate.context}` : '';
+  return `"${candidate.name}"${context} (${candidate.id})`;
+}
+
+const sameName = (reference: string, name: string) => reference.trim().toLowerCase() === name.trim().toLowerCase();
+
+/**
+ * Picks the candidate a name refers to. With `exact`, only a case-insensitive
+ * match of the whole name counts; close names are listed but never chosen.
+ */
+function pickCandidate(kind: ReferenceKind, reference: string, candidates: Candidate[], exact = false): Candidate {
+  const ranked = rankMatches(reference, candidates, candidate => candidate.name);
+  const matches = exact ? ranked.filter(match => sameName(reference, match.item.name)) : ranked;
+
+  if (exact && matches.length === 0) {
+    const closest = ranked.slice(0, MAX_LISTED_CANDIDATES).map(match => match.item);
+    throw new ReferenceResolutionError(
+      `No ${kind} is named exactly "${reference}"; tools that need confirmation only accept exact names or IDs.${closest.length > 0 ? ` Close matches: ${closest.map(describeCandidate).join(', ')}` : ''}`,
+      'REFERENCE_NOT_FOUND',
+      closest
+    );
+  }
+
+  if (matches.length === 0) {
+    const available = candidates.slice(0, MAX_LISTED_CANDIDATES).map(describeCandidate).join(', ');
+    throw new ReferenceResolutionError(
+      `No ${kind} matches "${reference}".${available ? ` Available: ${available}` : ''}`,
+      'REFERENCE_NOT_FOUND',
+      candidates.slice(0, MAX_LISTED_CANDIDATES)
+    );
+  }
+
+  const identical = matches.filter(match => match.score === 1);
+  const contenders = identical.length > 0
+    ? identical
+    : matches.filter(match => matches[0].score - match.score < AMBIGUITY_MARGIN);
+
+  if (contenders.length === 1) {
+    return contenders[0].item;
+  }
+
+  const ambiguous = contenders.slice(0, MAX_LISTED_CANDIDATES).map(match => match.item);
+  throw new ReferenceResolutionError(
+    `"${reference}" matches ${contenders.length} ${kind}s: ${ambiguous.map(describeCandidate).join(', ')}. Use one of these IDs or a more specific name.`,
+    'AMBIGUOUS_REFERENCE',
+    ambiguous
+  );
+}
+
+function listCandidates(lists: TrelloList[]): Candidate[] {
+  return lists.map(list => ({ id: list.id, name: list.name }));
+}
+
+function labelCandidates(labels: TrelloLabel[]): Candidate[] {
+  return labels.map(label => ({ id: label.id, name: label.name || label.color }));
+}
+
+/**
+ * Turns board, list, card and label references into Trello IDs. Lookups are
+ * memoized for the lifetime of the resolver, which is a single tool call.
+ */
+export class ReferenceResolver {
+  private client: TrelloClient;
+  // Destructive tool calls only accept exact names
+  private exact: boolean;
+  private boards?: Promise<TrelloBoard[]>;
+  private boardLists = new Map<string, Promise<Candidate[]>>();
+  private boardLabels = new Map<string, Promise<Candidate[]>>();
+  private cardBoards = new Map<string, Promise<string>>();
+
+  constructor(client: TrelloClient, exact = false) {
+    this.client = client;
+    this.exact = exact;
+  }
+
+  private getBoards(): Promise<TrelloBoard[]> {
+    this.boards ??= this.client.getMyBoards('all').then(response => response.data);
+    return this.boards;
+  }
+
+  private getListCandidates(boardId: string): Promise<Candidate[]> {
+    if (!this.boardLists.has(boardId)) {
+      this.boardLists.set(boardId, this.client.getBoardLists(boardId).then(response => listCandidates(response.data)));
+    }
+    return this.boardLists.get(boardId)!;
+  }
+
+  private getLabelCandidates(boardId: string): Promise<Candidate[]> {
+    if (!this.boardLabels.has(boardId)) {
+      this.boardLabels.set(boardId, this.client.getBoardLabels(boardId).then(response => labelCandidates(response.data)));
+    }
+    return this.boardLabels.get(boardId)!;
+  }
+
+  /**
+   * Loads the lists or labels of every open board through /batch, ten boards
+   * per request, skipping boards the token cannot read.
+   */
+  private async acrossOpenBoards(kind: 'lists' | 'labels'): Promise<Candidate[]> {
+    const boards = (await this.getBoards()).filter(board => !board.closed);
+    const memo = kind === 'lists' ? this.boardLists : this.boardLabels;
+    const missing = boards.filter(board => !memo.has(board.id));
+
+    if (missing.length > 0) {
+      const urls = missing.map(board => kind === 'lists' ? `/boards/${board.id}/lists?filter=open` : `/boards/${board.id}/labels`);
+      const fetched = this.client.batch<TrelloList[] | TrelloLabel[]>(urls);
+      missing.forEach((board, index) => memo.set(board.id, fetched.then(response => {
+        const item = response.data[index];
+        if (!item.ok) return [];
+        return kind === 'lists' ? listCandidates(item.data as TrelloList[]) : labelCandidates(item.data as TrelloLabel[]);
+      })));
+    }
+
+    const perBoard = await Promise.all(boards.map(async board =>
+      (await memo.get(board.id)!).map(candidate => ({ ...candidate, context: `board "${board.name}"` }))
+    ));
+    return perBoard.flat();
+  }
+
+  async getCardBoardId(cardId: string): Promise<string> {
+    if (!this.cardBoards.has(cardId)) {
+      this.cardBoards.set(cardId, this.client.getCard(cardId).then(response => response.data.idBoard));
+    }
+    return this.cardBoards.get(cardId)!;
+  }
+
+  async resolveBoard(reference: string): Promise<string> {
+    if (isTrelloId(reference)) return reference;
+
+    const url = parseTrelloUrl(reference);
+    if (url?.type === 'board') {
+      return (await this.client.getBoard(url.shortLink)).data.id;
+    }
+    if (url?.type === 'card') {
+      return this.getCardBoardId(url.shortLink);
+    }
+
+    const boards = await this.getBoards();
+    const candidates = boards.map(board => ({
+      id: board.id,
+      name: board.name,
+      ...(board.closed && { context: 'the archive' })
+    }));
+    return pickCandidate('board', reference, candidates, this.exact).id;
+  }
+
+  async resolveCard(reference: string, boardId?: string): Promise<string> {
+    if (isTrelloId(reference)) return reference;
+
+    const url = parseTrelloUrl(reference);
+    const shortLink = url?.type === 'card'
+      ? url.shortLink
+      : SHORT_LINK_PATTERN.test(reference) ? reference : undefined;
+
+    if (shortLink) {
+      try {
+        const card = (await this.client.getCard(shortLink)).data;
+        this.cardBoards.set(card.id, Promise.resolve(card.idBoard));
+        return card.id;
+      } catch (error) {
+        // A bare 8-character value may just be a short card name
+        if (url || !isNotFound(error)) throw error;
+      }
+    }
+
+    const cards = boardId
+      ? (await this.client.getBoardCards(boardId)).data
+      : (await this.client.search(reference, { modelTypes: ['cards'], cardsLimit: 50 })).data.cards ?? [];
+
+    const card = pickCandidate('card', reference, cards.map(card => ({ id: card.id, name: card.name })), this.exact);
+    return card.id;
+  }
+
+  async resolveList(reference: string, boardId?: string, strict = true): Promise<string> {
+    if (isTrelloId(reference)) return reference;
+
+    if (boardId) {
+      try {
+        return pickCandidate('list', reference, await this.getListCandidates(boardId), this.exact).id;
+      } catch (error) {
+        if (strict || !(error instanceof ReferenceResolutionError) || error.code !== 'REFERENCE_NOT_FOUND') throw error;
+      }
+    }
+
+    return pickCandidate('list', reference, await this.acrossOpenBoards('lists'), this.exact).id;
+  }
+
+  async resolveLabel(reference: string, boardId?: string): Promise<string> {
+    if (isTrelloId(reference)) return reference;
+
+    const candidates = boardId
+      ? await this.getLabelCandidates(boardId)
+      : await this.acrossOpenBoards('labels');
+    return pickCandidate('label', reference, candidates, this.exact).id;
+  }
+}
+
+function needsResolution(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(needsResolution);
+  return typeof value === 'string' && value.length > 0 && !isTrelloId(value);
+}
+
+/**
+ * Replaces every name, URL or shortLink in the reference fields of a tool
+ * call with the matching Trello ID. Arguments that already hold IDs are
+ * returned untouched without any API calls. With `exact`, names must match
+ * in full, so a typo cannot point a destructive tool at the wrong entity.
+ */
+export async function resolveToolReferences(args: unknown, exact = false): Promise<unknown> {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return args;
+  }
+
+  const record = args as Record<string, unknown>;
+  const pending = Object.keys(record).filter(field => field in referenceFields && needsResolution(record[field]));
+  if (pending.length === 0) {
+    return args;
+  }
+
+  const { credentials } = extractCredentials(args);
+  const resolver = new ReferenceResolver(new TrelloClient(credentials), exact);
+  const resolved: Record<string, unknown> = { ...record };
+
+  // Board context for list, card and label names: an explicit board wins,
+  // otherwise the board of the card being operated on is used
+  const explicitBoard = (): string | undefined => [resolved.boardId, resolved.idBoard].find(isTrelloId);
+  const boardContext = async (): Promise<string | undefined> => {
+    const board = explicitBoard();
+    if (board) return board;
+    return isTrelloId(resolved.cardId) ? resolver.getCardBoardId(resolved.cardId) : undefined;
+  };
+
+  const resolveOne = async (kind: ReferenceKind, reference: string): Promise<string> => {
+    switch (kind) {
+      case 'board':
+        return resolver.resolveBoard(reference);
+      case 'card':
+        return resolver.resolveCard(reference, explicitBoard());
+      case 'list':
+        return resolver.resolveList(reference, await boardContext(), explicitBoard() !== undefined);
+      case 'label':
+        return resolver.resolveLabel(reference, await boardContext());
+    }
+  };
+
+  for (const kind of kindOrder) {
+    for (const field of pending.filter(name => referenceFields[name].kind === kind)) {
+      const value = resolved[field];
+      try {
+        resolved[field] = Array.isArray(value)
+          ? await Promise.all(value.map(item => typeof item === 'string' ? resolveOne(kind, item) : item))
+          : await resolveOne(kind, value as string);
+      } catch (error) {
+        if (error instanceof ReferenceResolutionError) {
+          throw new ReferenceResolutionError(`${field}: ${error.message}`, error.code, error.candidates);
+        }
+        throw error;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Relaxes the 24-character ID pattern on reference fields of a tool's input
+ * schema and documents the other accepted forms.
+ */
+export function withReferenceSupport(tool: Tool): Tool {
+  const properties = tool.inputSchema.properties as Record<string, Record<string, unknown>> | undefined;
+  if (!properties || !Object.keys(properties).some(field => field in referenceFields)) {
+    return tool;
+  }
+
+  const relaxed: Record<string, Record<string, unknown>> = {};
+  for (const [field, property] of Object.entries(properties)) {
+    const reference = referenceFields[field];
+    if (!reference) {
+      relaxed[field] = property;
+      continue;
+    }
+
+    const { pattern: _pattern, items, description, ...rest } = property;
+    const hint = referenceHints[reference.kind];
+    relaxed[field] = {
+      ...rest,
+      ...(items !== undefined && {
+        items: Object.fromEntries(Object.entries(items as Record<string, unknown>).filter(([key]) => key !== 'pattern'))
+      }),
+      description: description ? `${String(description).replace(/\.?$/, '.')} ${hint}` : hint
+    };
+  }
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: relaxed
+    }
+  };
+}
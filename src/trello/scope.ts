@@ -0,0 +1,185 @@
+import type { TrelloError } from '../types/trello.js';
+
+const TRELLO_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+/**
+ * Boards a client may touch: the listed board IDs plus every board of the
+ * listed workspaces. An empty scope allows everything.
+ */
+export interface BoardScope {
+  boards: string[];
+  workspaces: string[];
+}
+
+/**
+ * Raised before any out-of-scope request reaches Trello. It is an Error so
+ * tool handlers report its message, and carries the TrelloError fields.
+ */
+export class ScopeError extends Error implements TrelloError {
+  readonly code = 'FORBIDDEN_SCOPE';
+  readonly status = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScopeError';
+  }
+}
+
+function parseList(value: string | undefined): string[] {
+  return value?.split(',').map(item => item.trim()).filter(Boolean) ?? [];
+}
+
+/**
+ * Scope from TRELLO_ALLOWED_BOARDS and TRELLO_ALLOWED_WORKSPACES
+ * (comma-separated IDs).
+ */
+export function boardScopeFromEnv(env: NodeJS.ProcessEnv = process.env): BoardScope {
+  return {
+    boards: parseList(env.TRELLO_ALLOWED_BOARDS),
+    workspaces: parseList(env.TRELLO_ALLOWED_WORKSPACES)
+  };
+}
+
+// Fetches a Trello object without scope checks (the guard's own lookups)
+export type ScopeLookup = <T>(endpoint: string, params: Record<string, string>) => Promise<T>;
+
+interface BoardRef {
+  id: string;
+  idOrganization?: string | null;
+}
+
+/**
+ * Enforces a BoardScope for one client. `authorize` works out which board a
+ * request touches (looking up cards, lists, labels and checklists by ID) and
+ * throws a ScopeError when it is not allowed; `filter` drops out-of-scope
+ * boards and cards from listing and search responses.
+ */
+export class ScopeGuard {
+  private boardsById = new Map<string, Promise<BoardRef>>();
+  private boardOf = new Map<string, Promise<string>>();
+
+  constructor(
+    private scope: BoardScope,
+    private lookup: ScopeLookup
+  ) {}
+
+  get active(): boolean {
+    return this.scope.boards.length > 0 || this.scope.workspaces.length > 0;
+  }
+
+  private board(idOrShortLink: string): Promise<BoardRef> {
+    let board = this.boardsById.get(idOrShortLink);
+    if (!board) {
+      board = this.lookup<BoardRef>(`/boards/${idOrShortLink}`, { fields: 'id,idOrganization' });
+      this.boardsById.set(idOrShortLink, board);
+    }
+    return board;
+  }
+
+  // idBoard of a card, list, label or checklist
+  private parentBoard(kind: 'cards' | 'lists' | 'labels' | 'checklists', id: string): Promise<string> {
+    const key = `${kind}/${id}`;
+    let boardId = this.boardOf.get(key);
+    if (!boardId) {
+      boardId = this.lookup<{ idBoard: string }>(`/${kind}/${id}`, { fields: 'idBoard' }).then(entity => entity.idBoard);
+      this.boardOf.set(key, boardId);
+    }
+    return boardId;
+  }
+
+  async isBoardAllowed(board: BoardRef | string): Promise<boolean> {
+    const id = typeof board === 'string' ? board : board.id;
+    if (this.scope.boards.includes(id)) return true;
+    if (this.scope.workspaces.length === 0 && TRELLO_ID_PATTERN.test(id)) return false;
+
+    // Short links and workspace membership need the board itself
+    const resolved = typeof board !== 'string' && board.idOrganization !== undefined ? board : await this.board(id);
+    return this.scope.boards.includes(resolved.id) ||
+      (!!resolved.idOrganization && this.scope.workspaces.includes(resolved.idOrganization));
+  }
+
+  private async assertBoard(boardId: string | undefined, what: string) {
+    if (!boardId || !(await this.isBoardAllowed(boardId))) {
+      throw new ScopeError(`${what} is outside the boards this server is allowed to access`);
+    }
+  }
+
+  async authorize(endpoint: string, method: string, params: Record<string, string> = {}, body: Record<string, unknown> = {}) {
+    const [, kind, id] = endpoint.split('/');
+    const input = { ...params, ...body } as Record<string, unknown>;
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+    switch (kind) {
+      // Listings and search are filtered instead; batch items are checked one by one
+      case 'members':
+      case 'search':
+      case 'batch':
+        return;
+      case 'boards':
+        if (id) return this.assertBoard(id, `Board ${id}`);
+        // New boards can only be created inside an allowed workspace
+        if (method === 'GET' || !this.scope.workspaces.includes(text(input.idOrganization) ?? '')) {
+          throw new ScopeError('Creating boards outside the allowed workspaces is not permitted');
+        }
+        // and a copy must not read a board outside the scope
+        if (input.idBoardSource !== undefined) await this.assertBoard(text(input.idBoardSource), 'The source board');
+        return;
+      case 'cards':
+        if (id) {
+          await this.assertBoard(await this.parentBoard('cards', id), `Card ${id}`);
+          // Moves send the card to the board of its new list, or to idBoard
+          if (method !== 'GET' && input.idList !== undefined) {
+            await this.assertBoard(await this.parentBoard('lists', String(input.idList)), 'The target list');
+          }
+          if (method !== 'GET' && input.idBoard !== undefined) await this.assertBoard(text(input.idBoard), 'The target board');
+          return;
+        }
+        return this.assertBoard(input.idList ? await this.parentBoard('lists', String(input.idList)) : undefined, 'The target list');
+      case 'lists':
+        if (id) {
+          await this.assertBoard(await this.parentBoard('lists', id), `List ${id}`);
+          // Writes that send cards or the list itself to another board need that board too
+          if (method !== 'GET' && input.idBoard !== undefined) await this.assertBoard(text(input.idBoard), 'The target board');
+          return;
+        }
+        return this.assertBoard(text(input.idBoard), 'The target board');
+      case 'labels':
+        if (id) return this.assertBoard(await this.parentBoard('labels', id), `Label ${id}`);
+        return this.assertBoard(text(input.idBoard), 'The target board');
+      case 'checklists':
+        if (id) return this.assertBoard(await this.parentBoard('checklists', id), `Checklist ${id}`);
+        return this.assertBoard(input.idCard ? await this.parentBoard('cards', String(input.idCard)) : undefined, 'The target card');
+      default:
+        throw new ScopeError(`${endpoint} is not covered by the board scope`);
+    }
+  }
+
+  private async allowedBoards<T extends BoardRef>(boards: T[]): Promise<T[]> {
+    const allowed = await Promise.all(boards.map(board => this.isBoardAllowed(board)));
+    return boards.filter((_board, index) => allowed[index]);
+  }
+
+  async filter<T>(endpoint: string, data: T): Promise<T> {
+    const [, kind] = endpoint.split('/');
+
+    if (kind === 'members') {
+      if (Array.isArray(data)) {
+        return await this.allowedBoards(data as BoardRef[]) as T;
+      }
+      const member = data as { boards?: BoardRef[] };
+      return member?.boards ? { ...data, boards: await this.allowedBoards(member.boards) } : data;
+    }
+
+    if (kind === 'search') {
+      const results = data as { boards?: BoardRef[]; cards?: Array<{ idBoard: string }> };
+      const cardBoards = await Promise.all((results.cards ?? []).map(card => this.isBoardAllowed(card.idBoard)));
+      return {
+        ...data,
+        ...(results.boards && { boards: await this.allowedBoards(results.boards) }),
+        ...(results.cards && { cards: results.cards.filter((_card, index) => cardBoards[index]) })
+      };
+    }
+
+    return data;
+  }
+}
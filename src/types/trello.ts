@@ -32,6 +32,8 @@ export interface TrelloList {
   pos: number;
   subscribed: boolean;
   idBoard: string;
+  // Soft WIP limit: Trello warns once the list holds more cards than this
+  softLimit?: number | null;
   cards?: TrelloCard[];
 }
 
@@ -48,6 +50,8 @@ export interface TrelloCard {
   dateLastActivity: string;
   due: string | null;
   dueComplete: boolean;
+  idLabels?: string[];
+  idMembers?: string[];
   labels: TrelloLabel[];
   members: TrelloMember[];
   checklists: TrelloChecklist[];
@@ -139,6 +143,8 @@ export interface UpdateCardRequest {
   due?: string | null | undefined;
   dueComplete?: boolean | undefined;
   idList?: string | undefined;
+  // Needed alongside idList when the list is on another board
+  idBoard?: string | undefined;
   pos?: number | string | undefined;
   idMembers?: string[] | undefined;
   idLabels?: string[] | undefined;
@@ -146,9 +152,66 @@ export interface UpdateCardRequest {
 
 export interface MoveCardRequest {
   idList: string;
+  // Needed alongside idList when the list is on another board
+  idBoard?: string | undefined;
   pos?: number | string | undefined;
 }
 
+export interface CreateBoardRequest {
+  name: string;
+  desc?: string | undefined;
+  // Workspace (organization) that owns the board
+  idOrganization?: string | undefined;
+  // Trello adds "To Do", "Doing" and "Done" unless this is false
+  defaultLists?: boolean | undefined;
+}
+
+export interface CopyBoardRequest {
+  name: string;
+  idOrganization?: string | undefined;
+  // "cards" copies the open cards too; lists and labels are always copied
+  keepFromSource: 'cards' | 'none';
+}
+
+export interface UpdateBoardRequest {
+  name?: string | undefined;
+  desc?: string | undefined;
+  prefs?: { [Pref in keyof TrelloBoard['prefs']]?: TrelloBoard['prefs'][Pref] | undefined } | undefined;
+}
+
+export interface UpdateListRequest {
+  name?: string | undefined;
+  pos?: number | string | undefined;
+  softLimit?: number | null | undefined;
+}
+
+export interface CreateChecklistRequest {
+  idCard: string;
+  name: string;
+  pos?: number | string | undefined;
+}
+
+export interface UpdateChecklistRequest {
+  name?: string | undefined;
+  pos?: number | string | undefined;
+}
+
+export interface CreateCheckItemRequest {
+  name: string;
+  pos?: number | string | undefined;
+  checked?: boolean | undefined;
+  due?: string | undefined;
+  idMember?: string | undefined;
+}
+
+export interface UpdateCheckItemRequest {
+  name?: string | undefined;
+  state?: 'complete' | 'incomplete' | undefined;
+  pos?: number | string | undefined;
+  due?: string | null | undefined;
+  idMember?: string | null | undefined;
+}
+
 export interface TrelloError {
   message: string;
   error?: string;
@@ -165,8 +228,15 @@ export interface RateLimitInfo {
 export interface TrelloApiResponse<T> {
   data: T;
   rateLimit?: RateLimitInfo | undefined;
+  // True when the data was served from the response cache without calling the API
+  fromCache?: boolean | undefined;
 }
 
+// One entry of a /batch response, in the same order as the requested URLs
+export type TrelloBatchItem<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: TrelloError };
+
 export interface TrelloOrganization {
   id: string;
   name: string;
@@ -0,0 +1,173 @@
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { TrelloCredentials } from '../types/trello.js';
+
+// Values of the form "env:NAME" are read from the environment, so the file
+// itself does not have to hold secrets
+const secretSchema = z.string().min(1).transform((value, context) => {
+  if (!value.startsWith('env:')) return value;
+  const resolved = process.env[value.slice('env:'.length)];
+  if (!resolved) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: `environment variable ${value.slice('env:'.length)} is not set` });
+    return z.NEVER;
+  }
+  return resolved;
+});
+
+export const accountsFileSchema = z.object({
+  default: z.string().optional(),
+  accounts: z.record(z.object({
+    apiKey: secretSchema,
+    token: secretSchema,
+    description: z.string().optional()
+  }))
+});
+
+export type AccountsFile = z.infer<typeof accountsFileSchema>;
+
+export interface AccountSummary {
+  name: string;
+  description?: string | undefined;
+  isDefault: boolean;
+}
+
+let cached: { path: string; mtimeMs: number; config: AccountsFile } | undefined;
+
+/**
+ * Path of the account profiles file: TRELLO_ACCOUNTS_FILE, or
+ * ~/.trello-mcp/accounts.json.
+ */
+export function accountsFilePath(): string {
+  return process.env.TRELLO_ACCOUNTS_FILE || join(homedir(), '.trello-mcp', 'accounts.json');
+}
+
+/**
+ * Reads the profiles file, re-parsing it only when it changes on disk.
+ * Returns undefined when there is no file.
+ */
+export function loadAccounts(): AccountsFile | undefined {
+  const path = accountsFilePath();
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  const { mtimeMs } = statSync(path);
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) {
+    return cached.config;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid accounts file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = accountsFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid accounts file ${path}: ${issue.path.join('.')}: ${issue.message}`);
+  }
+  if (parsed.data.default && !(parsed.data.default in parsed.data.accounts)) {
+    throw new Error(`Invalid accounts file ${path}: default account "${parsed.data.default}" is not defined`);
+  }
+
+  cached = { path, mtimeMs, config: parsed.data };
+  return parsed.data;
+}
+
+function defaultAccountName(config: AccountsFile): string | undefined {
+  if (config.default) return config.default;
+  const names = Object.keys(config.accounts);
+  return names.length === 1 ? names[0] : undefined;
+}
+
+export function listAccounts(): AccountSummary[] {
+  const config = loadAccounts();
+  if (!config) return [];
+
+  const defaultName = defaultAccountName(config);
+  return Object.entries(config.accounts).map(([name, account]) => ({
+    name,
+    description: account.description,
+    isDefault: name === defaultName
+  }));
+}
+
+/**
+ * Credentials of the named profile. Unknown names fail with the list of
+ * configured ones so the caller can correct the argument.
+ */
+export function resolveAccount(name: unknown): TrelloCredentials {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('account must be the name of a configured Trello account');
+  }
+
+  const config = loadAccounts();
+  const account = config?.accounts[name];
+  if (!account) {
+    const known = config ? Object.keys(config.accounts) : [];
+    throw new Error(known.length > 0
+      ? `Unknown Trello account "${name}". Configured accounts: ${known.join(', ')}`
+      : `Unknown Trello account "${name}". No accounts are configured in ${accountsFilePath()}`);
+  }
+
+  return { apiKey: account.apiKey, token: account.token };
+}
+
+/**
+ * Credentials of the default profile (the `default` entry, or the only
+ * profile), if there is one.
+ */
+export function defaultAccount(): TrelloCredentials | undefined {
+  const config = loadAccounts();
+  const name = config && defaultAccountName(config);
+  return name ? resolveAccount(name) : undefined;
+}
+
+/**
+ * Adds or replaces a profile in the accounts file, keeping the other entries
+ * exactly as written (including env: references). The file is created
+ * readable by the owner only.
+ */
+export function saveAccount(
+  name: string,
+  credentials: TrelloCredentials & { description?: string },
+  options: { makeDefault?: boolean } = {}
+): string {
+  const path = accountsFilePath();
+  const existing = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) as Partial<AccountsFile> : {};
+  const accounts = { ...existing.accounts, [name]: credentials };
+  const config = {
+    ...existing,
+    ...(options.makeDefault && { default: name }),
+    accounts
+  };
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+  cached = undefined;
+  return path;
+}
+
+/**
+ * Adds the optional `account` argument to a tool's input schema.
+ */
+export function withAccountSupport(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        account: {
+          type: 'string',
+          description: 'Name of the Trello account profile to use (see trello_list_accounts). Defaults to the default profile.'
+        }
+      }
+    }
+  };
+}
@@ -1,4 +1,6 @@
 // Application Insights - No-op implementation for basic usage
+import { redact, redactString } from './redact.js';
+
 interface TelemetryData {
   [key: string]: any;
 }
@@ -26,43 +28,53 @@ class ApplicationInsights {
     }
   }
 
-  trackEvent(_name: string, _properties?: TelemetryData, _measurements?: TelemetryData) {
+  trackEvent(name: string, properties?: TelemetryData, measurements?: TelemetryData) {
     if (!this.isEnabled) return;
-    // No-op implementation - could be extended with actual tracking
+    this.send('event', { name, properties, measurements });
   }
 
-  trackRequest(_name: string, _url: string, _duration: number, _resultCode: string | number, _success: boolean, _properties?: TelemetryData) {
+  trackRequest(name: string, url: string, duration: number, resultCode: string | number, success: boolean, properties?: TelemetryData) {
     if (!this.isEnabled) return;
-    // No-op implementation
+    this.send('request', { name, url, duration, resultCode, success, properties });
   }
 
-  trackDependency(_dependencyTypeName: string, _name: string, _data: string, _duration: number, _success: boolean, _resultCode?: string, _properties?: TelemetryData) {
+  trackDependency(dependencyTypeName: string, name: string, data: string, duration: number, success: boolean, resultCode?: string, properties?: TelemetryData) {
     if (!this.isEnabled) return;
-    // No-op implementation
+    this.send('dependency', { dependencyTypeName, name, data, duration, success, resultCode, properties });
   }
 
-  trackException(exception: Error, _properties?: TelemetryData) {
+  trackException(exception: Error, properties?: TelemetryData) {
     if (!this.isEnabled) return;
-    // No-op implementation - could log to console in development
+    this.send('exception', { exception, properties });
     if (process.env.NODE_ENV === 'development') {
-      console.error('Exception tracked:', exception.message);
+      console.error('Exception tracked:', redactString(exception.message));
     }
   }
 
-  trackMetric(_name: string, _value: number, _properties?: TelemetryData) {
+  trackMetric(name: string, value: number, properties?: TelemetryData) {
     if (!this.isEnabled) return;
-    // No-op implementation
+    this.send('metric', { name, value, properties });
   }
 
-  trackTrace(_message: string, _severity?: number, _properties?: TelemetryData) {
+  trackTrace(message: string, severity?: number, properties?: TelemetryData) {
     if (!this.isEnabled) return;
-    // No-op implementation
+    this.send('trace', { message, severity, properties });
   }
 
   flush() {
     if (!this.isEnabled) return;
     // No-op implementation
   }
+
+  // Every record goes through redact() so URLs, messages and properties
+  // never carry API keys, tokens or email addresses
+  private send(kind: string, telemetry: TelemetryData) {
+    this.record(kind, redact(telemetry));
+  }
+
+  private record(_kind: string, _telemetry: TelemetryData) {
+    // No-op implementation - could be extended with actual tracking
+  }
 }
 
 export const insights = new ApplicationInsights();
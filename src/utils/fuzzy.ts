@@ -0,0 +1,70 @@
+export interface FuzzyMatch<T> {
+  item: T;
+  score: number;
+}
+
+// Matches scoring below this are treated as unrelated
+const MIN_SCORE = 0.6;
+
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Scores how well `query` matches `name`, from 0 (unrelated) to 1 (same name
+ * once case, accents and punctuation are ignored).
+ */
+export function similarity(query: string, name: string): number {
+  const normalizedQuery = normalizeName(query);
+  const normalizedName = normalizeName(name);
+
+  if (!normalizedQuery || !normalizedName) return 0;
+  if (normalizedQuery === normalizedName) return 1;
+
+  const longest = Math.max(normalizedQuery.length, normalizedName.length);
+  const editScore = 1 - levenshtein(normalizedQuery, normalizedName) / longest;
+
+  const containsScore = normalizedName.includes(normalizedQuery)
+    ? 0.75 + 0.2 * (normalizedQuery.length / normalizedName.length)
+    : 0;
+
+  const queryTokens = new Set(normalizedQuery.split(' '));
+  const nameTokens = new Set(normalizedName.split(' '));
+  const sharedTokens = [...queryTokens].filter(token => nameTokens.has(token)).length;
+  const tokenScore = 0.8 * (sharedTokens / new Set([...queryTokens, ...nameTokens]).size);
+
+  return Math.max(editScore, containsScore, tokenScore);
+}
+
+export function rankMatches<T>(query: string, items: T[], getName: (item: T) => string): FuzzyMatch<T>[] {
+  return items
+    .map(item => ({ item, score: similarity(query, getName(item)) }))
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
@@ -3,6 +3,12 @@ type Request = any;
 type Response = any;
 import { insights } from './appInsights.js';
 import { logger } from './logger.js';
+import { listTools } from '../tools/registry.js';
+import { rateLimitGovernor } from '../trello/rateLimiter.js';
+import { resolveBaseURL } from '../trello/client.js';
+
+// Requests waiting on the rate-limit governor before we report degraded
+const MAX_HEALTHY_QUEUE_DEPTH = 50;
 
 export interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -33,6 +39,9 @@ export interface HealthStatus {
       status: 'active' | 'inactive';
       tools: number;
     };
+    rateLimiter: {
+      queueDepth: number;
+    };
   };
   performance: {
     cpuUsage: NodeJS.CpuUsage;
@@ -63,7 +72,7 @@ export class HealthChecker {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
       
-      const response = await fetch('https://api.trello.com/1/', {
+      const response = await fetch(`${resolveBaseURL()}/`, {
         method: 'HEAD',
         signal: controller.signal
       });
@@ -95,7 +104,9 @@ export class HealthChecker {
     }
 
     // Degraded conditions
-    if (memoryUtilization > 80 || (healthData.performance.avgResponseTime && healthData.performance.avgResponseTime > 1000)) {
+    if (memoryUtilization > 80 ||
+        (healthData.performance.avgResponseTime && healthData.performance.avgResponseTime > 1000) ||
+        healthData.services.rateLimiter.queueDepth > MAX_HEALTHY_QUEUE_DEPTH) {
       return 'degraded';
     }
 
@@ -133,11 +144,14 @@ export class HealthChecker {
       services: {
         trello: {
           status: trelloStatus,
-          endpoint: 'https://api.trello.com/1/'
+          endpoint: `${resolveBaseURL()}/`
         },
         mcp: {
           status: 'active', // Assume active if health check is running
-          tools: 7 // Number of MCP tools available
+          tools: listTools().length
+        },
+        rateLimiter: {
+          queueDepth: rateLimitGovernor.queueDepth
         }
       },
       performance: {
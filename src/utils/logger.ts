@@ -1,3 +1,5 @@
+import { redact, redactString } from './redact.js';
+
 interface LogContext {
   [key: string]: any;
 }
@@ -12,7 +14,9 @@ enum LogLevel {
 class Logger {
   private level: LogLevel;
 
-  constructor() {
+  // A silent logger drops everything, for callers whose stdout is not a log
+  // stream (the CLI commands print their own output there)
+  constructor(private readonly silent = false) {
     const envLevel = process.env.LOG_LEVEL?.toUpperCase();
     switch (envLevel) {
       case 'DEBUG':
@@ -33,7 +37,7 @@ class Logger {
   }
 
   private log(level: LogLevel, message: string, context?: LogContext) {
-    if (level < this.level) return;
+    if (this.silent || level < this.level) return;
 
     // Desktop version: Disable all logging to stdout
     // Only log to stderr if explicitly enabled
@@ -47,8 +51,8 @@ class Logger {
     const logEntry = {
       timestamp,
       level: levelName,
-      message,
-      ...(context && { context })
+      message: redactString(message),
+      ...(context && { context: redact(context) })
     };
 
     console.log(JSON.stringify(logEntry));
@@ -91,4 +95,5 @@ class Logger {
 }
 
 export const logger = new Logger();
-export type { LogContext };
\ No newline at end of file
+export const silentLogger = new Logger(true);
+export type { LogContext, Logger };
\ No newline at end of file
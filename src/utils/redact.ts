@@ -0,0 +1,64 @@
+export const REDACTED = '[REDACTED]';
+
+// Object keys whose values are always secrets, whatever they look like
+const SECRET_KEYS = /^(api[-_]?key|key|token|apitoken|authorization|password|secret|x-trello-api-key|x-trello-token|oauth_consumer_key|oauth_token)$/i;
+
+const PATTERNS: RegExp[] = [
+  // key=... and token=... in URLs and query strings
+  /(?<=[?&](?:key|token)=)[^&#\s"']+/gi,
+  // OAuth header parameters: oauth_consumer_key="...", oauth_token="..."
+  /(?<=oauth_(?:consumer_key|token)=)"?[^",\s]+"?/gi,
+  // Trello tokens (ATTA... or 64 hex characters) and API keys (32 hex characters)
+  /\bATTA[A-Fa-f0-9]{56,}\b/g,
+  /\b[A-Fa-f0-9]{64}\b/g,
+  /\b[A-Fa-f0-9]{32}\b/g,
+  // Email addresses
+  /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+];
+
+/**
+ * Replaces credentials and email addresses inside free text.
+ */
+export function redactString(text: string): string {
+  return PATTERNS.reduce((result, pattern) => result.replace(pattern, REDACTED), text);
+}
+
+/**
+ * Deep copy of `value` that is safe to emit: secret-named fields are replaced
+ * wholesale and every string is passed through redactString(). Used by the
+ * logger and telemetry so no record can carry an API key, token or email.
+ */
+export function redact<T>(value: T): T {
+  return redactValue(value, new WeakSet()) as T;
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const error = new Error(redactString(value.message));
+    error.name = value.name;
+    if (value.stack) error.stack = redactString(value.stack);
+    return error;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, seen));
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEYS.test(key) && item !== undefined && item !== null ? REDACTED : redactValue(item, seen)
+  ]));
+}
@@ -1,6 +1,7 @@
 import { z } from 'zod';
+import { defaultAccount, resolveAccount } from './accounts.js';
 
-const trelloIdSchema = z.string().regex(/^[a-f0-9]{24}$/i, 'Must be a valid 24-character Trello ID');
+export const trelloIdSchema = z.string().regex(/^[a-f0-9]{24}$/i, 'Must be a valid 24-character Trello ID');
 const trelloIdOptionalSchema = z.string().regex(/^[a-f0-9]{24}$/i, 'Must be a valid 24-character Trello ID').optional();
 
 export const credentialsSchema = z.object({
@@ -22,6 +23,45 @@ export const getBoardListsSchema = z.object({
   filter: z.enum(['all', 'open', 'closed']).optional().default('open')
 });
 
+export const createBoardSchema = z.object({
+  name: z.string().min(1, 'Board name is required').max(16384, 'Board name too long'),
+  desc: z.string().max(16384, 'Description too long').optional(),
+  idOrganization: trelloIdOptionalSchema,
+  defaultLists: z.boolean().optional().default(true)
+});
+
+const boardAudienceSchema = z.enum(['disabled', 'members', 'observers', 'org', 'public']);
+
+export const boardPrefsSchema = z.object({
+  permissionLevel: z.enum(['private', 'org', 'public']).optional(),
+  voting: boardAudienceSchema.optional(),
+  comments: boardAudienceSchema.optional(),
+  invitations: z.enum(['members', 'admins']).optional(),
+  selfJoin: z.boolean().optional(),
+  cardCovers: z.boolean().optional(),
+  background: z.enum(['blue', 'orange', 'green', 'red', 'purple', 'pink', 'lime', 'sky', 'grey']).optional()
+}).strict();
+
+export const updateBoardSchema = z.object({
+  boardId: trelloIdSchema,
+  name: z.string().min(1).max(16384).optional(),
+  desc: z.string().max(16384).optional(),
+  prefs: boardPrefsSchema.optional()
+}).refine(args => args.name !== undefined || args.desc !== undefined || Object.keys(args.prefs ?? {}).length > 0, {
+  message: 'Give at least one of name, desc or prefs'
+});
+
+export const closeBoardSchema = z.object({
+  boardId: trelloIdSchema
+});
+
+export const copyBoardSchema = z.object({
+  sourceBoardId: trelloIdSchema,
+  name: z.string().min(1, 'Board name is required').max(16384, 'Board name too long'),
+  idOrganization: trelloIdOptionalSchema,
+  keepFromSource: z.enum(['cards', 'none']).optional().default('none')
+});
+
 export const createCardSchema = z.object({
   name: z.string().min(1, 'Card name is required').max(16384, 'Card name too long'),
   desc: z.string().max(16384, 'Description too long').optional(),
@@ -36,10 +76,12 @@ export const updateCardSchema = z.object({
   cardId: trelloIdSchema,
   name: z.string().min(1).max(16384).optional(),
   desc: z.string().max(16384).optional(),
-  closed: z.boolean().optional(),
+  // Archiving and moving go through their own tools, so they cannot skip the
+  // confirmation those tools ask for
+  closed: z.never({ errorMap: () => ({ message: 'Use trello_archive_card or trello_restore_card to archive or restore a card' }) }).optional(),
   due: z.string().datetime().nullable().optional(),
   dueComplete: z.boolean().optional(),
-  idList: trelloIdOptionalSchema,
+  idList: z.never({ errorMap: () => ({ message: 'Use move_card to move a card to another list' }) }).optional(),
   pos: z.union([z.number().min(0), z.enum(['top', 'bottom'])]).optional(),
   idMembers: z.array(trelloIdSchema).optional(),
   idLabels: z.array(trelloIdSchema).optional()
@@ -56,10 +98,17 @@ export const getCardSchema = z.object({
   includeDetails: z.boolean().optional().default(false)
 });
 
-export const deleteCardSchema = z.object({
+// Tools that take nothing but the card: archive, restore, delete
+export const cardIdSchema = z.object({
   cardId: trelloIdSchema
 });
 
+export const confirmDeleteCardSchema = cardIdSchema.extend({
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: 'Must be true to permanently delete the card' })
+  })
+});
+
 type ArgumentRecord = Record<string, unknown>;
 
 export function extractCredentials(args: unknown) {
@@ -67,12 +116,20 @@ export function extractCredentials(args: unknown) {
     throw new Error('Tool arguments must be an object.');
   }
 
-  const { apiKey: argApiKey, token: argToken, ...rest } = (args as ArgumentRecord) ?? {};
+  const { apiKey: argApiKey, token: argToken, account, ...rest } = (args as ArgumentRecord) ?? {};
 
-  const credentials = credentialsSchema.parse({
-    apiKey: argApiKey ?? process.env.TRELLO_API_KEY,
-    token: argToken ?? process.env.TRELLO_TOKEN
-  });
+  // A named profile wins; otherwise explicit or environment credentials, and
+  // the default profile only when neither is set
+  const apiKey = argApiKey ?? process.env.TRELLO_API_KEY;
+  const token = argToken ?? process.env.TRELLO_TOKEN;
+  const fallback = apiKey === undefined && token === undefined ? defaultAccount() : undefined;
+
+  const credentials = account !== undefined
+    ? resolveAccount(account)
+    : credentialsSchema.parse({
+      apiKey: apiKey ?? fallback?.apiKey,
+      token: token ?? fallback?.token
+    });
 
   return {
     credentials,
@@ -96,6 +153,22 @@ export function validateGetBoardLists(data: unknown) {
   return getBoardListsSchema.parse(data);
 }
 
+export function validateCreateBoard(data: unknown) {
+  return createBoardSchema.parse(data);
+}
+
+export function validateUpdateBoard(data: unknown) {
+  return updateBoardSchema.parse(data);
+}
+
+export function validateCloseBoard(data: unknown) {
+  return closeBoardSchema.parse(data);
+}
+
+export function validateCopyBoard(data: unknown) {
+  return copyBoardSchema.parse(data);
+}
+
 export function validateCreateCard(data: unknown) {
   return createCardSchema.parse(data);
 }
@@ -112,8 +185,12 @@ export function validateGetCard(data: unknown) {
   return getCardSchema.parse(data);
 }
 
-export function validateDeleteCard(data: unknown) {
-  return deleteCardSchema.parse(data);
+export function validateCardId(data: unknown) {
+  return cardIdSchema.parse(data);
+}
+
+export function validateConfirmDeleteCard(data: unknown) {
+  return confirmDeleteCardSchema.parse(data);
 }
 
 export function formatValidationError(error: z.ZodError): string {
@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { jest } from '@jest/globals';
+import { listAccounts, resolveAccount } from '../src/utils/accounts.js';
+import { extractCredentials } from '../src/utils/validation.js';
+import { handleTrelloListAccounts } from '../src/tools/accounts.js';
+import { callTool, listTools } from '../src/tools/registry.js';
+import { TrelloClient } from '../src/trello/client';
+
+const accountsFile = {
+  default: 'work',
+  accounts: {
+    work: { apiKey: 'workKey', token: 'workToken', description: 'Day job' },
+    client: { apiKey: 'clientKey', token: 'env:CLIENT_TRELLO_TOKEN' }
+  }
+};
+
+describe('Account profiles', () => {
+  const originalEnv = { ...process.env };
+  let dir: string;
+
+  function writeAccounts(config: unknown) {
+    // A fresh file name per write so the mtime cache never serves stale data
+    const file = join(dir, `accounts-${Math.random().toString(36).slice(2)}.json`);
+    writeFileSync(file, JSON.stringify(config));
+    process.env.TRELLO_ACCOUNTS_FILE = file;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'trello-accounts-'));
+    delete process.env.TRELLO_API_KEY;
+    delete process.env.TRELLO_TOKEN;
+    process.env.CLIENT_TRELLO_TOKEN = 'clientToken';
+    writeAccounts(accountsFile);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve the named account, reading env: secrets', () => {
+    expect(extractCredentials({ account: 'client', boardId: 'x' })).toEqual({
+      credentials: { apiKey: 'clientKey', token: 'clientToken' },
+      params: { boardId: 'x' }
+    });
+  });
+
+  it('should prefer the named account over explicit credentials', () => {
+    const { credentials } = extractCredentials({ apiKey: 'argKey', token: 'argToken', account: 'client' });
+
+    expect(credentials.apiKey).toBe('clientKey');
+  });
+
+  it('should fall back to the default account only without other credentials', () => {
+    expect(extractCredentials({}).credentials).toEqual({ apiKey: 'workKey', token: 'workToken' });
+
+    process.env.TRELLO_API_KEY = 'envKey';
+    process.env.TRELLO_TOKEN = 'envToken';
+    expect(extractCredentials({}).credentials).toEqual({ apiKey: 'envKey', token: 'envToken' });
+  });
+
+  it('should name the configured accounts when one is unknown', () => {
+    expect(() => resolveAccount('personal')).toThrow('Unknown Trello account "personal". Configured accounts: work, client');
+  });
+
+  it('should reject a default that is not defined', () => {
+    writeAccounts({ default: 'missing', accounts: {} });
+
+    expect(() => listAccounts()).toThrow(/default account "missing" is not defined/);
+  });
+
+  it('should list the profiles without their secrets', async () => {
+    const result = await handleTrelloListAccounts({});
+    const payload = JSON.parse(result.content[0].text);
+
+    expect(payload.accounts).toEqual([
+      { name: 'work', description: 'Day job', isDefault: true },
+      { name: 'client', isDefault: false }
+    ]);
+    expect(result.content[0].text).not.toContain('workToken');
+  });
+
+  it('should verify each profile against Trello on request', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getCurrentUser')
+      .mockResolvedValueOnce({ data: { username: 'worker', fullName: 'Work Me' } as any })
+      .mockRejectedValueOnce({ message: 'Invalid or expired Trello credentials.' });
+
+    const result = await handleTrelloListAccounts({ verify: true });
+    const payload = JSON.parse(result.content[0].text);
+
+    expect(payload.accounts[0]).toMatchObject({ name: 'work', username: 'worker' });
+    expect(payload.accounts[1]).toMatchObject({ name: 'client', error: 'Invalid or expired Trello credentials.' });
+  });
+
+  it('should advertise the account argument on every credentialed tool', () => {
+    const tools = listTools();
+    const withAccount = tools.filter(tool => 'account' in (tool.inputSchema.properties ?? {}));
+
+    expect(withAccount).toHaveLength(tools.length - 1);
+    expect(listTools({ accounts: false }).some(tool => 'account' in (tool.inputSchema.properties ?? {}))).toBe(false);
+  });
+
+  it('should hide and refuse the account list when profiles are disabled', async () => {
+    const verifySpy = jest.spyOn(TrelloClient.prototype, 'getCurrentUser');
+
+    const result = await callTool('trello_list_accounts', { verify: true }, {}, undefined, false);
+
+    expect(listTools({ accounts: false }).map(tool => tool.name)).not.toContain('trello_list_accounts');
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      'Error: tool "trello_list_accounts" is not available on this server because account profiles are disabled'
+    );
+    expect(result.content[0].text).not.toContain('Day job');
+    expect(verifySpy).not.toHaveBeenCalled();
+  });
+});
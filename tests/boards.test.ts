@@ -1,10 +1,29 @@
-import { handleListBoards, handleGetBoardDetails, handleGetLists } from '../src/tools/boards.js';
+import {
+  handleListBoards,
+  handleGetBoardDetails,
+  handleGetLists,
+  handleTrelloCreateBoard,
+  handleTrelloUpdateBoard,
+  describeCloseBoard,
+  handleTrelloCopyBoard
+} from '../src/tools/boards.js';
 import { jest } from '@jest/globals';
 import { TrelloClient } from '../src/trello/client';
 
 const MOCK_BOARD_ID = '1a2b3c4d5e6f7a8b9c0d1e2f';
 const MOCK_LIST_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
 const MOCK_CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
+const MOCK_WORKSPACE_ID = '5a1b2c3d4e5f6a7b8c9d0e1f';
+
+const mockBoard = (name: string) => ({
+  id: MOCK_BOARD_ID,
+  name,
+  desc: '',
+  shortUrl: 'https://trello.com/b/abc',
+  dateLastActivity: '2023-01-01',
+  closed: false,
+  prefs: { permissionLevel: 'org', voting: 'disabled', comments: 'members', invitations: 'members', selfJoin: true, cardCovers: true, background: 'blue' }
+}) as any;
 
 describe('Boards Tool', () => {
   afterEach(() => {
@@ -30,6 +49,17 @@ describe('Boards Tool', () => {
       expect(result.isError).toBeUndefined();
     });
 
+    test('should report when boards came from the cache', async () => {
+      jest
+        .spyOn(TrelloClient.prototype, 'getMyBoards')
+        .mockResolvedValue({ data: [], fromCache: true });
+
+      const result = await handleListBoards({ apiKey: 'testKey', token: 'testToken', filter: 'open' });
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(payload.fromCache).toBe(true);
+    });
+
     test('should handle validation error for invalid filter value', async () => {
       const args = { apiKey: 'testKey', token: 'testToken', filter: 'invalid' };
       const result = await handleListBoards(args);
@@ -117,4 +147,41 @@ describe('Boards Tool', () => {
       expect(result.content[0].text).toContain('Error getting lists: Validation error: boardId: Required');
     });
   });
+
+  describe('board lifecycle', () => {
+    test('should create a board in a workspace with the default lists', async () => {
+      const createSpy = jest.spyOn(TrelloClient.prototype, 'createBoard').mockResolvedValue({ data: mockBoard('Client A') });
+
+      const result = await handleTrelloCreateBoard({ apiKey: 'testKey', token: 'testToken', name: 'Client A', idOrganization: MOCK_WORKSPACE_ID });
+
+      expect(createSpy).toHaveBeenCalledWith({ name: 'Client A', idOrganization: MOCK_WORKSPACE_ID, defaultLists: true });
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ summary: 'Created board: Client A', board: { id: MOCK_BOARD_ID, permissions: 'org' } });
+    });
+
+    test('should reject unknown preferences and empty updates', async () => {
+      const unknown = await handleTrelloUpdateBoard({ apiKey: 'testKey', token: 'testToken', boardId: MOCK_BOARD_ID, prefs: { theme: 'dark' } });
+      const empty = await handleTrelloUpdateBoard({ apiKey: 'testKey', token: 'testToken', boardId: MOCK_BOARD_ID, prefs: {} });
+
+      expect(unknown.content[0].text).toContain("Unrecognized key(s) in object: 'theme'");
+      expect(empty.content[0].text).toContain('Give at least one of name, desc or prefs');
+    });
+
+    test('should describe what closing a board hides', async () => {
+      jest.spyOn(TrelloClient.prototype, 'getBoard').mockResolvedValue({
+        data: { ...mockBoard('Client A'), lists: [{ id: MOCK_LIST_ID }], cards: [{ id: MOCK_CARD_ID }] }
+      });
+
+      expect(await describeCloseBoard({ apiKey: 'testKey', token: 'testToken', boardId: MOCK_BOARD_ID }))
+        .toBe('Close board "Client A" with its 1 list(s) and 1 open card(s).');
+    });
+
+    test('should copy a board without its cards by default', async () => {
+      const copySpy = jest.spyOn(TrelloClient.prototype, 'copyBoard').mockResolvedValue({ data: mockBoard('Client B') });
+
+      const result = await handleTrelloCopyBoard({ apiKey: 'testKey', token: 'testToken', sourceBoardId: MOCK_BOARD_ID, name: 'Client B' });
+
+      expect(copySpy).toHaveBeenCalledWith(MOCK_BOARD_ID, { name: 'Client B', keepFromSource: 'none' });
+      expect(JSON.parse(result.content[0].text).summary).toBe(`Created board "Client B" from board ${MOCK_BOARD_ID}`);
+    });
+  });
 });
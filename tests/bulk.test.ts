@@ -0,0 +1,212 @@
+import { jest } from '@jest/globals';
+import { startFakeTrelloServer, type FakeTrelloServer } from '../src/fake/server.js';
+import { FakeTrelloState } from '../src/fake/state.js';
+import { bulkUpdateCardsSchema, handleTrelloBulkUpdateCards, previewBulkUpdateCards, describeBulkUpdateCards } from '../src/tools/bulk.js';
+import { responseCache } from '../src/trello/cache.js';
+import { TrelloClient } from '../src/trello/client.js';
+import { callTool } from '../src/tools/registry.js';
+
+const credentials = { apiKey: 'fakeKey', token: 'fakeToken' };
+const MISSING_CARD_ID = '64b7f2c5d9a1ffffffffffff';
+
+function payload(result: { content: Array<{ text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('Bulk card updates', () => {
+  let fake: FakeTrelloServer;
+  let boardId: string;
+  let todo: string;
+  let archive: string;
+  let done: string;
+  let memberId: string;
+  const originalBaseURL = process.env.TRELLO_BASE_URL;
+
+  beforeAll(async () => {
+    fake = await startFakeTrelloServer({ state: new FakeTrelloState() });
+    process.env.TRELLO_BASE_URL = fake.url;
+    memberId = fake.state.addMember('Alice Chen', 'alice').id;
+  });
+
+  afterAll(async () => {
+    if (originalBaseURL === undefined) {
+      delete process.env.TRELLO_BASE_URL;
+    } else {
+      process.env.TRELLO_BASE_URL = originalBaseURL;
+    }
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    responseCache.clear();
+    boardId = fake.state.createBoard({ name: 'Sprint' }).id;
+    todo = fake.state.createList({ name: 'To Do', idBoard: boardId }).id;
+    archive = fake.state.createList({ name: 'Archive', idBoard: boardId }).id;
+    done = fake.state.createLabel({ name: 'done', color: 'green', idBoard: boardId }).id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function card(name: string, extra: Record<string, unknown> = {}) {
+    return fake.state.createCard({ name, idList: todo, ...extra });
+  }
+
+  it('should move the cards on a board that carry a label', async () => {
+    const first = card('Ship it', { idLabels: [done] });
+    const second = card('Also shipped', { idLabels: [done] });
+    const open = card('Still going');
+
+    const result = payload(await handleTrelloBulkUpdateCards({ ...credentials, boardId, labelId: done, operation: 'move', idList: archive }));
+
+    expect(result.summary).toBe('Bulk move on 2 card(s): 2 updated, 0 unchanged, 0 failed');
+    expect(result.results.map((entry: { cardId: string }) => entry.cardId).sort()).toEqual([first.id, second.id].sort());
+    expect(fake.state.findCard(first.id).idList).toBe(archive);
+    expect(fake.state.findCard(second.id).idList).toBe(archive);
+    expect(fake.state.findCard(open.id).idList).toBe(todo);
+  });
+
+  it('should send the target board when moving cards to another board', async () => {
+    const otherBoard = fake.state.createBoard({ name: 'Next sprint' }).id;
+    const backlog = fake.state.createList({ name: 'Backlog', idBoard: otherBoard }).id;
+    const moving = card('Carry over');
+    const moveCard = jest.spyOn(TrelloClient.prototype, 'moveCard');
+    const args = { ...credentials, cardIds: [moving.id], operation: 'move', idList: backlog };
+
+    const preview = payload(await previewBulkUpdateCards(args));
+    expect(preview.changes).toEqual([{
+      field: moving.id,
+      before: { idList: todo, idBoard: boardId },
+      after: { idList: backlog, idBoard: otherBoard }
+    }]);
+
+    const result = payload(await handleTrelloBulkUpdateCards(args));
+
+    expect(result.updated).toBe(1);
+    expect(moveCard).toHaveBeenCalledWith(moving.id, { idList: backlog, idBoard: otherBoard });
+    expect(fake.state.findCard(moving.id)).toMatchObject({ idList: backlog, idBoard: otherBoard });
+  });
+
+  it('should assign explicit cards and report the ones it cannot read', async () => {
+    const first = card('One');
+    const second = card('Two', { idMembers: [memberId] });
+
+    const result = payload(await handleTrelloBulkUpdateCards({
+      ...credentials,
+      cardIds: [first.id, second.id, MISSING_CARD_ID],
+      operation: 'add_members',
+      idMembers: [memberId]
+    }));
+
+    expect(result).toMatchObject({ selected: 3, updated: 1, unchanged: 1, failed: 1 });
+    expect(result.results).toEqual([
+      { cardId: first.id, name: 'One', status: 'updated' },
+      { cardId: second.id, name: 'Two', status: 'unchanged' },
+      { cardId: MISSING_CARD_ID, status: 'failed', error: 'Resource not found' }
+    ]);
+    expect(fake.state.findCard(first.id).idMembers).toEqual([memberId]);
+  });
+
+  it('should keep going when some cards fail', async () => {
+    const cards = [card('A'), card('B'), card('C')];
+    const updateCard = TrelloClient.prototype.updateCard;
+    jest.spyOn(TrelloClient.prototype, 'updateCard').mockImplementation(function (this: TrelloClient, cardId, updates) {
+      if (cardId === cards[1].id) {
+        return Promise.reject({ message: 'Rate limit exceeded', code: 'RATE_LIMIT_EXCEEDED' });
+      }
+      return updateCard.call(this, cardId, updates);
+    });
+
+    const result = payload(await handleTrelloBulkUpdateCards({
+      ...credentials,
+      listId: todo,
+      operation: 'set_due',
+      due: '2030-01-01T00:00:00.000Z',
+      concurrency: 2
+    }));
+
+    expect(result).toMatchObject({ updated: 2, failed: 1 });
+    expect(result.results[1]).toEqual({ cardId: cards[1].id, name: 'B', status: 'failed', error: 'Rate limit exceeded' });
+    expect(fake.state.findCard(cards[0].id).due).toBe('2030-01-01T00:00:00.000Z');
+    expect(fake.state.findCard(cards[2].id).due).toBe('2030-01-01T00:00:00.000Z');
+  });
+
+  it('should archive overdue cards only', async () => {
+    const overdue = card('Late', { due: '2020-01-01T00:00:00.000Z' });
+    const upcoming = card('Soon', { due: '2099-01-01T00:00:00.000Z' });
+
+    const result = payload(await handleTrelloBulkUpdateCards({ ...credentials, listId: todo, dueFilter: 'overdue', operation: 'archive' }));
+
+    expect(result.updated).toBe(1);
+    expect(fake.state.findCard(overdue.id).closed).toBe(true);
+    expect(fake.state.findCard(upcoming.id).closed).toBe(false);
+  });
+
+  it('should replace labels and remove members', async () => {
+    const labelled = card('Labelled', { idLabels: [done], idMembers: [memberId] });
+
+    await handleTrelloBulkUpdateCards({ ...credentials, cardIds: [labelled.id], operation: 'set_labels', idLabels: [] });
+    await handleTrelloBulkUpdateCards({ ...credentials, cardIds: [labelled.id], operation: 'remove_members', idMembers: [memberId] });
+
+    expect(fake.state.findCard(labelled.id)).toMatchObject({ idLabels: [], idMembers: [] });
+  });
+
+  it('should preview and describe the change without writing', async () => {
+    const first = card('Preview', { idLabels: [done] });
+    const actions = fake.state.boardActions(boardId).length;
+    const args = { ...credentials, boardId, labelId: done, operation: 'move', idList: archive };
+
+    const preview = payload(await previewBulkUpdateCards(args));
+
+    expect(preview.summary).toBe('Dry run: would move 1 of 1 selected card(s). Nothing was changed.');
+    expect(preview.changes).toEqual([{ field: first.id, before: { idList: todo }, after: { idList: archive } }]);
+    expect(await describeBulkUpdateCards(args)).toEqual({
+      summary: 'Apply "move" to 1 card(s): "Preview".',
+      args: { ...credentials, operation: 'move', idList: archive, cardIds: [first.id] }
+    });
+    expect(fake.state.boardActions(boardId)).toHaveLength(actions);
+  });
+
+  it('should only change the cards the user confirmed', async () => {
+    const confirmed = card('Confirmed', { idLabels: [done] });
+    let late: { id: string } | undefined;
+    const confirm = async (message: string) => {
+      late = card('Added while asking', { idLabels: [done] });
+      responseCache.clear();
+      return message === 'Apply "archive" to 1 card(s): "Confirmed".';
+    };
+
+    const result = payload(await callTool('trello_bulk_update_cards', { ...credentials, boardId, labelId: done, operation: 'archive' }, undefined, confirm));
+
+    expect(result.summary).toBe('Bulk archive on 1 card(s): 1 updated, 0 unchanged, 0 failed');
+    expect(fake.state.findCard(confirmed.id).closed).toBe(true);
+    expect(fake.state.findCard(late!.id).closed).toBe(false);
+  });
+
+  it('should ask flag-based clients to confirm the pinned cards', async () => {
+    const pinned = card('Pinned', { idLabels: [done] });
+
+    const result = await callTool('trello_bulk_update_cards', { ...credentials, listId: todo, labelId: done, operation: 'archive' });
+
+    expect(result.content[0].text).toBe(
+      'Error: trello_bulk_update_cards needs confirmation before it changes Trello data. Apply "archive" to 1 card(s): "Pinned". ' +
+      `Ask the user to approve this change, then call trello_bulk_update_cards again with "confirm": true and these arguments: {"operation":"archive","cardIds":["${pinned.id}"]}.`
+    );
+    expect(fake.state.findCard(pinned.id).closed).toBe(false);
+  });
+
+  it('should accept upper-case IDs like the other tools', () => {
+    expect(bulkUpdateCardsSchema.safeParse({ cardIds: [MISSING_CARD_ID.toUpperCase()], operation: 'archive' }).success).toBe(true);
+  });
+
+  it('should need exactly one selector and the operation arguments', async () => {
+    const none = await handleTrelloBulkUpdateCards({ ...credentials, operation: 'archive' });
+    const both = await handleTrelloBulkUpdateCards({ ...credentials, listId: todo, boardId, operation: 'archive' });
+    const missing = await handleTrelloBulkUpdateCards({ ...credentials, listId: todo, operation: 'move' });
+
+    expect(none.content[0].text).toContain('Give exactly one of cardIds, listId or boardId');
+    expect(both.content[0].text).toContain('Give exactly one of cardIds, listId or boardId');
+    expect(missing.content[0].text).toContain('idList: Required for the "move" operation');
+  });
+});
@@ -1,4 +1,12 @@
-import { handleCreateCard, handleUpdateCard, handleMoveCard, handleGetCard } from '../src/tools/cards.js';
+import {
+  handleCreateCard,
+  handleUpdateCard,
+  handleMoveCard,
+  handleGetCard,
+  handleArchiveCard,
+  handleRestoreCard,
+  handleDeleteCard
+} from '../src/tools/cards.js';
 import { jest } from '@jest/globals';
 import { TrelloClient } from '../src/trello/client';
 
@@ -164,4 +172,105 @@ describe('Cards Tool', () => {
       expect(result.content[0].text).toContain('Error getting card: Validation error: cardId: Required');
     });
   });
+
+  describe('handleArchiveCard', () => {
+    test('should archive a card on success', async () => {
+      const mockCard = {
+        id: MOCK_CARD_ID,
+        name: 'Old Card',
+        shortUrl: 'url',
+        idList: MOCK_LIST_ID,
+        idBoard: MOCK_BOARD_ID,
+        closed: true
+      };
+
+      const archiveCardSpy = jest
+        .spyOn(TrelloClient.prototype, 'archiveCard')
+        .mockResolvedValue({ data: mockCard, rateLimit: { limit: 100, remaining: 99, resetTime: 123 } });
+
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID };
+      const result = await handleArchiveCard(args);
+
+      expect(archiveCardSpy).toHaveBeenCalledWith(MOCK_CARD_ID);
+
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(payload.summary).toBe('Archived card: Old Card');
+      expect(payload.card.closed).toBe(true);
+      expect(result.isError).toBeUndefined();
+    });
+
+    test('should handle validation error for invalid cardId', async () => {
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: 'invalid' };
+      const result = await handleArchiveCard(args);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error archiving card: Validation error: cardId: Must be a valid 24-character Trello ID');
+    });
+  });
+
+  describe('handleRestoreCard', () => {
+    test('should restore a card on success', async () => {
+      const mockCard = {
+        id: MOCK_CARD_ID,
+        name: 'Old Card',
+        shortUrl: 'url',
+        idList: MOCK_LIST_ID,
+        idBoard: MOCK_BOARD_ID,
+        closed: false
+      };
+
+      const restoreCardSpy = jest
+        .spyOn(TrelloClient.prototype, 'restoreCard')
+        .mockResolvedValue({ data: mockCard, rateLimit: { limit: 100, remaining: 99, resetTime: 123 } });
+
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID };
+      const result = await handleRestoreCard(args);
+
+      expect(restoreCardSpy).toHaveBeenCalledWith(MOCK_CARD_ID);
+
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(payload.summary).toBe('Restored card: Old Card');
+      expect(payload.card.closed).toBe(false);
+      expect(result.isError).toBeUndefined();
+    });
+  });
+
+  describe('handleDeleteCard', () => {
+    test('should delete a card when confirmed', async () => {
+      const mockCard = {
+        id: MOCK_CARD_ID,
+        name: 'Doomed Card',
+        idList: MOCK_LIST_ID,
+        idBoard: MOCK_BOARD_ID
+      };
+
+      const getCardSpy = jest
+        .spyOn(TrelloClient.prototype, 'getCard')
+        .mockResolvedValue({ data: mockCard });
+      const deleteCardSpy = jest
+        .spyOn(TrelloClient.prototype, 'deleteCard')
+        .mockResolvedValue({ data: undefined, rateLimit: { limit: 100, remaining: 98, resetTime: 123 } });
+
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID, confirm: true };
+      const result = await handleDeleteCard(args);
+
+      expect(getCardSpy).toHaveBeenCalledWith(MOCK_CARD_ID);
+      expect(deleteCardSpy).toHaveBeenCalledWith(MOCK_CARD_ID);
+      expect(result.content[0].text).toContain('Permanently deleted card: Doomed Card');
+      expect(result.isError).toBeUndefined();
+    });
+
+    test('should refuse to delete without confirmation', async () => {
+      const deleteCardSpy = jest.spyOn(TrelloClient.prototype, 'deleteCard');
+
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID, confirm: false };
+      const result = await handleDeleteCard(args);
+
+      expect(deleteCardSpy).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error deleting card: Validation error: confirm: Must be true to permanently delete the card');
+    });
+  });
 });
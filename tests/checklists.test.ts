@@ -0,0 +1,202 @@
+import {
+  handleTrelloCreateChecklist,
+  handleTrelloUpdateChecklist,
+  handleTrelloDeleteChecklist,
+  handleTrelloAddChecklistItem,
+  handleTrelloUpdateChecklistItem,
+  handleTrelloDeleteChecklistItem
+} from '../src/tools/checklists.js';
+import { jest } from '@jest/globals';
+import { TrelloClient } from '../src/trello/client';
+
+const MOCK_CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
+const MOCK_BOARD_ID = '1a2b3c4d5e6f7a8b9c0d1e2f';
+const MOCK_CHECKLIST_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
+const MOCK_CHECK_ITEM_ID = '0f9e8d7c6b5a4321fedcba98';
+const MOCK_MEMBER_ID = 'abcdefabcdefabcdefabcdef';
+
+describe('Checklist Tools', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('handleTrelloCreateChecklist', () => {
+    test('should create a checklist on success', async () => {
+      const mockChecklist = {
+        id: MOCK_CHECKLIST_ID,
+        name: 'Acceptance criteria',
+        idBoard: MOCK_BOARD_ID,
+        idCard: MOCK_CARD_ID,
+        pos: 16384,
+        checkItems: []
+      };
+
+      const createChecklistSpy = jest
+        .spyOn(TrelloClient.prototype, 'createChecklist')
+        .mockResolvedValue({ data: mockChecklist, rateLimit: { limit: 100, remaining: 99, resetTime: 123 } });
+
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID, name: 'Acceptance criteria', pos: 'top' };
+      const result = await handleTrelloCreateChecklist(args);
+
+      expect(createChecklistSpy).toHaveBeenCalledWith({ idCard: MOCK_CARD_ID, name: 'Acceptance criteria', pos: 'top' });
+
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(payload.summary).toContain('Created checklist "Acceptance criteria"');
+      expect(payload.checklist.cardId).toBe(MOCK_CARD_ID);
+      expect(result.isError).toBeUndefined();
+    });
+
+    test('should handle validation error for missing name', async () => {
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID };
+      const result = await handleTrelloCreateChecklist(args);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error creating checklist: Validation error: name: Required');
+    });
+  });
+
+  describe('handleTrelloUpdateChecklist', () => {
+    test('should rename a checklist on success', async () => {
+      const mockChecklist = {
+        id: MOCK_CHECKLIST_ID,
+        name: 'Definition of done',
+        idBoard: MOCK_BOARD_ID,
+        idCard: MOCK_CARD_ID,
+        pos: 1,
+        checkItems: []
+      };
+
+      const updateChecklistSpy = jest
+        .spyOn(TrelloClient.prototype, 'updateChecklist')
+        .mockResolvedValue({ data: mockChecklist });
+
+      const args = { apiKey: 'testKey', token: 'testToken', checklistId: MOCK_CHECKLIST_ID, name: 'Definition of done' };
+      const result = await handleTrelloUpdateChecklist(args);
+
+      expect(updateChecklistSpy).toHaveBeenCalledWith(MOCK_CHECKLIST_ID, { name: 'Definition of done' });
+
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(payload.summary).toBe('Updated checklist "Definition of done"');
+      expect(result.isError).toBeUndefined();
+    });
+
+    test('should require at least one change', async () => {
+      const args = { apiKey: 'testKey', token: 'testToken', checklistId: MOCK_CHECKLIST_ID };
+      const result = await handleTrelloUpdateChecklist(args);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('At least one of name or pos must be provided');
+    });
+  });
+
+  describe('handleTrelloDeleteChecklist', () => {
+    test('should delete a checklist on success', async () => {
+      const deleteChecklistSpy = jest
+        .spyOn(TrelloClient.prototype, 'deleteChecklist')
+        .mockResolvedValue({ data: undefined });
+
+      const args = { apiKey: 'testKey', token: 'testToken', checklistId: MOCK_CHECKLIST_ID };
+      const result = await handleTrelloDeleteChecklist(args);
+
+      expect(deleteChecklistSpy).toHaveBeenCalledWith(MOCK_CHECKLIST_ID);
+      expect(result.content[0].text).toContain(`Deleted checklist ${MOCK_CHECKLIST_ID}`);
+      expect(result.isError).toBeUndefined();
+    });
+  });
+
+  describe('handleTrelloAddChecklistItem', () => {
+    test('should add an item on success', async () => {
+      const mockItem = {
+        id: MOCK_CHECK_ITEM_ID,
+        name: 'Write tests',
+        state: 'incomplete' as const,
+        pos: 1,
+        due: null,
+        idMember: MOCK_MEMBER_ID
+      };
+
+      const addCheckItemSpy = jest
+        .spyOn(TrelloClient.prototype, 'addCheckItem')
+        .mockResolvedValue({ data: mockItem });
+
+      const args = {
+        apiKey: 'testKey',
+        token: 'testToken',
+        checklistId: MOCK_CHECKLIST_ID,
+        name: 'Write tests',
+        idMember: MOCK_MEMBER_ID
+      };
+      const result = await handleTrelloAddChecklistItem(args);
+
+      expect(addCheckItemSpy).toHaveBeenCalledWith(MOCK_CHECKLIST_ID, { name: 'Write tests', idMember: MOCK_MEMBER_ID });
+
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(payload.checkItem.memberId).toBe(MOCK_MEMBER_ID);
+      expect(result.isError).toBeUndefined();
+    });
+  });
+
+  describe('handleTrelloUpdateChecklistItem', () => {
+    test('should tick off an item on success', async () => {
+      const mockItem = {
+        id: MOCK_CHECK_ITEM_ID,
+        name: 'Write tests',
+        state: 'complete' as const,
+        pos: 1,
+        due: null,
+        idMember: null
+      };
+
+      const updateCheckItemSpy = jest
+        .spyOn(TrelloClient.prototype, 'updateCheckItem')
+        .mockResolvedValue({ data: mockItem });
+
+      const args = {
+        apiKey: 'testKey',
+        token: 'testToken',
+        cardId: MOCK_CARD_ID,
+        checkItemId: MOCK_CHECK_ITEM_ID,
+        state: 'complete'
+      };
+      const result = await handleTrelloUpdateChecklistItem(args);
+
+      expect(updateCheckItemSpy).toHaveBeenCalledWith(MOCK_CARD_ID, MOCK_CHECK_ITEM_ID, { state: 'complete' });
+
+      const payload = JSON.parse(result.content[0].text);
+
+      expect(payload.checkItem.state).toBe('complete');
+      expect(result.isError).toBeUndefined();
+    });
+
+    test('should handle validation error for invalid state', async () => {
+      const args = {
+        apiKey: 'testKey',
+        token: 'testToken',
+        cardId: MOCK_CARD_ID,
+        checkItemId: MOCK_CHECK_ITEM_ID,
+        state: 'done'
+      };
+      const result = await handleTrelloUpdateChecklistItem(args);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error updating checklist item: Validation error: state:');
+    });
+  });
+
+  describe('handleTrelloDeleteChecklistItem', () => {
+    test('should delete an item on success', async () => {
+      const deleteCheckItemSpy = jest
+        .spyOn(TrelloClient.prototype, 'deleteCheckItem')
+        .mockResolvedValue({ data: undefined });
+
+      const args = { apiKey: 'testKey', token: 'testToken', checklistId: MOCK_CHECKLIST_ID, checkItemId: MOCK_CHECK_ITEM_ID };
+      const result = await handleTrelloDeleteChecklistItem(args);
+
+      expect(deleteCheckItemSpy).toHaveBeenCalledWith(MOCK_CHECKLIST_ID, MOCK_CHECK_ITEM_ID);
+      expect(result.isError).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { jest } from '@jest/globals';
+import { buildAuthorizeURL, runSetup, verifyCredentials } from '../src/cli/setup.js';
+import { diagnose, runDoctor } from '../src/cli/doctor.js';
+import type { CliIO } from '../src/cli/io.js';
+import { saveAccount } from '../src/utils/accounts.js';
+import { TrelloClient } from '../src/trello/client';
+
+const API_KEY = '0123456789abcdef0123456789abcdef';
+
+// Answers the prompts in order and records everything printed
+function scriptedIO(answers: string[]): CliIO & { output: string[] } {
+  const output: string[] = [];
+  return {
+    output,
+    async ask(question, defaultValue) {
+      output.push(`? ${question}`);
+      const answer = answers.shift();
+      return answer || defaultValue || '';
+    },
+    print(line = '') {
+      output.push(line);
+    },
+    close() {}
+  };
+}
+
+describe('CLI', () => {
+  const originalEnv = { ...process.env };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'trello-cli-'));
+    process.env.TRELLO_ACCOUNTS_FILE = join(dir, 'accounts.json');
+    delete process.env.TRELLO_API_KEY;
+    delete process.env.TRELLO_TOKEN;
+    delete process.env.TRELLO_BASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('setup', () => {
+    it('should build the authorize URL for the chosen scope and expiration', () => {
+      const url = new URL(buildAuthorizeURL({ apiKey: API_KEY, scope: 'read', expiration: '30days' }));
+
+      expect(url.origin + url.pathname).toBe('https://trello.com/1/authorize');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        expiration: '30days',
+        name: 'Trello Desktop MCP',
+        scope: 'read',
+        response_type: 'token',
+        key: API_KEY
+      });
+    });
+
+    it('should validate the token and save it as the first, default profile', async () => {
+      const getCurrentUser = jest.spyOn(TrelloClient.prototype, 'getCurrentUser')
+        .mockResolvedValue({ data: { username: 'jdoe', fullName: 'Jane Doe' } as any });
+      const io = scriptedIO(['not-a-key', API_KEY, 'write', 'read', '', 'secretToken', 'work']);
+
+      await expect(runSetup(io)).resolves.toBe(0);
+
+      expect(getCurrentUser).toHaveBeenCalledTimes(1);
+      expect(io.output).toContain('Please answer one of: read, read,write');
+      expect(io.output.some(line => line.includes('scope=read&') && line.includes('expiration=never'))).toBe(true);
+      expect(JSON.parse(readFileSync(process.env.TRELLO_ACCOUNTS_FILE!, 'utf8'))).toEqual({
+        default: 'work',
+        accounts: { work: { apiKey: API_KEY, token: 'secretToken', description: '@jdoe (read)' } }
+      });
+    });
+
+    it('should save nothing when Trello rejects the token', async () => {
+      jest.spyOn(TrelloClient.prototype, 'getCurrentUser').mockRejectedValue({ message: 'Invalid or expired Trello credentials.' });
+      const io = scriptedIO([API_KEY, '', '', 'badToken']);
+
+      await expect(runSetup(io)).resolves.toBe(1);
+      expect(io.output.join('\n')).toContain('Trello rejected these credentials: Invalid or expired Trello credentials.');
+      expect(() => readFileSync(process.env.TRELLO_ACCOUNTS_FILE!)).toThrow();
+    });
+    it('should keep client logs off stdout', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ username: 'jdoe', fullName: 'Jane Doe' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+      const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      await expect(verifyCredentials({ apiKey: API_KEY, token: 'secretToken' })).resolves.toEqual({ ok: true, username: 'jdoe', fullName: 'Jane Doe' });
+      expect(consoleLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('doctor', () => {
+    it('should explain that no credentials are configured', async () => {
+      const io = scriptedIO([]);
+
+      await expect(runDoctor(io)).resolves.toBe(1);
+      expect(io.output.join('\n')).toContain('the server has no credentials');
+    });
+
+    it('should flag a half-configured environment', async () => {
+      process.env.TRELLO_API_KEY = API_KEY;
+
+      const checks = await diagnose();
+
+      expect(checks).toContainEqual(expect.objectContaining({
+        name: 'Environment credentials',
+        status: 'fail',
+        detail: expect.stringContaining('TRELLO_TOKEN is missing')
+      }));
+    });
+
+    it('should check every profile against Trello', async () => {
+      saveAccount('work', { apiKey: API_KEY, token: 'good' }, { makeDefault: true });
+      saveAccount('client', { apiKey: API_KEY, token: 'expired' });
+      jest.spyOn(TrelloClient.prototype, 'getCurrentUser').mockImplementation(async function (this: any) {
+        if (this.credentials.token === 'expired') throw { message: 'Invalid or expired Trello credentials.' };
+        return { data: { username: 'jdoe', fullName: 'Jane Doe' } as any };
+      });
+
+      const checks = await diagnose();
+
+      expect(checks).toContainEqual({ name: 'Account "work" (default)', status: 'ok', detail: 'authenticated as Jane Doe (@jdoe)' });
+      expect(checks).toContainEqual(expect.objectContaining({ name: 'Account "client"', status: 'fail' }));
+      expect(checks.some(check => check.name === 'Default credentials')).toBe(false);
+    });
+  });
+});
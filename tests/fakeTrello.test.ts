@@ -0,0 +1,370 @@
+import { startFakeTrelloServer, type FakeTrelloServer } from '../src/fake/server.js';
+import { FakeTrelloState } from '../src/fake/state.js';
+import { callTool, listTools } from '../src/tools/registry.js';
+import { responseCache } from '../src/trello/cache.js';
+import { TrelloClient } from '../src/trello/client';
+import { createMCPServer } from '../src/server.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const credentials = { apiKey: 'fakeKey', token: 'fakeToken' };
+
+function payload(result: { content: Array<{ text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('Fake Trello server', () => {
+  let fake: FakeTrelloServer;
+  let boardId: string;
+  let journalDir: string;
+  const originalBaseURL = process.env.TRELLO_BASE_URL;
+
+  beforeAll(async () => {
+    fake = await startFakeTrelloServer({ state: FakeTrelloState.withSampleData() });
+    process.env.TRELLO_BASE_URL = fake.url;
+    boardId = [...fake.state.boards.values()][0].id;
+    journalDir = mkdtempSync(join(tmpdir(), 'trello-journal-'));
+    process.env.TRELLO_JOURNAL_FILE = join(journalDir, 'journal.jsonl');
+  });
+
+  afterAll(async () => {
+    if (originalBaseURL === undefined) {
+      delete process.env.TRELLO_BASE_URL;
+    } else {
+      process.env.TRELLO_BASE_URL = originalBaseURL;
+    }
+    process.env.TRELLO_JOURNAL_FILE = 'off';
+    rmSync(journalDir, { recursive: true, force: true });
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    responseCache.clear();
+  });
+
+  it('should reject requests without credentials', async () => {
+    const response = await fetch(`${fake.url}/members/me`);
+
+    expect(response.status).toBe(401);
+    expect(await response.text()).toBe('invalid key');
+  });
+
+  it('should let an explicit baseURL override TRELLO_BASE_URL', async () => {
+    const empty = await startFakeTrelloServer({ state: new FakeTrelloState() });
+    try {
+      const client = new TrelloClient(credentials, { baseURL: `${empty.url}/` });
+      const response = await client.getMyBoards();
+
+      expect(response.data).toEqual([]);
+    } finally {
+      await empty.close();
+    }
+  });
+
+  it('should serve the sample board to the tools', async () => {
+    const boards = payload(await callTool('list_boards', { ...credentials }));
+
+    expect(boards.summary).toContain('Found 1 open board(s)');
+    expect(boards.boards[0].name).toBe('Product Roadmap');
+  });
+
+  it('should create, move and label a card end to end', async () => {
+    // List names resolve through /batch across the open boards
+    const created = payload(await callTool('create_card', { ...credentials, name: 'Offline card', idList: 'Backlog' }));
+    const cardId = created.card.id;
+
+    const moved = await callTool('move_card', { ...credentials, cardId, idList: 'Done' });
+    expect(moved.isError).toBeUndefined();
+
+    const labelled = await callTool('trello_add_label_to_card', { ...credentials, cardId, labelId: 'Urgent' });
+    expect(labelled.isError).toBeUndefined();
+
+    const card = payload(await callTool('get_card', { ...credentials, cardId, includeDetails: true }));
+    expect(fake.state.findList(card.card.listId).name).toBe('Done');
+    expect(card.card.labels.map((label: { name: string }) => label.name)).toEqual(['Urgent']);
+
+    const actions = fake.state.boardActions(boardId).map(action => action.type);
+    expect(actions.slice(0, 3)).toEqual(['addLabelToCard', 'updateCard', 'createCard']);
+  });
+
+  it('should return structured content that matches every outputSchema', async () => {
+    const server = createMCPServer({ credentials, toolPolicy: {} });
+    const client = new Client({ name: 'schema-check', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const called = new Set<string>();
+    // The client validates structuredContent against the advertised outputSchema
+    const call = async (name: string, args: Record<string, unknown> = {}) => {
+      const result = await client.callTool({ name, arguments: args });
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toEqual(JSON.parse((result.content as Array<{ text: string }>)[0].text));
+      called.add(name);
+      return result.structuredContent as any;
+    };
+
+    try {
+      const { tools } = await client.listTools();
+
+      await call('list_boards');
+      await call('trello_get_user_boards');
+      await call('trello_get_member', { memberId: 'me' });
+      await call('get_board_details', { boardId, includeDetails: true });
+      await call('get_lists', { boardId });
+      await call('trello_get_board_members', { boardId });
+      await call('trello_get_board_labels', { boardId });
+      await call('trello_get_board_cards', { boardId });
+      await call('trello_search', { query: 'roadmap' });
+
+      const { list } = await call('trello_create_list', { name: 'Schema', idBoard: boardId });
+      const { card } = await call('create_card', { name: 'Schema card', idList: list.id });
+      await call('update_card', { cardId: card.id, desc: 'Checked', due: null });
+      await call('move_card', { cardId: card.id, idList: 'Backlog' });
+      const { entries } = await call('trello_history', { entityId: card.id, limit: 1 });
+      await call('trello_undo', { entryId: entries[0].id, confirm: true });
+      await call('get_card', { cardId: card.id, includeDetails: true });
+      await call('trello_get_list_cards', { listId: list.id });
+      await call('trello_add_comment', { cardId: card.id, text: 'Looks right' });
+      await call('trello_get_card_actions', { cardId: card.id });
+      await call('trello_get_card_attachments', { cardId: card.id });
+
+      const { label } = await call('trello_create_label', { boardId, name: 'Schema', color: 'blue' });
+      await call('trello_update_label', { labelId: label.id, color: 'sky' });
+      await call('trello_add_label_to_card', { cardId: card.id, labelId: label.id });
+      await call('trello_remove_label_from_card', { cardId: card.id, labelId: label.id, confirm: true });
+
+      const { checklist } = await call('trello_create_checklist', { cardId: card.id, name: 'Steps' });
+      await call('trello_update_checklist', { checklistId: checklist.id, name: 'Renamed' });
+      const { checkItem } = await call('trello_add_checklist_item', { checklistId: checklist.id, name: 'First' });
+      await call('trello_update_checklist_item', { cardId: card.id, checkItemId: checkItem.id, state: 'complete' });
+      await call('trello_get_card_checklists', { cardId: card.id });
+      await call('trello_delete_checklist_item', { checklistId: checklist.id, checkItemId: checkItem.id, confirm: true });
+      await call('trello_delete_checklist', { checklistId: checklist.id, confirm: true });
+
+      await call('trello_bulk_update_cards', { cardIds: [card.id], operation: 'set_due', dueComplete: true, confirm: true });
+      const { list: spare } = await call('trello_create_list', { name: 'Spare', idBoard: boardId });
+      await call('trello_move_all_cards', { listId: 'Backlog', idList: spare.id, confirm: true });
+      await call('trello_move_all_cards', { listId: spare.id, idList: 'Backlog', confirm: true });
+      await call('trello_archive_all_cards', { listId: spare.id, confirm: true });
+      await call('trello_update_list', { listId: spare.id, name: 'Overflow', softLimit: 5 });
+      await call('trello_archive_list', { listId: spare.id, confirm: true });
+      await call('trello_restore_list', { listId: spare.id });
+      fake.state.createBoard({ name: 'Someday' });
+      const { list: moved } = await call('trello_move_list', { listId: spare.id, targetBoardId: 'Someday' });
+      expect(moved).toMatchObject({ name: 'Overflow', softLimit: 5, closed: false });
+      expect(moved.boardId).not.toBe(boardId);
+
+      const { board: created } = await call('trello_create_board', { name: 'Client A', defaultLists: false });
+      expect(fake.state.boardLists(created.id)).toEqual([]);
+      await call('trello_update_board', { boardId: created.id, desc: 'Kickoff in May', prefs: { permissionLevel: 'org', voting: 'members' } });
+      expect(fake.state.findBoard(created.id).prefs).toMatchObject({ permissionLevel: 'org', voting: 'members' });
+      await call('trello_close_board', { boardId: created.id, confirm: true });
+      await call('trello_reopen_board', { boardId: created.id });
+      const { board: copy } = await call('trello_copy_board', { sourceBoardId: 'Product Roadmap', name: 'Client B', keepFromSource: 'cards' });
+      expect(fake.state.boardLists(copy.id).map(list => list.name)).toEqual(fake.state.boardLists(boardId).map(list => list.name));
+      expect(fake.state.boardCards(copy.id).length).toBe(fake.state.boardCards(boardId).length);
+      await call('trello_archive_card', { cardId: card.id, confirm: true });
+      await call('trello_restore_card', { cardId: card.id });
+      await call('trello_delete_card', { cardId: card.id, confirm: true });
+
+      // Account profiles live outside Trello and are covered in accounts.test.ts
+      expect(tools.map(tool => tool.name).filter(name => !called.has(name))).toEqual(['trello_list_accounts']);
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+
+  it('should preview every write tool without changing anything', async () => {
+    const server = createMCPServer({ credentials, toolPolicy: {} });
+    const client = new Client({ name: 'dry-run-check', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const [backlog, doing] = fake.state.boardLists(boardId);
+    const card = fake.state.createCard({ name: 'Preview me', idList: backlog.id });
+    const [bug] = [...fake.state.labels.values()];
+    fake.state.addLabelToCard(card.id, bug.id);
+    const checklist = fake.state.createChecklist({ idCard: card.id, name: 'Steps' });
+    const item = fake.state.addCheckItem(checklist.id, { name: 'First' });
+    const described = payload(await callTool('update_card', { ...credentials, cardId: card.id, desc: 'Journaled' }));
+    expect(described.card.description).toBe('Journaled');
+    const actionsBefore = fake.state.boardActions(boardId).length;
+
+    const previewed = new Set<string>();
+    const preview = async (name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: { ...args, dryRun: true } });
+      expect(result.isError).toBeFalsy();
+      previewed.add(name);
+      return result.structuredContent as { summary: string; dryRun: boolean; changes: Array<{ field: string; before: unknown; after: unknown }> };
+    };
+
+    try {
+      const update = await preview('update_card', { cardId: card.id, name: 'Renamed', due: null });
+      expect(update.summary).toBe('Dry run: would update card "Preview me". Nothing was changed.');
+      expect(update.changes).toEqual([{ field: 'name', before: 'Preview me', after: 'Renamed' }]);
+
+      const move = await preview('move_card', { cardId: card.id, idList: doing.id });
+      expect(move.changes.map(change => change.field)).toEqual(['list', 'idList']);
+
+      const remove = await preview('trello_remove_label_from_card', { cardId: card.id, labelId: bug.id });
+      expect(remove.changes).toEqual([{ field: 'idLabels', before: [bug.id], after: [] }]);
+
+      const created = await preview('create_card', { name: 'New', idList: backlog.id });
+      expect(created.changes).toEqual(expect.arrayContaining([{ field: 'name', before: null, after: 'New' }]));
+
+      await preview('trello_add_comment', { cardId: card.id, text: 'Hello' });
+      await preview('trello_create_list', { name: 'Later', idBoard: boardId });
+      await preview('trello_create_label', { boardId, name: 'Later', color: 'sky' });
+      await preview('trello_update_label', { labelId: bug.id, color: 'purple' });
+      await preview('trello_add_label_to_card', { cardId: card.id, labelId: bug.id });
+      await preview('trello_archive_card', { cardId: card.id });
+      await preview('trello_restore_card', { cardId: card.id });
+      await preview('trello_delete_card', { cardId: card.id });
+      await preview('trello_create_checklist', { cardId: card.id, name: 'More' });
+      await preview('trello_update_checklist', { checklistId: checklist.id, name: 'Renamed' });
+      await preview('trello_delete_checklist', { checklistId: checklist.id });
+      await preview('trello_add_checklist_item', { checklistId: checklist.id, name: 'Second' });
+      await preview('trello_update_checklist_item', { cardId: card.id, checkItemId: item.id, state: 'complete' });
+      await preview('trello_delete_checklist_item', { checklistId: checklist.id, checkItemId: item.id });
+      await preview('trello_move_all_cards', { listId: backlog.id, idList: doing.id });
+      await preview('trello_archive_all_cards', { listId: backlog.id });
+      await preview('trello_update_list', { listId: backlog.id, softLimit: 3 });
+      await preview('trello_archive_list', { listId: backlog.id });
+      await preview('trello_restore_list', { listId: backlog.id });
+      const movedList = await preview('trello_move_list', { listId: backlog.id, targetBoardId: boardId });
+      expect(movedList.changes.map((change: { field: string }) => change.field)).not.toContain('pos');
+      await preview('trello_create_board', { name: 'Client C', idOrganization: '5a1b2c3d4e5f6a7b8c9d0e1f' });
+      const prefs = await preview('trello_update_board', { boardId, prefs: { background: 'lime' } });
+      expect(prefs.changes).toEqual([{ field: 'prefs/background', before: 'blue', after: 'lime' }]);
+      await preview('trello_close_board', { boardId });
+      await preview('trello_reopen_board', { boardId });
+      await preview('trello_copy_board', { sourceBoardId: boardId, name: 'Client D' });
+      await preview('trello_bulk_update_cards', { listId: backlog.id, operation: 'archive' });
+
+      const history = payload(await callTool('trello_history', { ...credentials, entityId: card.id, limit: 1 }));
+      const undo = await preview('trello_undo', { entryId: history.entries[0].id });
+      expect(undo.changes).toEqual([{ field: 'desc', before: 'Journaled', after: '' }]);
+
+      const writeTools = listTools().filter(tool => !tool.annotations?.readOnlyHint).map(tool => tool.name);
+      expect(writeTools.filter(name => !previewed.has(name))).toEqual([]);
+      expect(fake.state.boardActions(boardId)).toHaveLength(actionsBefore);
+      expect(fake.state.findCard(card.id)).toMatchObject({ name: 'Preview me', closed: false, idList: backlog.id });
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+
+  describe('confirmation of destructive tools', () => {
+    async function connect(answer?: (message: string) => ElicitResult) {
+      const server = createMCPServer({ credentials, toolPolicy: {} });
+      const client = new Client(
+        { name: 'confirmation-check', version: '1.0.0' },
+        { capabilities: answer ? { elicitation: {} } : {} }
+      );
+      const messages: string[] = [];
+      if (answer) {
+        client.setRequestHandler(ElicitRequestSchema, async request => {
+          messages.push(request.params.message);
+          return answer(request.params.message);
+        });
+      }
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      return {
+        messages,
+        call: async (name: string, args: Record<string, unknown>) => {
+          const result = await client.callTool({ name, arguments: args });
+          return { isError: result.isError, text: (result.content as Array<{ text: string }>)[0].text };
+        },
+        close: async () => {
+          await client.close();
+          await server.close();
+        }
+      };
+    }
+
+    function newCard(name: string) {
+      const list = fake.state.boardLists(boardId)[0];
+      return fake.state.createCard({ name, idList: list.id });
+    }
+
+    it('should ask through elicitation and archive once the user accepts', async () => {
+      const card = newCard('Elicited archive');
+      const session = await connect(() => ({ action: 'accept', content: { confirm: true } }));
+      try {
+        const result = await session.call('trello_archive_card', { cardId: card.id });
+
+        expect(result.isError).toBeFalsy();
+        expect(session.messages).toEqual([`Archive card "Elicited archive" (https://trello.com/c/${card.shortLink}). It will be hidden from its board until it is restored.`]);
+        expect(fake.state.findCard(card.id).closed).toBe(true);
+      } finally {
+        await session.close();
+      }
+    });
+
+    it('should change nothing when the user declines, even with confirm: true', async () => {
+      const card = newCard('Declined archive');
+      const session = await connect(() => ({ action: 'decline' }));
+      try {
+        const result = await session.call('trello_archive_card', { cardId: card.id, confirm: true });
+
+        expect(result.isError).toBe(true);
+        expect(result.text).toContain('Cancelled: the user did not confirm. Archive card "Declined archive"');
+        expect(fake.state.findCard(card.id).closed).toBe(false);
+      } finally {
+        await session.close();
+      }
+    });
+
+    it('should require confirm: true from clients without elicitation', async () => {
+      const card = newCard('Unconfirmed delete');
+      const session = await connect();
+      try {
+        const refused = await session.call('trello_delete_checklist', { checklistId: fake.state.createChecklist({ idCard: card.id, name: 'Steps' }).id });
+
+        expect(refused.isError).toBe(true);
+        expect(refused.text).toContain('Delete checklist "Steps" and its 0 item(s) (0 complete).');
+        expect(refused.text).toContain('call trello_delete_checklist again with "confirm": true');
+        expect(fake.state.cardChecklists(card.id)).toHaveLength(1);
+
+        const removed = await session.call('trello_remove_label_from_card', { cardId: card.id, labelId: 'Bug' });
+        expect(removed.text).toContain('Remove label "Bug" from card "Unconfirmed delete".');
+      } finally {
+        await session.close();
+      }
+    });
+
+    it('should advertise the confirm argument on destructive tools only', () => {
+      const tools = listTools();
+      const properties = (name: string) => tools.find(tool => tool.name === name)?.inputSchema.properties ?? {};
+
+      expect(properties('trello_archive_card')).toHaveProperty('confirm');
+      expect(properties('update_card')).not.toHaveProperty('confirm');
+    });
+  });
+
+  it('should match the search query as Trello receives it, without decoding it again', async () => {
+    const name = [...fake.state.cards.values()].find(card => card.name.includes(' '))!.name;
+    const client = new TrelloClient(credentials);
+
+    const plain = await client.search(name, { modelTypes: ['cards'] });
+    const doubleEncoded = await client.search(encodeURIComponent(name), { modelTypes: ['cards'] });
+
+    expect(plain.data.cards.map(card => card.name)).toContain(name);
+    expect(doubleEncoded.data.cards).toEqual([]);
+  });
+
+  it('should report per-item failures from /batch', async () => {
+    const client = new TrelloClient(credentials);
+    const response = await client.batch([`/boards/${boardId}/lists`, '/cards/000000000000000000000000']);
+
+    expect(response.data[0]).toMatchObject({ ok: true });
+    expect(response.data[1]).toMatchObject({ ok: false, error: { status: 404 } });
+  });
+});
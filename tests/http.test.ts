@@ -0,0 +1,177 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHttpApp, startHttpServer } from '../src/http.js';
+import { healthChecker } from '../src/utils/health.js';
+import { jest } from '@jest/globals';
+import { TrelloClient } from '../src/trello/client';
+
+const BOARD_ID = '1a2b3c4d5e6f7a8b9c0d1e2f';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+// Responses arrive as an SSE stream; pull the JSON-RPC message out of it
+async function readMessage(response: globalThis.Response): Promise<any> {
+  const body = await response.text();
+  const data = body.split('\n').find(line => line.startsWith('data: '));
+  return JSON.parse(data ? data.slice('data: '.length) : body);
+}
+
+describe('HTTP transport', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createHttpApp().listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers
+      },
+      body: JSON.stringify(body)
+    });
+  }
+
+  it('should serve the health check', async () => {
+    jest.spyOn(healthChecker, 'getHealthStatus').mockResolvedValue({
+      status: 'healthy',
+      environment: 'test',
+      uptime: 1,
+      performance: { memoryUtilization: 40 },
+      services: { trello: { status: 'available' } }
+    } as any);
+
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'healthy' });
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('No valid session ID');
+  });
+
+  it('should require credentials to start a session', async () => {
+    const response = await post(initializeRequest);
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error.message).toContain('x-trello-api-key');
+  });
+
+  it('should bind the session credentials to tool calls', async () => {
+    let usedCredentials: unknown;
+    jest.spyOn(TrelloClient.prototype, 'getBoardLabels').mockImplementation(async function (this: any) {
+      usedCredentials = this.credentials;
+      return { data: [] };
+    });
+
+    const init = await post(initializeRequest, { 'x-trello-api-key': 'aliceKey', 'x-trello-token': 'aliceToken' });
+    const sessionId = init.headers.get('mcp-session-id');
+    await readMessage(init);
+
+    expect(init.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+
+    const call = await post(
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'trello_get_board_labels', arguments: { boardId: BOARD_ID, apiKey: 'other', token: 'other' } }
+      },
+      { 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' }
+    );
+    const message = await readMessage(call);
+
+    expect(message.result.isError).toBeUndefined();
+    expect(usedCredentials).toEqual({ apiKey: 'aliceKey', token: 'aliceToken' });
+  });
+
+  it('should refuse account profiles from session clients', async () => {
+    const init = await post(initializeRequest, { 'x-trello-api-key': 'aliceKey', 'x-trello-token': 'aliceToken' });
+    const sessionId = init.headers.get('mcp-session-id');
+    await readMessage(init);
+
+    const call = await post(
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'trello_get_board_labels', arguments: { boardId: BOARD_ID, account: 'work' } }
+      },
+      { 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' }
+    );
+    const message = await readMessage(call);
+
+    expect(message.result.isError).toBe(true);
+    expect(message.result.content[0].text).toContain('account profiles are not available');
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const idle = createHttpApp({ sessionIdleTimeoutMs: 50 }).listen(0);
+    await new Promise(resolve => idle.once('listening', resolve));
+    const url = `http://127.0.0.1:${(idle.address() as AddressInfo).port}/mcp`;
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    try {
+      const init = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'x-trello-api-key': 'aliceKey', 'x-trello-token': 'aliceToken' },
+        body: JSON.stringify(initializeRequest)
+      });
+      const sessionId = init.headers.get('mcp-session-id')!;
+      await readMessage(init);
+      await new Promise(resolve => setTimeout(resolve, 120));
+
+      const call = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+      });
+
+      expect(call.status).toBe(400);
+      expect((await call.json()).error.message).toContain('No valid session ID');
+    } finally {
+      idle.closeAllConnections();
+      await new Promise(resolve => idle.close(resolve));
+    }
+  });
+
+  it('should listen on the loopback interface by default', async () => {
+    const local = startHttpServer(0);
+    await new Promise(resolve => local.once('listening', resolve));
+
+    try {
+      expect((local.address() as AddressInfo).address).toBe('127.0.0.1');
+    } finally {
+      await new Promise(resolve => local.close(resolve));
+    }
+  });
+});
@@ -1,4 +1,17 @@
-import { handleTrelloGetListCards, handleTrelloCreateList, handleTrelloAddComment } from '../src/tools/lists.js';
+import {
+  handleTrelloGetListCards,
+  handleTrelloCreateList,
+  handleTrelloAddComment,
+  handleTrelloMoveAllCards,
+  previewMoveAllCards,
+  describeMoveAllCards,
+  handleTrelloArchiveAllCards,
+  describeArchiveAllCards,
+  handleTrelloUpdateList,
+  previewUpdateList,
+  describeArchiveList,
+  handleTrelloMoveList
+} from '../src/tools/lists.js';
 import { jest } from '@jest/globals';
 import { TrelloClient } from '../src/trello/client';
 
@@ -7,6 +20,10 @@ const MOCK_LIST_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
 const MOCK_LIST_ID_TWO = '0f9e8d7c6b5a4321fedcba98';
 const MOCK_CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
 const MOCK_CARD_ID_TWO = 'abcdef1234567890abcdef12';
+const MOCK_OTHER_BOARD_ID = '2b3c4d5e6f7a8b9c0d1e2f3a';
+
+const mockList = (id: string, name: string, idBoard = MOCK_BOARD_ID) => ({ id, name, idBoard, pos: 1, closed: false, subscribed: false });
+const mockCard = (id: string, name: string) => ({ id, name, idList: MOCK_LIST_ID }) as any;
 
 describe('Lists Tool', () => {
   afterEach(() => {
@@ -145,4 +162,121 @@ describe('Lists Tool', () => {
       expect(result.content[0].text).toContain('Error adding comment: Validation error: text: Required');
     });
   });
+
+  describe('handleTrelloMoveAllCards', () => {
+    function mockLists(destinationBoard = MOCK_BOARD_ID) {
+      jest.spyOn(TrelloClient.prototype, 'getList').mockImplementation(async listId => ({
+        data: listId === MOCK_LIST_ID ? mockList(MOCK_LIST_ID, 'Done') : mockList(MOCK_LIST_ID_TWO, 'Archive', destinationBoard)
+      }));
+      jest.spyOn(TrelloClient.prototype, 'getListCards')
+        .mockResolvedValue({ data: [mockCard(MOCK_CARD_ID, 'Card One'), mockCard(MOCK_CARD_ID_TWO, 'Card Two')] });
+    }
+
+    test('should move every card to the destination list and board', async () => {
+      mockLists(MOCK_OTHER_BOARD_ID);
+      const moveSpy = jest.spyOn(TrelloClient.prototype, 'moveAllCardsInList').mockResolvedValue({ data: [] });
+
+      const result = await handleTrelloMoveAllCards({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID, idList: MOCK_LIST_ID_TWO });
+
+      expect(moveSpy).toHaveBeenCalledWith(MOCK_LIST_ID, { idBoard: MOCK_OTHER_BOARD_ID, idList: MOCK_LIST_ID_TWO });
+      const payload = JSON.parse(result.content[0].text);
+      expect(payload.summary).toBe('Moved 2 card(s) from list "Done" to list "Archive"');
+      expect(payload.count).toBe(2);
+      expect(payload.cards).toEqual([{ id: MOCK_CARD_ID, name: 'Card One' }, { id: MOCK_CARD_ID_TWO, name: 'Card Two' }]);
+    });
+
+    test('should preview the number of cards it would move', async () => {
+      mockLists();
+      const moveSpy = jest.spyOn(TrelloClient.prototype, 'moveAllCardsInList');
+
+      const preview = JSON.parse((await previewMoveAllCards({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID, idList: MOCK_LIST_ID_TWO })).content[0].text);
+
+      expect(preview.summary).toBe('Dry run: would move 2 card(s) from list "Done" to list "Archive". Nothing was changed.');
+      expect(preview.changes[0]).toEqual({ field: MOCK_CARD_ID, before: { idList: MOCK_LIST_ID }, after: { idList: MOCK_LIST_ID_TWO } });
+      expect(moveSpy).not.toHaveBeenCalled();
+    });
+
+    test('should describe the cards it is about to move', async () => {
+      mockLists(MOCK_OTHER_BOARD_ID);
+
+      expect(await describeMoveAllCards({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID, idList: MOCK_LIST_ID_TWO }))
+        .toBe('Move all 2 card(s) in list "Done" to list "Archive" on another board: "Card One", "Card Two".');
+    });
+
+    test('should refuse to move a list onto itself', async () => {
+      const result = await handleTrelloMoveAllCards({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID, idList: MOCK_LIST_ID });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error moving cards: Validation error: idList: Destination must be a different list');
+    });
+  });
+
+  describe('handleTrelloArchiveAllCards', () => {
+    beforeEach(() => {
+      jest.spyOn(TrelloClient.prototype, 'getList').mockResolvedValue({ data: mockList(MOCK_LIST_ID, 'Done') });
+      jest.spyOn(TrelloClient.prototype, 'getListCards').mockResolvedValue({ data: [mockCard(MOCK_CARD_ID, 'Card One')] });
+    });
+
+    test('should archive every card in the list', async () => {
+      const archiveSpy = jest.spyOn(TrelloClient.prototype, 'archiveAllCardsInList').mockResolvedValue({ data: undefined });
+
+      const result = await handleTrelloArchiveAllCards({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID });
+
+      expect(archiveSpy).toHaveBeenCalledWith(MOCK_LIST_ID);
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ summary: 'Archived 1 card(s) in list "Done"', count: 1 });
+    });
+
+    test('should describe the cards it is about to archive', async () => {
+      expect(await describeArchiveAllCards({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID }))
+        .toBe('Archive all 1 card(s) in list "Done": "Card One".');
+    });
+  });
+
+  describe('handleTrelloUpdateList', () => {
+    test('should rename the list and set its soft limit', async () => {
+      const updateSpy = jest.spyOn(TrelloClient.prototype, 'updateList')
+        .mockResolvedValue({ data: { ...mockList(MOCK_LIST_ID, 'Doing'), softLimit: 3 } });
+
+      const result = await handleTrelloUpdateList({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID, name: 'Doing', softLimit: 3 });
+
+      expect(updateSpy).toHaveBeenCalledWith(MOCK_LIST_ID, { name: 'Doing', softLimit: 3 });
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ summary: 'Updated list: Doing', list: { name: 'Doing', softLimit: 3 } });
+    });
+
+    test('should preview only the fields that change', async () => {
+      jest.spyOn(TrelloClient.prototype, 'getList').mockResolvedValue({ data: mockList(MOCK_LIST_ID, 'In Progress') });
+
+      const preview = JSON.parse((await previewUpdateList({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID, softLimit: 4 })).content[0].text);
+
+      expect(preview.summary).toBe('Dry run: would update list "In Progress" (softLimit). Nothing was changed.');
+      expect(preview.changes).toEqual([{ field: 'softLimit', before: null, after: 4 }]);
+    });
+
+    test('should need something to change', async () => {
+      const result = await handleTrelloUpdateList({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Give at least one of name, pos or softLimit');
+    });
+  });
+
+  describe('list archiving and moving', () => {
+    test('should describe how many cards archiving a list hides', async () => {
+      jest.spyOn(TrelloClient.prototype, 'getList').mockResolvedValue({ data: mockList(MOCK_LIST_ID, 'Done') });
+      jest.spyOn(TrelloClient.prototype, 'getListCards').mockResolvedValue({ data: [mockCard(MOCK_CARD_ID, 'Card One')] });
+
+      expect(await describeArchiveList({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID }))
+        .toBe('Archive list "Done" and hide its 1 open card(s) from the board.');
+    });
+
+    test('should move a list to another board', async () => {
+      const moveSpy = jest.spyOn(TrelloClient.prototype, 'moveListToBoard')
+        .mockResolvedValue({ data: mockList(MOCK_LIST_ID, 'Done', MOCK_OTHER_BOARD_ID) });
+
+      const result = await handleTrelloMoveList({ apiKey: 'testKey', token: 'testToken', listId: MOCK_LIST_ID, targetBoardId: MOCK_OTHER_BOARD_ID, pos: 'top' });
+
+      expect(moveSpy).toHaveBeenCalledWith(MOCK_LIST_ID, MOCK_OTHER_BOARD_ID, 'top');
+      expect(JSON.parse(result.content[0].text).list).toMatchObject({ id: MOCK_LIST_ID, boardId: MOCK_OTHER_BOARD_ID });
+    });
+  });
 });
@@ -0,0 +1,148 @@
+import { listPrompts, getPrompt } from '../src/prompts/registry.js';
+import { jest } from '@jest/globals';
+import { TrelloClient } from '../src/trello/client';
+
+const BOARD_ID = '1a2b3c4d5e6f7a8b9c0d1e2f';
+const BACKLOG_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
+const DOING_ID = '6a7b8c9d0e1f2a3b4c5d6e7f';
+const CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
+
+const credentials = { apiKey: 'testKey', token: 'testToken' };
+
+const board = { id: BOARD_ID, name: 'Engineering', shortUrl: 'https://trello.com/b/WxYz5678', lists: [], cards: [] };
+const lists = [{ id: BACKLOG_ID, name: 'Backlog' }, { id: DOING_ID, name: 'Doing' }];
+
+const moveAction = {
+  id: 'action1',
+  type: 'updateCard',
+  date: '2026-10-18T09:30:00.000Z',
+  data: {
+    card: { id: CARD_ID, name: 'Fix login redirect' },
+    listBefore: { id: BACKLOG_ID, name: 'Backlog' },
+    listAfter: { id: DOING_ID, name: 'Doing' }
+  },
+  memberCreator: { id: 'member1', username: 'jdoe', fullName: 'Jamie Doe' }
+};
+
+// Answers each batched route from the map by path; routes not listed are empty
+function mockBatch(routes: Record<string, unknown>) {
+  return jest.spyOn(TrelloClient.prototype, 'batch').mockImplementation(async (urls: string[]) => ({
+    data: urls.map(url => ({ ok: true as const, data: routes[url.split('?')[0]] ?? [] }))
+  }) as any);
+}
+
+function promptText(result: Awaited<ReturnType<typeof getPrompt>>): string {
+  const content = result.messages[0].content;
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('Trello prompts', () => {
+  beforeEach(() => {
+    jest.spyOn(TrelloClient.prototype, 'getBoardLists').mockResolvedValue({ data: lists as any });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should advertise every prompt with a required board argument', () => {
+    const prompts = listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual([
+      'trello_standup',
+      'trello_sprint_planning',
+      'trello_triage',
+      'trello_retrospective'
+    ]);
+    for (const prompt of prompts) {
+      expect(prompt.arguments?.[0]).toMatchObject({ name: 'board', required: true });
+    }
+  });
+
+  it('should build a standup from the last day of board activity', async () => {
+    const batchSpy = mockBatch({
+      [`/boards/${BOARD_ID}`]: board,
+      [`/boards/${BOARD_ID}/actions`]: [moveAction]
+    });
+
+    const result = await getPrompt('trello_standup', { board: BOARD_ID }, credentials);
+    const text = promptText(result);
+
+    const urls = batchSpy.mock.calls[0][0] as string[];
+    const since = new URL(urls[1], 'https://api.trello.com').searchParams.get('since');
+    expect(urls).toHaveLength(2);
+    expect(Date.now() - Date.parse(since ?? '')).toBeLessThanOrEqual(24 * 60 * 60 * 1000 + 1000);
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('daily standup for the Trello board "Engineering"');
+    expect(text).toContain('Jamie Doe moved "Fix login redirect" from Backlog to Doing');
+  });
+
+  it('should plan a sprint from the backlog list', async () => {
+    const batchSpy = mockBatch({
+      [`/boards/${BOARD_ID}`]: board,
+      [`/boards/${BOARD_ID}/lists`]: lists,
+      [`/lists/${BACKLOG_ID}/cards`]: [{ id: CARD_ID, name: 'Fix login redirect', desc: 'Users land on a blank page' }]
+    });
+
+    const text = promptText(await getPrompt('trello_sprint_planning', { board: BOARD_ID, capacity: '5' }, credentials));
+
+    expect(batchSpy.mock.calls[0][0]).toContain(`/lists/${BACKLOG_ID}/cards?filter=open`);
+    expect(text).toContain('capacity for about 5 cards');
+    expect(text).toContain(`- [Fix login redirect](trello://card/${CARD_ID})\n  Users land on a blank page`);
+  });
+
+  it('should only include unlabeled cards in triage', async () => {
+    const batchSpy = mockBatch({
+      [`/boards/${BOARD_ID}`]: board,
+      [`/boards/${BOARD_ID}/lists`]: lists,
+      [`/boards/${BOARD_ID}/labels`]: [{ id: 'label1', name: 'Bug', color: 'red' }],
+      [`/boards/${BOARD_ID}/cards`]: [
+        { id: CARD_ID, name: 'Fix login redirect', idList: DOING_ID, labels: [] },
+        { id: 'cccccccccccccccccccccccc', name: 'Already triaged', idList: DOING_ID, labels: [{ id: 'label1', name: 'Bug', color: 'red' }] }
+      ]
+    });
+
+    const text = promptText(await getPrompt('trello_triage', { board: BOARD_ID }, credentials));
+
+    expect(text).toContain('- Bug (red) — label1');
+    expect(text).toContain('## Unlabeled cards (1)');
+    expect(text).toContain('Fix login redirect](trello://card/64b7f2c5d9a1b3c4d5e6f7a8) (in Doing)');
+    expect(text).not.toContain('Already triaged');
+    expect(batchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cover the requested number of days in a retrospective', async () => {
+    const batchSpy = mockBatch({
+      [`/boards/${BOARD_ID}`]: board,
+      [`/boards/${BOARD_ID}/actions`]: [moveAction]
+    });
+
+    const text = promptText(await getPrompt('trello_retrospective', { board: BOARD_ID, days: '7' }, credentials));
+
+    expect((batchSpy.mock.calls[0][0] as string[])[1]).toContain('filter=createCard,updateCard,commentCard');
+    expect(text).toContain('covering the last 7 day(s)');
+    expect(text).toContain('## Activity (1 action(s))');
+  });
+
+  it('should resolve the board argument by name', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getMyBoards').mockResolvedValue({
+      data: [{ id: BOARD_ID, name: 'Engineering', closed: false }] as any
+    });
+    const batchSpy = mockBatch({ [`/boards/${BOARD_ID}`]: board });
+
+    const text = promptText(await getPrompt('trello_retrospective', { board: 'engineering' }, credentials));
+
+    expect((batchSpy.mock.calls[0][0] as string[])[0]).toBe(`/boards/${BOARD_ID}`);
+    expect(text).toContain('_No activity._');
+  });
+
+  it('should reject invalid arguments', async () => {
+    await expect(getPrompt('trello_retrospective', { board: BOARD_ID, days: 'many' }, credentials))
+      .rejects.toThrow('Validation error: days');
+    await expect(getPrompt('trello_standup', {}, credentials)).rejects.toThrow('Validation error: board');
+  });
+
+  it('should reject unknown prompts', async () => {
+    await expect(getPrompt('does_not_exist', {}, credentials)).rejects.toThrow('Unknown prompt: does_not_exist');
+  });
+});
@@ -0,0 +1,260 @@
+import { toolRegistry, listTools, getToolRegistration, callTool } from '../src/tools/registry.js';
+import { jest } from '@jest/globals';
+import { TrelloClient } from '../src/trello/client';
+import { toolPolicyFromEnv } from '../src/tools/policy.js';
+
+const MOCK_CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
+const MOCK_LABEL_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
+
+describe('Tool Registry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should register every tool exactly once', () => {
+    const names = listTools().map(tool => tool.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toEqual(expect.arrayContaining([
+      'trello_search',
+      'create_card',
+      'trello_create_label',
+      'trello_update_label',
+      'trello_add_label_to_card',
+      'trello_remove_label_from_card'
+    ]));
+  });
+
+  test('should declare every required input in the zod schema', () => {
+    for (const { tool, schema } of toolRegistry) {
+      const required = (tool.inputSchema.required ?? []) as string[];
+      const result = schema.safeParse({});
+
+      if (required.length === 0) {
+        continue;
+      }
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const missing = result.error.issues.map(issue => issue.path[0]);
+        expect(missing).toEqual(expect.arrayContaining(required));
+      }
+    }
+  });
+
+  test('should look up registrations by tool name', () => {
+    expect(getToolRegistration('trello_add_label_to_card')?.tool.name).toBe('trello_add_label_to_card');
+    expect(getToolRegistration('does_not_exist')).toBeUndefined();
+  });
+
+  test('should dispatch calls to the registered handler', async () => {
+    const addLabelSpy = jest
+      .spyOn(TrelloClient.prototype, 'addLabelToCard')
+      .mockResolvedValue({ data: [MOCK_LABEL_ID] });
+
+    const result = await callTool('trello_add_label_to_card', {
+      apiKey: 'testKey',
+      token: 'testToken',
+      cardId: MOCK_CARD_ID,
+      labelId: MOCK_LABEL_ID
+    });
+
+    expect(addLabelSpy).toHaveBeenCalledWith(MOCK_CARD_ID, MOCK_LABEL_ID);
+    expect(result.isError).toBeUndefined();
+  });
+
+  test('should resolve names before dispatching and report ambiguity', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getMyBoards').mockResolvedValue({
+      data: [
+        { id: 'aaaaaaaaaaaaaaaaaaaaaaaa', name: 'Client A', closed: false },
+        { id: 'bbbbbbbbbbbbbbbbbbbbbbbb', name: 'Client B', closed: false }
+      ] as any
+    });
+    const getLabelsSpy = jest.spyOn(TrelloClient.prototype, 'getBoardLabels');
+
+    const result = await callTool('trello_get_board_labels', {
+      apiKey: 'testKey',
+      token: 'testToken',
+      boardId: 'client'
+    });
+
+    expect(getLabelsSpy).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Error resolving boardId: "client" matches 2 boards');
+  });
+
+  test('should advertise reference fields without the ID pattern', () => {
+    const createCard = listTools().find(tool => tool.name === 'create_card');
+    const properties = createCard?.inputSchema.properties as Record<string, Record<string, unknown>>;
+
+    expect(properties.idList.pattern).toBeUndefined();
+  });
+
+  test('should annotate every tool and declare its output', () => {
+    for (const tool of listTools()) {
+      expect(typeof tool.annotations?.readOnlyHint).toBe('boolean');
+      expect(tool.outputSchema).toMatchObject({ type: 'object', required: expect.arrayContaining(['summary']) });
+    }
+
+    const destructive = listTools().filter(tool => tool.annotations?.destructiveHint).map(tool => tool.name);
+    expect(destructive.sort()).toEqual([
+      'trello_archive_all_cards',
+      'trello_archive_card',
+      'trello_archive_list',
+      'trello_bulk_update_cards',
+      'trello_close_board',
+      'trello_delete_card',
+      'trello_delete_checklist',
+      'trello_delete_checklist_item',
+      'trello_move_all_cards',
+      'trello_remove_label_from_card',
+      'trello_undo'
+    ]);
+  });
+
+  test('should offer dry runs on every write tool', () => {
+    for (const tool of listTools()) {
+      const properties = tool.inputSchema.properties ?? {};
+      if (tool.annotations?.readOnlyHint) {
+        expect(properties).not.toHaveProperty('dryRun');
+      } else {
+        expect(properties).toHaveProperty('dryRun');
+        expect(tool.outputSchema?.properties).toHaveProperty('changes');
+      }
+    }
+  });
+
+  test('should preview a write without calling the mutating endpoint', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getCard').mockResolvedValue({
+      data: { id: MOCK_CARD_ID, name: 'Old name', desc: '', due: null, idList: 'aaaaaaaaaaaaaaaaaaaaaaaa' } as any
+    });
+    const updateSpy = jest.spyOn(TrelloClient.prototype, 'updateCard');
+
+    const result = await callTool('update_card', {
+      apiKey: 'testKey',
+      token: 'testToken',
+      cardId: MOCK_CARD_ID,
+      name: 'New name',
+      dryRun: true
+    });
+
+    expect(updateSpy).not.toHaveBeenCalled();
+    expect(result.structuredContent).toEqual({
+      summary: 'Dry run: would update card "Old name". Nothing was changed.',
+      dryRun: true,
+      before: { name: 'Old name' },
+      after: { name: 'New name' },
+      changes: [{ field: 'name', before: 'Old name', after: 'New name' }]
+    });
+  });
+
+  test('should report preview failures', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getCard').mockRejectedValue({ message: 'The requested resource was not found.', status: 404 });
+
+    const result = await callTool('trello_archive_card', { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID, dryRun: true });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error previewing trello_archive_card: The requested resource was not found.');
+  });
+
+  test('should return structured content alongside the text', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getBoardLabels').mockResolvedValue({
+      data: [{ id: MOCK_LABEL_ID, name: 'Bug', color: 'red', idBoard: 'aaaaaaaaaaaaaaaaaaaaaaaa', uses: 2 }]
+    });
+
+    const result = await callTool('trello_get_board_labels', {
+      apiKey: 'testKey',
+      token: 'testToken',
+      boardId: 'aaaaaaaaaaaaaaaaaaaaaaaa'
+    });
+
+    expect(result.structuredContent).toEqual(JSON.parse(result.content[0].text));
+    expect(result.structuredContent).toMatchObject({ labels: [{ id: MOCK_LABEL_ID, name: 'Bug' }] });
+  });
+
+  test('should describe unconfirmed changes from the arguments when the lookup fails', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getCard').mockRejectedValue({ message: 'Not found', status: 404 });
+    const archiveSpy = jest.spyOn(TrelloClient.prototype, 'archiveCard');
+
+    const result = await callTool('trello_archive_card', { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID });
+
+    expect(archiveSpy).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      `Error: trello_archive_card needs confirmation before it changes Trello data. Run trello_archive_card with {"cardId":"${MOCK_CARD_ID}"}. ` +
+      'Ask the user to approve this change, then call trello_archive_card again with "confirm": true.'
+    );
+  });
+
+  test('should refuse destructive calls when the confirmer fails', async () => {
+    const archiveSpy = jest.spyOn(TrelloClient.prototype, 'archiveCard');
+    jest.spyOn(TrelloClient.prototype, 'getCard').mockResolvedValue({ data: { id: MOCK_CARD_ID, name: 'Card', shortUrl: 'https://trello.com/c/x' } as any });
+
+    const result = await callTool('trello_archive_card', { apiKey: 'testKey', token: 'testToken', cardId: MOCK_CARD_ID }, undefined, async () => {
+      throw new Error('Request timed out');
+    });
+
+    expect(archiveSpy).not.toHaveBeenCalled();
+    expect(result.content[0].text).toBe('Error: could not ask the user to confirm trello_archive_card (Request timed out). Nothing was changed.');
+  });
+
+  test('should not resolve near names for destructive tools', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getMyBoards').mockResolvedValue({
+      data: [{ id: 'aaaaaaaaaaaaaaaaaaaaaaaa', name: 'Marketing 2024', closed: false }] as any
+    });
+    const closeSpy = jest.spyOn(TrelloClient.prototype, 'closeBoard');
+
+    const result = await callTool('trello_close_board', { apiKey: 'testKey', token: 'testToken', boardId: 'Marketing 2025' }, undefined, async () => true);
+
+    expect(closeSpy).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      'Error resolving boardId: No board is named exactly "Marketing 2025"; tools that need confirmation only accept exact names or IDs. ' +
+      'Close matches: "Marketing 2024" (aaaaaaaaaaaaaaaaaaaaaaaa)'
+    );
+  });
+
+  test('should reject unknown tools', async () => {
+    await expect(callTool('does_not_exist', {})).rejects.toThrow('Unknown tool: does_not_exist');
+  });
+
+  describe('tool policy', () => {
+    test('should read the policy from the environment', () => {
+      expect(toolPolicyFromEnv({ TRELLO_READ_ONLY: 'true', TRELLO_DENIED_TOOLS: 'trello_search, get_card' })).toEqual({
+        readOnly: true,
+        deny: ['trello_search', 'get_card']
+      });
+      expect(toolPolicyFromEnv({})).toEqual({ readOnly: false });
+    });
+
+    test('should only advertise read-only tools in read-only mode', () => {
+      const names = listTools({ policy: { readOnly: true } }).map(tool => tool.name);
+
+      expect(names).toEqual(expect.arrayContaining(['trello_search', 'get_card', 'trello_get_board_labels']));
+      for (const mutating of ['create_card', 'update_card', 'move_card', 'trello_add_comment', 'trello_add_label_to_card', 'trello_delete_card']) {
+        expect(names).not.toContain(mutating);
+      }
+    });
+
+    test('should apply the deny list over the allow list', () => {
+      const names = listTools({ policy: { allow: ['trello_search', 'get_card'], deny: ['get_card'] } }).map(tool => tool.name);
+
+      expect(names).toEqual(['trello_search']);
+    });
+
+    test('should refuse blocked calls with the reason', async () => {
+      const createCardSpy = jest.spyOn(TrelloClient.prototype, 'createCard');
+
+      const result = await callTool('create_card', {
+        apiKey: 'testKey',
+        token: 'testToken',
+        name: 'Blocked',
+        idList: MOCK_CARD_ID
+      }, { readOnly: true });
+
+      expect(createCardSpy).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('Error: tool "create_card" is not available on this server because the server is in read-only mode');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  ReferenceResolver,
+  ReferenceResolutionError,
+  parseTrelloUrl,
+  resolveToolReferences,
+  withReferenceSupport
+} from '../src/trello/resolver.js';
+import { moveCardTool } from '../src/tools/cards.js';
+import { jest } from '@jest/globals';
+import { TrelloClient } from '../src/trello/client';
+
+const BOARD_ID = '1a2b3c4d5e6f7a8b9c0d1e2f';
+const OTHER_BOARD_ID = '2b3c4d5e6f7a8b9c0d1e2f3a';
+const LIST_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
+const CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
+const LABEL_ID = '0f9e8d7c6b5a4321fedcba98';
+
+const boards = [
+  { id: BOARD_ID, name: 'Engineering', closed: false },
+  { id: OTHER_BOARD_ID, name: 'Engineering Archive', closed: true },
+  { id: 'aaaaaaaaaaaaaaaaaaaaaaaa', name: 'Roadmap 2024', closed: false },
+  { id: 'bbbbbbbbbbbbbbbbbbbbbbbb', name: 'Roadmap 2025', closed: false }
+];
+
+describe('Reference resolver', () => {
+  let client: TrelloClient;
+  let resolver: ReferenceResolver;
+
+  beforeEach(() => {
+    client = new TrelloClient({ apiKey: 'testKey', token: 'testToken' });
+    resolver = new ReferenceResolver(client);
+    jest.spyOn(TrelloClient.prototype, 'getMyBoards').mockResolvedValue({ data: boards as any });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseTrelloUrl', () => {
+    it('should recognise board and card URLs', () => {
+      expect(parseTrelloUrl('https://trello.com/b/AbCd1234/engineering')).toEqual({ type: 'board', shortLink: 'AbCd1234' });
+      expect(parseTrelloUrl('https://trello.com/c/AbCd1234')).toEqual({ type: 'card', shortLink: 'AbCd1234' });
+      expect(parseTrelloUrl('Engineering')).toBeUndefined();
+    });
+  });
+
+  describe('resolveBoard', () => {
+    it('should return IDs without calling the API', async () => {
+      await expect(resolver.resolveBoard(BOARD_ID)).resolves.toBe(BOARD_ID);
+      expect(TrelloClient.prototype.getMyBoards).not.toHaveBeenCalled();
+    });
+
+    it('should resolve an exact board name', async () => {
+      await expect(resolver.resolveBoard('engineering')).resolves.toBe(BOARD_ID);
+    });
+
+    it('should resolve a board URL through its shortLink', async () => {
+      const getBoardSpy = jest
+        .spyOn(TrelloClient.prototype, 'getBoard')
+        .mockResolvedValue({ data: { id: BOARD_ID } as any });
+
+      await expect(resolver.resolveBoard('https://trello.com/b/AbCd1234/engineering')).resolves.toBe(BOARD_ID);
+      expect(getBoardSpy).toHaveBeenCalledWith('AbCd1234');
+    });
+
+    it('should list the candidates when a name is ambiguous', async () => {
+      const error = await resolver.resolveBoard('roadmap').catch(err => err);
+
+      expect(error).toBeInstanceOf(ReferenceResolutionError);
+      expect(error.code).toBe('AMBIGUOUS_REFERENCE');
+      expect(error.message).toContain('"Roadmap 2024"');
+      expect(error.message).toContain('"Roadmap 2025"');
+      expect(error.candidates).toHaveLength(2);
+    });
+
+    it('should report when nothing matches', async () => {
+      await expect(resolver.resolveBoard('Marketing')).rejects.toMatchObject({
+        code: 'REFERENCE_NOT_FOUND'
+      });
+    });
+  });
+
+  describe('resolveCard', () => {
+    it('should resolve a card shortLink', async () => {
+      const getCardSpy = jest
+        .spyOn(TrelloClient.prototype, 'getCard')
+        .mockResolvedValue({ data: { id: CARD_ID, idBoard: BOARD_ID } as any });
+
+      await expect(resolver.resolveCard('https://trello.com/c/AbCd1234')).resolves.toBe(CARD_ID);
+      expect(getCardSpy).toHaveBeenCalledWith('AbCd1234');
+    });
+
+    it('should fuzzy match card names on the given board', async () => {
+      jest.spyOn(TrelloClient.prototype, 'getBoardCards').mockResolvedValue({
+        data: [
+          { id: CARD_ID, name: 'Fix login redirect' },
+          { id: 'cccccccccccccccccccccccc', name: 'Write release notes' }
+        ] as any
+      });
+
+      await expect(resolver.resolveCard('fix login', BOARD_ID)).resolves.toBe(CARD_ID);
+    });
+
+    it('should only accept the exact name when resolving for a destructive tool', async () => {
+      jest.spyOn(TrelloClient.prototype, 'getBoardCards').mockResolvedValue({
+        data: [
+          { id: CARD_ID, name: 'Fix login redirect' },
+          { id: 'cccccccccccccccccccccccc', name: 'Write release notes' }
+        ] as any
+      });
+      const exact = new ReferenceResolver(client, true);
+
+      const error = await exact.resolveCard('fix login', BOARD_ID).catch(err => err);
+
+      expect(error).toBeInstanceOf(ReferenceResolutionError);
+      expect(error.code).toBe('REFERENCE_NOT_FOUND');
+      expect(error.message).toBe(
+        `No card is named exactly "fix login"; tools that need confirmation only accept exact names or IDs. Close matches: "Fix login redirect" (${CARD_ID})`
+      );
+      await expect(exact.resolveCard('FIX LOGIN REDIRECT', BOARD_ID)).resolves.toBe(CARD_ID);
+    });
+  });
+
+  describe('resolveList', () => {
+    it('should load the lists of every open board in one batch', async () => {
+      const batchSpy = jest.spyOn(TrelloClient.prototype, 'batch').mockResolvedValue({
+        data: [
+          { ok: true, data: [{ id: LIST_ID, name: 'Ready for QA' }] },
+          { ok: false, error: { message: 'Insufficient permissions', status: 403 } },
+          { ok: true, data: [{ id: 'dddddddddddddddddddddddd', name: 'Done' }] }
+        ]
+      } as any);
+
+      await expect(resolver.resolveList('ready for qa')).resolves.toBe(LIST_ID);
+      expect(batchSpy).toHaveBeenCalledTimes(1);
+      expect(batchSpy).toHaveBeenCalledWith([
+        `/boards/${BOARD_ID}/lists?filter=open`,
+        '/boards/aaaaaaaaaaaaaaaaaaaaaaaa/lists?filter=open',
+        '/boards/bbbbbbbbbbbbbbbbbbbbbbbb/lists?filter=open'
+      ]);
+    });
+  });
+
+  describe('resolveToolReferences', () => {
+    it('should leave ID-only arguments untouched', async () => {
+      const args = { apiKey: 'testKey', token: 'testToken', cardId: CARD_ID, idList: LIST_ID };
+
+      await expect(resolveToolReferences(args)).resolves.toBe(args);
+    });
+
+    it('should resolve list and label names against the card board', async () => {
+      jest.spyOn(TrelloClient.prototype, 'getCard').mockResolvedValue({ data: { id: CARD_ID, idBoard: BOARD_ID } as any });
+      const getListsSpy = jest
+        .spyOn(TrelloClient.prototype, 'getBoardLists')
+        .mockResolvedValue({ data: [{ id: LIST_ID, name: 'In Progress' }] as any });
+      jest.spyOn(TrelloClient.prototype, 'getBoardLabels').mockResolvedValue({
+        data: [{ id: LABEL_ID, name: '', color: 'red' }] as any
+      });
+
+      const resolved = await resolveToolReferences({
+        apiKey: 'testKey',
+        token: 'testToken',
+        cardId: CARD_ID,
+        idList: 'in progress',
+        idLabels: ['red']
+      });
+
+      expect(getListsSpy).toHaveBeenCalledWith(BOARD_ID);
+      expect(resolved).toMatchObject({ cardId: CARD_ID, idList: LIST_ID, idLabels: [LABEL_ID] });
+    });
+
+    it('should resolve exact names only when asked to', async () => {
+      await expect(resolveToolReferences({ apiKey: 'testKey', token: 'testToken', boardId: 'Engineerng' }))
+        .resolves.toMatchObject({ boardId: BOARD_ID });
+      await expect(resolveToolReferences({ apiKey: 'testKey', token: 'testToken', boardId: 'Engineerng' }, true))
+        .rejects.toThrow(/^boardId: No board is named exactly "Engineerng"/);
+    });
+
+    it('should prefix errors with the argument name', async () => {
+      await expect(resolveToolReferences({ apiKey: 'testKey', token: 'testToken', boardId: 'roadmap' }))
+        .rejects.toThrow(/^boardId: "roadmap" matches 2 boards/);
+    });
+  });
+
+  describe('withReferenceSupport', () => {
+    it('should relax the ID pattern and document the accepted forms', () => {
+      const tool = withReferenceSupport(moveCardTool);
+      const properties = tool.inputSchema.properties as Record<string, Record<string, unknown>>;
+
+      expect(properties.cardId.pattern).toBeUndefined();
+      expect(properties.cardId.description).toContain('Trello card URL');
+      expect(properties.idList.description).toContain('list name');
+      expect(moveCardTool.inputSchema.properties).toHaveProperty('cardId.pattern');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { listResources, readResource, resourceTemplates } from '../src/resources/registry.js';
+import { jest } from '@jest/globals';
+import { TrelloClient } from '../src/trello/client';
+
+const BOARD_ID = '1a2b3c4d5e6f7a8b9c0d1e2f';
+const LIST_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
+const CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
+
+const credentials = { apiKey: 'testKey', token: 'testToken' };
+
+// Answers each batched route from the map by path, 404 for anything else
+function mockBatch(routes: Record<string, unknown>) {
+  return jest.spyOn(TrelloClient.prototype, 'batch').mockImplementation(async (urls: string[]) => ({
+    data: urls.map(url => {
+      const path = url.split('?')[0];
+      return path in routes
+        ? { ok: true as const, data: routes[path] }
+        : { ok: false as const, error: { message: 'Resource not found', status: 404, code: 'NOT_FOUND' } };
+    })
+  }) as any);
+}
+
+const card = {
+  id: CARD_ID,
+  name: 'Fix login redirect',
+  desc: 'Users land on a blank page',
+  idBoard: BOARD_ID,
+  idList: LIST_ID,
+  closed: false,
+  due: '2026-10-30T12:00:00.000Z',
+  dueComplete: false,
+  shortUrl: 'https://trello.com/c/AbCd1234',
+  labels: [{ id: 'label1', name: 'Bug', color: 'red' }],
+  members: [{ id: 'member1', username: 'jdoe', fullName: 'Jamie Doe' }],
+  checklists: [{
+    id: 'checklist1',
+    name: 'QA',
+    checkItems: [
+      { id: 'item1', name: 'Reproduce', state: 'complete' },
+      { id: 'item2', name: 'Add regression test', state: 'incomplete' }
+    ]
+  }]
+};
+
+describe('Trello resources', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should advertise board, list and card templates', () => {
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'trello://board/{boardId}',
+      'trello://board/{boardId}/list/{listId}',
+      'trello://card/{cardId}'
+    ]);
+  });
+
+  it('should list the board overview and each open board', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getMyBoards').mockResolvedValue({
+      data: [{ id: BOARD_ID, name: 'Engineering', desc: 'Sprint work\nMore detail', closed: false }] as any
+    });
+
+    const resources = await listResources(credentials);
+
+    expect(resources.map(resource => resource.uri)).toEqual(['trello://boards', `trello://board/${BOARD_ID}`]);
+    expect(resources[1]).toMatchObject({ name: 'Engineering', description: 'Sprint work', mimeType: 'text/markdown' });
+  });
+
+  it('should still list the overview when boards cannot be fetched', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getMyBoards').mockRejectedValue({ message: 'Unauthorized', status: 401 });
+
+    const resources = await listResources(credentials);
+
+    expect(resources.map(resource => resource.uri)).toEqual(['trello://boards']);
+  });
+
+  it('should render a board with its lists and cards', async () => {
+    const getBoardSpy = jest.spyOn(TrelloClient.prototype, 'getBoard').mockResolvedValue({
+      data: {
+        id: BOARD_ID,
+        name: 'Engineering',
+        desc: '',
+        shortUrl: 'https://trello.com/b/WxYz5678',
+        lists: [{ id: LIST_ID, name: 'In Progress' }],
+        cards: [card]
+      } as any
+    });
+
+    const [contents] = await readResource(`trello://board/${BOARD_ID}`, credentials);
+
+    expect(getBoardSpy).toHaveBeenCalledWith(BOARD_ID, true);
+    expect(contents.mimeType).toBe('text/markdown');
+    expect(contents.text).toContain(`## [In Progress](trello://board/${BOARD_ID}/list/${LIST_ID}) (1)`);
+    expect(contents.text).toContain(`- [Fix login redirect](trello://card/${CARD_ID}) [Bug] @jdoe — due 2026-10-30`);
+  });
+
+  it('should render the cards of a single list', async () => {
+    const batchSpy = mockBatch({
+      [`/boards/${BOARD_ID}`]: { id: BOARD_ID, name: 'Engineering' },
+      [`/boards/${BOARD_ID}/lists`]: [{ id: LIST_ID, name: 'In Progress' }],
+      [`/lists/${LIST_ID}/cards`]: [card]
+    });
+
+    const [contents] = await readResource(`trello://board/${BOARD_ID}/list/${LIST_ID}`, credentials);
+
+    expect(batchSpy).toHaveBeenCalledTimes(1);
+    expect(batchSpy.mock.calls[0][0]).toContain(`/lists/${LIST_ID}/cards?filter=open`);
+    expect(contents.text).toContain('# In Progress');
+    expect(contents.text).toContain('1 card(s)');
+  });
+
+  it('should render a card with checklists and comments', async () => {
+    const batchSpy = mockBatch({
+      [`/cards/${CARD_ID}`]: card,
+      [`/cards/${CARD_ID}/actions`]: [{
+        id: 'action1',
+        type: 'commentCard',
+        date: '2026-10-18T09:00:00.000Z',
+        data: { text: 'Looking into it' },
+        memberCreator: { id: 'member1', username: 'jdoe', fullName: 'Jamie Doe' }
+      }]
+    });
+
+    const [contents] = await readResource(`trello://card/${CARD_ID}`, credentials);
+
+    expect(batchSpy.mock.calls[0][0]).toContain(`/cards/${CARD_ID}/actions?filter=commentCard&limit=20`);
+    expect(contents.text).toContain('## QA (1/2)');
+    expect(contents.text).toContain('- [x] Reproduce');
+    expect(contents.text).toContain('> Looking into it');
+  });
+
+  it('should resolve board names in URIs', async () => {
+    jest.spyOn(TrelloClient.prototype, 'getMyBoards').mockResolvedValue({
+      data: [{ id: BOARD_ID, name: 'Engineering', closed: false }] as any
+    });
+    const getBoardSpy = jest.spyOn(TrelloClient.prototype, 'getBoard').mockResolvedValue({
+      data: { id: BOARD_ID, name: 'Engineering', shortUrl: '', lists: [], cards: [] } as any
+    });
+
+    await readResource('trello://board/engineering', credentials);
+
+    expect(getBoardSpy).toHaveBeenCalledWith(BOARD_ID, true);
+  });
+
+  it('should surface Trello errors as Error instances', async () => {
+    mockBatch({ [`/cards/${CARD_ID}/actions`]: [] });
+
+    await expect(readResource(`trello://card/${CARD_ID}`, credentials)).rejects.toThrow('Resource not found');
+  });
+
+  it('should reject unknown URIs', async () => {
+    await expect(readResource('trello://workspace/abc', credentials)).rejects.toThrow('Unknown resource: trello://workspace/abc');
+  });
+});
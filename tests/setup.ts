@@ -0,0 +1,3 @@
+// The audit journal defaults to a file in the home directory; tests that
+// exercise it point TRELLO_JOURNAL_FILE at a temporary file instead
+process.env.TRELLO_JOURNAL_FILE = 'off';
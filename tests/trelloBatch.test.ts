@@ -0,0 +1,90 @@
+import { TrelloClient, unwrapBatchItem } from '../src/trello/client';
+import { ResponseCache } from '../src/trello/cache';
+import { jest } from '@jest/globals';
+
+const credentials = { apiKey: 'testKey', token: 'testToken' };
+
+function jsonResponse(body: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    headers: new Headers()
+  } as Response;
+}
+
+function batchedRoutes(url: string | URL | Request): string[] {
+  return (new URL(url.toString()).searchParams.get('urls') ?? '').split(',');
+}
+
+describe('TrelloClient.batch', () => {
+  let client: TrelloClient;
+
+  beforeEach(() => {
+    client = new TrelloClient(credentials, { cache: new ResponseCache(60_000) });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should split more than ten routes into several /batch calls and keep the order', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(url =>
+      Promise.resolve(jsonResponse(batchedRoutes(url).map(route => ({ 200: { route } }))))
+    );
+    const urls = Array.from({ length: 23 }, (_, index) => `/cards/card${index}`);
+
+    const response = await client.batch<{ route: string }>(urls);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(fetchSpy.mock.calls.map(([url]) => batchedRoutes(url).length)).toEqual([10, 10, 3]);
+    expect(new URL(fetchSpy.mock.calls[0][0].toString()).pathname).toBe('/1/batch');
+    expect(response.data.map(item => unwrapBatchItem(item).route)).toEqual(urls);
+    expect(response.fromCache).toBe(false);
+  });
+
+  it('should map failed items to TrelloErrors without failing the others', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(jsonResponse([
+      { 200: { id: 'card1' } },
+      { 404: 'The requested resource was not found.' },
+      { name: 'Unauthorized', message: 'unauthorized card permission requested', statusCode: 401 }
+    ]));
+
+    const response = await client.batch(['/cards/card1', '/cards/missing', '/cards/private']);
+
+    expect(response.data[0]).toEqual({ ok: true, data: { id: 'card1' } });
+    expect(response.data[1]).toMatchObject({ ok: false, error: { status: 404, code: 'NOT_FOUND', message: 'Resource not found' } });
+    expect(response.data[2]).toMatchObject({ ok: false, error: { status: 401, code: 'INVALID_CREDENTIALS' } });
+    expect(() => unwrapBatchItem(response.data[1])).toThrow();
+  });
+
+  it('should escape commas inside a route', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(jsonResponse([{ 200: [] }, { 200: [] }]));
+
+    await client.batch(['/boards/board1/actions?filter=createCard,updateCard', '/boards/board1/labels']);
+
+    expect(batchedRoutes(fetchSpy.mock.calls[0][0])).toEqual([
+      '/boards/board1/actions?filter=createCard%2CupdateCard',
+      '/boards/board1/labels'
+    ]);
+  });
+
+  it('should share cached items with regular requests', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(jsonResponse([{ 200: [{ id: 'list1', name: 'To Do' }] }]));
+
+    await client.batch(['/boards/board1/lists?filter=open']);
+    const lists = await client.getBoardLists('board1');
+    const again = await client.batch(['/boards/board1/lists?filter=open']);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(lists).toMatchObject({ data: [{ id: 'list1' }], fromCache: true });
+    expect(again.fromCache).toBe(true);
+  });
+
+  it('should not call the API for an empty batch', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+
+    await expect(client.batch([])).resolves.toMatchObject({ data: [] });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
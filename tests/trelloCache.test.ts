@@ -0,0 +1,163 @@
+import { TrelloClient } from '../src/trello/client';
+import { ResponseCache, cacheKey, collectTags, invalidationTags } from '../src/trello/cache';
+import { jest } from '@jest/globals';
+
+const BOARD_ID = '1a2b3c4d5e6f7a8b9c0d1e2f';
+const LIST_ID = '5f6e7d8c9b0a1e2d3c4b5a6f';
+const OTHER_LIST_ID = '6a7b8c9d0e1f2a3b4c5d6e7f';
+const CARD_ID = '64b7f2c5d9a1b3c4d5e6f7a8';
+
+const credentials = { apiKey: 'testKey', token: 'testToken' };
+
+function jsonResponse(body: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    headers: new Headers()
+  } as Response;
+}
+
+describe('Response cache', () => {
+  describe('ResponseCache', () => {
+    it('should expire entries after the TTL', () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+      const cache = new ResponseCache(500);
+
+      cache.set('key', { id: CARD_ID }, [CARD_ID]);
+      expect(cache.get('key')).toEqual({ id: CARD_ID });
+
+      nowSpy.mockReturnValue(1_500);
+      expect(cache.get('key')).toBeUndefined();
+      nowSpy.mockRestore();
+    });
+
+    it('should evict the oldest entry when full', () => {
+      const cache = new ResponseCache(60_000, 2);
+
+      cache.set('a', 1, []);
+      cache.set('b', 2, []);
+      cache.set('c', 3, []);
+
+      expect(cache.get('a')).toBeUndefined();
+      expect(cache.size).toBe(2);
+    });
+
+    it('should drop every entry sharing a tag', () => {
+      const cache = new ResponseCache(60_000);
+
+      cache.set('board', {}, [BOARD_ID, CARD_ID]);
+      cache.set('list', {}, [LIST_ID, CARD_ID]);
+      cache.set('other', {}, [OTHER_LIST_ID]);
+
+      expect(cache.invalidate([CARD_ID])).toBe(2);
+      expect(cache.get('other')).toEqual({});
+    });
+
+    it('should not store anything when disabled', () => {
+      const cache = new ResponseCache(0);
+
+      cache.set('key', 1, []);
+
+      expect(cache.enabled).toBe(false);
+      expect(cache.size).toBe(0);
+    });
+  });
+
+  describe('keys and tags', () => {
+    it('should scope keys by credentials and ignore parameter order', () => {
+      expect(cacheKey(credentials, '/boards/x', { a: '1', b: '2' })).toBe(cacheKey(credentials, '/boards/x', { b: '2', a: '1' }));
+      expect(cacheKey(credentials, '/boards/x')).not.toBe(cacheKey({ apiKey: 'testKey', token: 'otherToken' }, '/boards/x'));
+      expect(cacheKey(credentials, '/boards/x')).not.toContain('testToken');
+    });
+
+    it('should collect IDs from the path and payloads', () => {
+      const tags = collectTags(`/lists/${LIST_ID}/cards`, [{ id: CARD_ID, idBoard: BOARD_ID, idLabels: ['label1'], name: 'Card' }]);
+
+      expect([...tags].sort()).toEqual([CARD_ID, BOARD_ID, LIST_ID, 'label1'].sort());
+    });
+
+    it('should invalidate the member board list on board writes', () => {
+      expect(invalidationTags('/boards', { name: 'New board' })).toContain('me');
+      expect(invalidationTags(`/cards/${CARD_ID}`)).not.toContain('me');
+    });
+  });
+
+  describe('TrelloClient', () => {
+    let client: TrelloClient;
+    let fetchSpy: jest.SpiedFunction<typeof fetch>;
+
+    beforeEach(() => {
+      client = new TrelloClient(credentials, { cache: new ResponseCache(60_000) });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should serve repeated reads from the cache', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(() => Promise.resolve(jsonResponse([{ id: LIST_ID, name: 'To Do' }])));
+
+      const first = await client.getBoardLists(BOARD_ID);
+      const second = await client.getBoardLists(BOARD_ID);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(first.fromCache).toBe(false);
+      expect(second).toEqual({ data: first.data, fromCache: true });
+    });
+
+    it('should hand out copies so callers cannot corrupt the cache', async () => {
+      jest.spyOn(global, 'fetch').mockImplementation(() => Promise.resolve(jsonResponse([{ id: LIST_ID, name: 'To Do' }])));
+
+      const first = await client.getBoardLists(BOARD_ID);
+      first.data[0].name = 'Changed';
+
+      expect((await client.getBoardLists(BOARD_ID)).data[0].name).toBe('To Do');
+    });
+
+    it('should invalidate the old and new list when a card moves', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((url, init) => {
+        const path = new URL(url.toString()).pathname;
+        if (init?.method === 'PUT') {
+          return Promise.resolve(jsonResponse({ id: CARD_ID, idList: OTHER_LIST_ID, idBoard: BOARD_ID }));
+        }
+        if (path === `/1/lists/${LIST_ID}/cards`) {
+          return Promise.resolve(jsonResponse([{ id: CARD_ID, idList: LIST_ID }]));
+        }
+        return Promise.resolve(jsonResponse([]));
+      });
+
+      await client.getListCards(LIST_ID);
+      await client.getListCards(OTHER_LIST_ID);
+      await client.moveCard(CARD_ID, { idList: OTHER_LIST_ID });
+      await client.getListCards(LIST_ID);
+      await client.getListCards(OTHER_LIST_ID);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(5);
+    });
+
+    it('should invalidate card reads after adding a label', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((_url, init) =>
+        Promise.resolve(jsonResponse(init?.method === 'POST' ? ['label1'] : { id: CARD_ID, idBoard: BOARD_ID }))
+      );
+
+      await client.getCard(CARD_ID);
+      await client.addLabelToCard(CARD_ID, 'label1');
+      const card = await client.getCard(CARD_ID);
+
+      expect(card.fromCache).toBe(false);
+      expect(fetchSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should leave unrelated entries cached after a write', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((_url, init) =>
+        Promise.resolve(jsonResponse(init?.method === 'POST' ? { id: 'newlabel', idBoard: BOARD_ID } : [{ id: OTHER_LIST_ID }]))
+      );
+
+      await client.getListCards(OTHER_LIST_ID);
+      await client.createLabel(BOARD_ID, 'Bug', 'red');
+
+      expect((await client.getListCards(OTHER_LIST_ID)).fromCache).toBe(true);
+    });
+  });
+});
@@ -295,6 +295,16 @@ describe('TrelloClient with internal mock', () => {
     ]);
   });
 
+  test('should send credentials in the Authorization header, not the URL', async () => {
+    await client.getBoardLists('testBoardId', 'all');
+
+    const [url, init] = fetchSpy.mock.calls[fetchSpy.mock.calls.length - 1] as [string, RequestInit];
+    expect(url).not.toContain('dummy_key');
+    expect(url).not.toContain('dummy_token');
+    expect((init.headers as Record<string, string>).Authorization)
+      .toBe('OAuth oauth_consumer_key="dummy_key", oauth_token="dummy_token"');
+  });
+
   test('should fetch a specific board from the mocked API', async () => {
     const boardId = 'testBoardId';
     const response = await client.getBoard(boardId);
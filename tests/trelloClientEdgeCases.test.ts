@@ -1,4 +1,5 @@
 import { TrelloClient } from '../src/trello/client';
+import { ResponseCache } from '../src/trello/cache';
 import { jest } from '@jest/globals';
 
 describe('TrelloClient Edge Cases', () => {
@@ -6,10 +7,11 @@ describe('TrelloClient Edge Cases', () => {
   let fetchSpy: jest.SpyInstance;
 
   beforeEach(() => {
+    // Every test mocks its own fetch responses, so bypass the response cache
     client = new TrelloClient({
       apiKey: 'test-api-key',
       token: 'test-token'
-    });
+    }, { cache: new ResponseCache(0) });
   });
 
   afterEach(() => {
@@ -277,6 +279,23 @@ describe('TrelloClient Edge Cases', () => {
       });
     });
 
+    it('should encode the search query exactly once', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((url) => {
+        const urlObj = new URL(url.toString());
+        expect(urlObj.search).toContain('query=My+card%3A+%22fix%22');
+        expect(urlObj.searchParams.get('query')).toBe('My card: "fix"');
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({}),
+          headers: new Headers()
+        } as Response);
+      });
+
+      await client.search('My card: "fix"');
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle list cards with filter options', async () => {
       fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((url) => {
         const urlObj = new URL(url.toString());
@@ -344,6 +363,37 @@ describe('TrelloClient Edge Cases', () => {
 
       await client.deleteCard('card-id');
     });
+
+    it('should target the card check item endpoint for updateCheckItem', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((url, init) => {
+        expect(new URL(url.toString()).pathname).toBe('/1/cards/card-id/checkItem/item-id');
+        expect(init?.method).toBe('PUT');
+        expect(JSON.parse(init?.body as string)).toEqual({ state: 'complete' });
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ id: 'item-id', state: 'complete' }),
+          headers: new Headers()
+        } as Response);
+      });
+
+      await client.updateCheckItem('card-id', 'item-id', { state: 'complete' });
+    });
+
+    it('should use DELETE for deleteCheckItem', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((url, init) => {
+        expect(new URL(url.toString()).pathname).toBe('/1/checklists/checklist-id/checkItems/item-id');
+        expect(init?.method).toBe('DELETE');
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({}),
+          headers: new Headers()
+        } as Response);
+      });
+
+      await client.deleteCheckItem('checklist-id', 'item-id');
+    });
   });
 
   describe('Card Operations with Details', () => {
@@ -401,6 +451,28 @@ describe('TrelloClient Edge Cases', () => {
       });
     });
 
+    it('should get board actions since a date', async () => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((url) => {
+        const urlObj = new URL(url.toString());
+        expect(urlObj.pathname).toBe('/1/boards/board-id/actions');
+        expect(urlObj.searchParams.get('filter')).toBe('createCard,updateCard');
+        expect(urlObj.searchParams.get('since')).toBe('2026-10-01T00:00:00.000Z');
+        expect(urlObj.searchParams.get('limit')).toBe('500');
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve([]),
+          headers: new Headers()
+        } as Response);
+      });
+
+      await client.getBoardActions('board-id', {
+        filter: 'createCard,updateCard',
+        since: '2026-10-01T00:00:00.000Z',
+        limit: 500
+      });
+    });
+
     it('should get card attachments with specific fields', async () => {
       fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((url) => {
         const urlObj = new URL(url.toString());
@@ -0,0 +1,68 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startFakeTrelloServer } from '../src/fake/server.js';
+import { FakeTrelloState } from '../src/fake/state.js';
+import { FixtureStore, scrubURL } from '../src/trello/fixtures.js';
+import { ResponseCache } from '../src/trello/cache.js';
+import { TrelloClient } from '../src/trello/client';
+
+const credentials = { apiKey: 'recordKey', token: 'recordToken' };
+
+describe('Trello fixtures', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'trello-fixtures-'));
+    file = join(dir, 'session.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should scrub credentials and the API root from URLs', () => {
+    expect(scrubURL('https://api.trello.com/1/boards/abc?token=t&filter=open&key=k', 'https://api.trello.com/1'))
+      .toBe('/boards/abc?filter=open');
+  });
+
+  it('should replay a recorded session without the network', async () => {
+    const fake = await startFakeTrelloServer({ state: FakeTrelloState.withSampleData() });
+    const record = (client: TrelloClient) => Promise.all([client.getMyBoards('open'), client.getCurrentUser()]);
+    let recorded: Awaited<ReturnType<typeof record>>;
+    let cardId: string;
+
+    try {
+      const client = new TrelloClient(credentials, {
+        baseURL: fake.url,
+        cache: new ResponseCache(0),
+        fixtures: new FixtureStore(file, 'record')
+      });
+      recorded = await record(client);
+      const listId = fake.state.boardLists(recorded[0].data[0].id)[0].id;
+      cardId = (await client.createCard({ name: 'Recorded card', idList: listId })).data.id;
+      await client.getCard(cardId);
+    } finally {
+      await fake.close();
+    }
+
+    const contents = readFileSync(file, 'utf8');
+    expect(contents).not.toContain(credentials.apiKey);
+    expect(contents).not.toContain(credentials.token);
+    expect(JSON.parse(contents)).toHaveLength(4);
+
+    // The fake server is gone, so every response below comes from the file
+    const replay = new TrelloClient(credentials, {
+      baseURL: fake.url,
+      cache: new ResponseCache(0),
+      fixtures: new FixtureStore(file, 'replay')
+    });
+    const replayed = await record(replay);
+    const boardId = recorded[0].data[0].id;
+
+    expect(replayed.map(response => response.data)).toEqual(recorded.map(response => response.data));
+    await expect(replay.getCard(cardId)).resolves.toMatchObject({ data: { name: 'Recorded card' } });
+    await expect(replay.getBoardLists(boardId)).rejects.toMatchObject({ code: 'FIXTURE_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,214 @@
+import { appendFileSync, existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startFakeTrelloServer, type FakeTrelloServer } from '../src/fake/server.js';
+import { FakeTrelloState } from '../src/fake/state.js';
+import { callTool } from '../src/tools/registry.js';
+import { ResponseCache, responseCache } from '../src/trello/cache.js';
+import { TrelloClient } from '../src/trello/client.js';
+import { Journal, journalFilePath } from '../src/trello/journal.js';
+
+const credentials = { apiKey: 'fakeKey', token: 'fakeToken' };
+
+function payload(result: { content: Array<{ text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('Audit journal', () => {
+  let fake: FakeTrelloServer;
+  let dir: string;
+  let journalFile: string;
+  let listIds: string[];
+  let labelId: string;
+  const originalBaseURL = process.env.TRELLO_BASE_URL;
+
+  beforeAll(async () => {
+    fake = await startFakeTrelloServer({ state: FakeTrelloState.withSampleData() });
+    process.env.TRELLO_BASE_URL = fake.url;
+    const boardId = [...fake.state.boards.values()][0].id;
+    listIds = fake.state.boardLists(boardId).map(list => list.id);
+    labelId = [...fake.state.labels.values()][0].id;
+  });
+
+  afterAll(async () => {
+    if (originalBaseURL === undefined) {
+      delete process.env.TRELLO_BASE_URL;
+    } else {
+      process.env.TRELLO_BASE_URL = originalBaseURL;
+    }
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    responseCache.clear();
+    dir = mkdtempSync(join(tmpdir(), 'trello-journal-'));
+    journalFile = join(dir, 'journal.jsonl');
+    process.env.TRELLO_JOURNAL_FILE = journalFile;
+  });
+
+  afterEach(() => {
+    process.env.TRELLO_JOURNAL_FILE = 'off';
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function newCard(name = 'Journal me') {
+    return fake.state.createCard({ name, idList: listIds[0] });
+  }
+
+  async function lastEntry(entityId: string) {
+    return payload(await callTool('trello_history', { ...credentials, entityId, limit: 1, includeStates: true })).entries[0];
+  }
+
+  it('should not write anything when the journal is off', async () => {
+    process.env.TRELLO_JOURNAL_FILE = 'off';
+    const card = newCard();
+
+    await new TrelloClient(credentials, { cache: new ResponseCache(0) }).updateCard(card.id, { name: 'Unrecorded' });
+
+    expect(existsSync(journalFile)).toBe(false);
+  });
+
+  it('should record the tool, its arguments and the state before each write', async () => {
+    const card = newCard();
+
+    await callTool('update_card', { ...credentials, cardId: card.id, name: 'Renamed' });
+
+    const [entry] = new Journal(journalFile).entries();
+    expect(entry).toMatchObject({
+      tool: 'update_card',
+      toolArgs: { cardId: card.id, name: 'Renamed' },
+      operation: 'updateCard',
+      args: [card.id, { name: 'Renamed' }],
+      entity: { type: 'card', id: card.id },
+      before: { id: card.id, name: 'Journal me' },
+      result: { id: card.id, name: 'Renamed' }
+    });
+    expect(entry.toolArgs).not.toHaveProperty('apiKey');
+    expect(entry.toolArgs).not.toHaveProperty('token');
+  });
+
+  it('should record creates with the new ID and failed writes with their error', async () => {
+    const client = new TrelloClient(credentials);
+    const { data: list } = await client.createList({ name: 'Journaled', idBoard: [...fake.state.boards.values()][0].id });
+    await expect(client.archiveCard('64b7f2c5d9a1ffffffffffff')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const [created, failed] = new Journal(journalFile).entries();
+    expect(created).toMatchObject({ operation: 'createList', entity: { type: 'list', id: list.id }, before: null });
+    expect(failed).toMatchObject({ operation: 'archiveCard', before: null, error: 'Resource not found' });
+    expect(failed).not.toHaveProperty('tool');
+  });
+
+  it('should list changes newest first and mark the undoable ones', async () => {
+    const card = newCard();
+    await callTool('update_card', { ...credentials, cardId: card.id, desc: 'First' });
+    await callTool('trello_add_comment', { ...credentials, cardId: card.id, text: 'Noted' });
+
+    const history = payload(await callTool('trello_history', { ...credentials, entityId: card.id }));
+
+    expect(history.entries.map((entry: { operation: string; undoable: boolean }) => [entry.operation, entry.undoable]))
+      .toEqual([['addCommentToCard', false], ['updateCard', true]]);
+    expect(history.entries[0]).not.toHaveProperty('before');
+  });
+
+  it('should undo a card update once', async () => {
+    const card = newCard('Original');
+    await callTool('update_card', { ...credentials, cardId: card.id, name: 'Mistake', desc: 'Wrong' });
+    const entry = await lastEntry(card.id);
+
+    const undone = payload(await callTool('trello_undo', { ...credentials, entryId: entry.id, confirm: true }));
+    expect(undone.summary).toBe(`Undid entry ${entry.id}: revert card "Mistake" (name, desc)`);
+    expect(fake.state.findCard(card.id)).toMatchObject({ name: 'Original', desc: '' });
+
+    const undoEntry = await lastEntry(card.id);
+    expect(undoEntry).toMatchObject({ tool: 'trello_undo', operation: 'updateCard', undoOf: entry.id });
+
+    const again = await callTool('trello_undo', { ...credentials, entryId: entry.id, confirm: true });
+    expect(again.isError).toBe(true);
+    expect(again.content[0].text).toBe(`Error undoing change: entry ${entry.id} was already undone by entry ${undoEntry.id}`);
+  });
+
+  it('should undo moves, archives and label changes', async () => {
+    const card = newCard();
+
+    await callTool('move_card', { ...credentials, cardId: card.id, idList: listIds[1] });
+    await callTool('trello_undo', { ...credentials, entryId: (await lastEntry(card.id)).id, confirm: true });
+    expect(fake.state.findCard(card.id).idList).toBe(listIds[0]);
+
+    await callTool('trello_archive_card', { ...credentials, cardId: card.id, confirm: true });
+    await callTool('trello_undo', { ...credentials, entryId: (await lastEntry(card.id)).id, confirm: true });
+    expect(fake.state.findCard(card.id).closed).toBe(false);
+
+    await callTool('trello_add_label_to_card', { ...credentials, cardId: card.id, labelId });
+    await callTool('trello_undo', { ...credentials, entryId: (await lastEntry(card.id)).id, confirm: true });
+    expect(fake.state.findCard(card.id).idLabels).toEqual([]);
+  });
+
+  it('should refuse to undo over later changes unless forced', async () => {
+    const card = newCard('Original');
+    await callTool('update_card', { ...credentials, cardId: card.id, name: 'First edit' });
+    const entry = await lastEntry(card.id);
+    fake.state.updateCard(card.id, { name: 'Edited in Trello' });
+    responseCache.clear();
+
+    const refused = await callTool('trello_undo', { ...credentials, entryId: entry.id, confirm: true });
+    expect(refused.content[0].text).toBe(
+      `Error undoing change: card "Edited in Trello" has changed since entry ${entry.id} (name); pass "force": true to undo anyway`
+    );
+
+    const forced = await callTool('trello_undo', { ...credentials, entryId: entry.id, force: true, confirm: true });
+    expect(forced.isError).toBeUndefined();
+    expect(fake.state.findCard(card.id).name).toBe('Original');
+  });
+
+  it('should refuse operations it cannot revert', async () => {
+    const card = newCard();
+    await callTool('trello_add_comment', { ...credentials, cardId: card.id, text: 'Permanent' });
+    const entry = await lastEntry(card.id);
+
+    const result = await callTool('trello_undo', { ...credentials, entryId: entry.id, confirm: true });
+
+    expect(result.content[0].text).toBe(
+      'Error undoing change: addCommentToCard cannot be undone; trello_undo reverts card updates, moves, archives and label changes'
+    );
+  });
+
+  it('should skip lines that do not parse', () => {
+    const journal = new Journal(journalFile);
+    journal.append({ operation: 'archiveCard', args: ['a'], entity: { type: 'card', id: 'a' }, before: null, result: null });
+    appendFileSync(journalFile, '{"id": "cut sh');
+
+    expect(journal.entries()).toHaveLength(1);
+  });
+
+  it('should only show and undo the changes made with the same credentials', async () => {
+    const card = newCard('Shared');
+    await callTool('update_card', { ...credentials, cardId: card.id, desc: 'secret plan from alice' });
+    const entry = await lastEntry(card.id);
+    const bob = { apiKey: 'bobKey', token: 'bobToken' };
+
+    const history = payload(await callTool('trello_history', { ...bob, entityId: card.id }));
+    const undo = await callTool('trello_undo', { ...bob, entryId: entry.id, confirm: true });
+
+    expect(history.entries).toEqual([]);
+    expect(undo.content[0].text).toBe(`Error undoing change: no journal entry ${entry.id} in ${journalFile}`);
+    expect(fake.state.findCard(card.id).desc).toBe('secret plan from alice');
+  });
+
+  it('should keep the journal in the home directory unless told otherwise', () => {
+    delete process.env.TRELLO_JOURNAL_FILE;
+    expect(journalFilePath()).toBe(join(homedir(), '.trello-mcp', 'journal.jsonl'));
+
+    process.env.TRELLO_JOURNAL_FILE = 'off';
+    expect(journalFilePath()).toBeUndefined();
+  });
+
+  it('should explain how to turn the journal on', async () => {
+    process.env.TRELLO_JOURNAL_FILE = 'off';
+
+    const result = await callTool('trello_history', { ...credentials });
+
+    expect(result.content[0].text).toBe(
+      'Error reading history: the audit journal is off. Unset TRELLO_JOURNAL_FILE, or set it to a file, to record the changes made through this server.'
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { TrelloClient } from '../src/trello/client';
+import { ResponseCache } from '../src/trello/cache';
+import { RateLimitGovernor, TokenBucket } from '../src/trello/rateLimiter';
+import { jest } from '@jest/globals';
+
+const alice = { apiKey: 'sharedKey', token: 'aliceToken' };
+const bob = { apiKey: 'sharedKey', token: 'bobToken' };
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('Rate limit governor', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('TokenBucket', () => {
+    it('should refill continuously over the interval', () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const bucket = new TokenBucket(2, 1000);
+
+      bucket.take();
+      bucket.take();
+      expect(bucket.msUntilAvailable()).toBe(500);
+
+      nowSpy.mockReturnValue(500);
+      expect(bucket.msUntilAvailable()).toBe(0);
+    });
+
+    it('should never report more tokens than the server allows', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(0);
+      const bucket = new TokenBucket(100, 10_000);
+
+      bucket.sync(0, 100, 10_000);
+
+      expect(bucket.msUntilAvailable()).toBe(100);
+    });
+
+    it('should hold requests while blocked', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(0);
+      const bucket = new TokenBucket(10, 1000);
+
+      bucket.block(2000);
+
+      expect(bucket.msUntilAvailable()).toBe(2000);
+    });
+  });
+
+  describe('RateLimitGovernor', () => {
+    it('should queue requests beyond the token budget and release them as it refills', async () => {
+      jest.useFakeTimers();
+      const governor = new RateLimitGovernor({ intervalMs: 1000, keyLimit: 10, tokenLimit: 2 });
+      const started: number[] = [];
+
+      const requests = [1, 2, 3].map(n => governor.schedule(alice, async () => { started.push(n); return n; }));
+
+      expect(started).toEqual([1, 2]);
+      expect(governor.queueDepth).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(started).toEqual([1, 2, 3]);
+      expect(governor.queueDepth).toBe(0);
+      await expect(Promise.all(requests)).resolves.toEqual([1, 2, 3]);
+    });
+
+    it('should let other tokens through while one is throttled', async () => {
+      jest.useFakeTimers();
+      const governor = new RateLimitGovernor({ intervalMs: 1000, keyLimit: 10, tokenLimit: 1 });
+      const started: string[] = [];
+
+      governor.schedule(alice, async () => { started.push('alice-1'); });
+      governor.schedule(alice, async () => { started.push('alice-2'); });
+      governor.schedule(bob, async () => { started.push('bob-1'); });
+
+      expect(started).toEqual(['alice-1', 'bob-1']);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(started).toEqual(['alice-1', 'bob-1', 'alice-2']);
+    });
+
+    it('should share the API key budget across tokens', () => {
+      const governor = new RateLimitGovernor({ intervalMs: 1000, keyLimit: 1, tokenLimit: 10 });
+      const started: string[] = [];
+
+      governor.schedule(alice, async () => { started.push('alice'); });
+      governor.schedule(bob, async () => { started.push('bob'); });
+
+      expect(started).toEqual(['alice']);
+      expect(governor.queueDepth).toBe(1);
+    });
+
+    it('should pace requests from the response headers', () => {
+      const governor = new RateLimitGovernor({ intervalMs: 10_000, keyLimit: 300, tokenLimit: 100 });
+      const started: string[] = [];
+
+      governor.observe(alice, new Headers({
+        'x-rate-limit-api-token-remaining': '0',
+        'x-rate-limit-api-token-max-requests': '100',
+        'x-rate-limit-api-token-interval-ms': '10000'
+      }));
+      governor.schedule(alice, async () => { started.push('alice'); });
+
+      expect(started).toEqual([]);
+      expect(governor.queueDepth).toBe(1);
+    });
+
+    it('should reject when the task fails', async () => {
+      const governor = new RateLimitGovernor();
+
+      await expect(governor.schedule(alice, () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    });
+  });
+
+  describe('TrelloClient', () => {
+    it('should hold requests after a 429 until Retry-After has passed', async () => {
+      jest.useFakeTimers();
+      const governor = new RateLimitGovernor();
+      const client = new TrelloClient(alice, { cache: new ResponseCache(0), governor });
+      const firstCall = deferred();
+      let calls = 0;
+
+      jest.spyOn(global, 'fetch').mockImplementation(() => {
+        calls++;
+        if (calls === 1) {
+          firstCall.resolve();
+          return Promise.resolve({ ok: false, status: 429, statusText: 'Too Many Requests', headers: new Headers({ 'retry-after': '2' }) } as Response);
+        }
+        return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve([]), headers: new Headers() } as Response);
+      });
+
+      const request = client.getMyBoards();
+      await firstCall.promise;
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(calls).toBe(1);
+      expect(governor.queueDepth).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(request).resolves.toMatchObject({ data: [] });
+      expect(calls).toBe(2);
+    });
+  });
+});
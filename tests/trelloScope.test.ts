@@ -0,0 +1,147 @@
+import { startFakeTrelloServer, type FakeTrelloServer } from '../src/fake/server.js';
+import { FakeTrelloState } from '../src/fake/state.js';
+import { callTool } from '../src/tools/registry.js';
+import { ResponseCache } from '../src/trello/cache.js';
+import { TrelloClient } from '../src/trello/client.js';
+import { boardScopeFromEnv, type BoardScope } from '../src/trello/scope.js';
+
+const credentials = { apiKey: 'fakeKey', token: 'fakeToken' };
+const WORKSPACE_ID = '64b7f2c5d9a1aaaaaaaaaaaa';
+
+describe('Board scope', () => {
+  let fake: FakeTrelloServer;
+  let allowedBoard: string;
+  let otherBoard: string;
+  let workspaceBoard: string;
+  let allowedCard: string;
+  let otherCard: string;
+  let otherList: string;
+
+  beforeAll(async () => {
+    const state = FakeTrelloState.withSampleData();
+    allowedBoard = [...state.boards.values()][0].id;
+    allowedCard = [...state.cards.values()][0].id;
+
+    const other = state.createBoard({ name: 'Payroll', desc: 'Roadmap for salaries' });
+    otherBoard = other.id;
+    otherList = state.createList({ name: 'Todo', idBoard: other.id }).id;
+    otherCard = state.createCard({ name: 'Roadmap raise', idList: otherList }).id;
+
+    workspaceBoard = state.createBoard({ name: 'Team Roadmap', idOrganization: WORKSPACE_ID }).id;
+
+    fake = await startFakeTrelloServer({ state });
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  function client(scope: Partial<BoardScope>) {
+    return new TrelloClient(credentials, {
+      baseURL: fake.url,
+      cache: new ResponseCache(0),
+      scope: { boards: [], workspaces: [], ...scope }
+    });
+  }
+
+  it('should read the scope from the environment', () => {
+    expect(boardScopeFromEnv({ TRELLO_ALLOWED_BOARDS: ' a, b ,', TRELLO_ALLOWED_WORKSPACES: 'w' }))
+      .toEqual({ boards: ['a', 'b'], workspaces: ['w'] });
+    expect(boardScopeFromEnv({})).toEqual({ boards: [], workspaces: [] });
+  });
+
+  it('should allow everything when the scope is empty', async () => {
+    const { data } = await client({}).getMyBoards();
+
+    expect(data).toHaveLength(3);
+  });
+
+  it('should hide boards outside the scope from listings', async () => {
+    const scoped = client({ boards: [allowedBoard] });
+
+    expect((await scoped.getMyBoards()).data.map(board => board.id)).toEqual([allowedBoard]);
+    await expect(scoped.getBoard(otherBoard)).rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE' });
+  });
+
+  it('should allow every board of an allowed workspace', async () => {
+    const scoped = client({ workspaces: [WORKSPACE_ID] });
+
+    expect((await scoped.getMyBoards()).data.map(board => board.id)).toEqual([workspaceBoard]);
+    await expect(scoped.getBoard(workspaceBoard)).resolves.toBeDefined();
+    await expect(scoped.getBoard(allowedBoard)).rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE' });
+  });
+
+  it('should check cards, lists and new cards against their board', async () => {
+    const scoped = client({ boards: [allowedBoard] });
+
+    await expect(scoped.getCard(allowedCard)).resolves.toBeDefined();
+    await expect(scoped.getCard(otherCard)).rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE', status: 403 });
+    await expect(scoped.getListCards(otherList)).rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE' });
+    await expect(scoped.createCard({ name: 'Sneaky', idList: otherList })).rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE' });
+    expect(fake.state.listCards(otherList).map(card => card.name)).toEqual(['Roadmap raise']);
+  });
+
+  it('should refuse to send a list\'s cards to a board outside the scope', async () => {
+    const scoped = client({ boards: [allowedBoard] });
+    const allowedList = fake.state.cards.get(allowedCard)!.idList;
+
+    await expect(scoped.moveAllCardsInList(allowedList, { idBoard: otherBoard, idList: otherList }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE', message: 'The target board is outside the boards this server is allowed to access' });
+    expect(fake.state.findCard(allowedCard).idList).toBe(allowedList);
+  });
+
+  it('should refuse to move a card to a board outside the scope', async () => {
+    const scoped = client({ boards: [allowedBoard] });
+    const allowedList = fake.state.cards.get(allowedCard)!.idList;
+
+    await expect(scoped.moveCard(allowedCard, { idList: otherList }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE', message: 'The target list is outside the boards this server is allowed to access' });
+    await expect(scoped.updateCard(allowedCard, { idBoard: otherBoard }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE', message: 'The target board is outside the boards this server is allowed to access' });
+    expect(fake.state.findCard(allowedCard)).toMatchObject({ idList: allowedList, idBoard: allowedBoard });
+  });
+
+  it('should only create and copy boards inside an allowed workspace', async () => {
+    const scoped = client({ workspaces: [WORKSPACE_ID] });
+    const boardCount = fake.state.boards.size;
+
+    await expect(scoped.createBoard({ name: 'Loose' })).rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE' });
+    await expect(scoped.copyBoard(otherBoard, { name: 'Payroll copy', idOrganization: WORKSPACE_ID, keepFromSource: 'cards' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN_SCOPE', message: 'The source board is outside the boards this server is allowed to access' });
+    expect(fake.state.boards.size).toBe(boardCount);
+
+    const { data: copy } = await scoped.copyBoard(workspaceBoard, { name: 'Team copy', idOrganization: WORKSPACE_ID, keepFromSource: 'none' });
+    expect(copy.name).toBe('Team copy');
+  });
+
+  it('should filter search results to allowed boards', async () => {
+    const { data } = await client({ boards: [allowedBoard] }).search('roadmap');
+
+    expect(data.boards.map(board => board.id)).toEqual([allowedBoard]);
+    expect(data.cards.every(card => card.idBoard === allowedBoard)).toBe(true);
+  });
+
+  it('should refuse out-of-scope batch items without failing the others', async () => {
+    const { data } = await client({ boards: [allowedBoard] }).batch([`/boards/${allowedBoard}`, `/cards/${otherCard}`]);
+
+    expect(data[0].ok).toBe(true);
+    expect(data[1]).toMatchObject({ ok: false, error: { code: 'FORBIDDEN_SCOPE' } });
+  });
+
+  it('should report scope refusals from tools', async () => {
+    const original = { base: process.env.TRELLO_BASE_URL, boards: process.env.TRELLO_ALLOWED_BOARDS };
+    process.env.TRELLO_BASE_URL = fake.url;
+    process.env.TRELLO_ALLOWED_BOARDS = allowedBoard;
+    try {
+      const result = await callTool('get_card', { ...credentials, cardId: otherCard });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(`Card ${otherCard} is outside the boards this server is allowed to access`);
+    } finally {
+      for (const [name, value] of [['TRELLO_BASE_URL', original.base], ['TRELLO_ALLOWED_BOARDS', original.boards]] as const) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  });
+});
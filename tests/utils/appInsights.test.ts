@@ -194,4 +194,26 @@ describe('ApplicationInsights', () => {
       }).not.toThrow();
     });
   });
+
+  describe('redaction', () => {
+    afterEach(() => {
+      (insights as any).isEnabled = false;
+    });
+
+    it('should scrub credentials before records are tracked', () => {
+      const record = jest.spyOn(insights as any, 'record');
+      (insights as any).isEnabled = true;
+
+      insights.trackDependency('HTTP', 'Trello API', 'https://api.trello.com/1/boards?key=abc&token=def', 50, true, '200', {
+        token: 'def',
+        owner: 'jane@example.com'
+      });
+
+      expect(record).toHaveBeenCalledWith('dependency', expect.objectContaining({
+        data: 'https://api.trello.com/1/boards?key=[REDACTED]&token=[REDACTED]',
+        properties: { token: '[REDACTED]', owner: '[REDACTED]' }
+      }));
+      record.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,44 @@
+import { mapSettled } from '../../src/utils/concurrency';
+
+describe('mapSettled', () => {
+  it('should keep results in input order', async () => {
+    const results = await mapSettled([30, 10, 20], 3, async delay => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return delay;
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 30 },
+      { status: 'fulfilled', value: 10 },
+      { status: 'fulfilled', value: 20 }
+    ]);
+  });
+
+  it('should never run more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapSettled(Array.from({ length: 10 }, (_, index) => index), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should report failures without stopping the other items', async () => {
+    const results = await mapSettled(['a', 'b', 'c'], 1, async item => {
+      if (item === 'b') throw new Error('boom');
+      return item.toUpperCase();
+    });
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect((results[1] as PromiseRejectedResult).reason).toEqual(new Error('boom'));
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapSettled([], 5, async () => 1)).toEqual([]);
+  });
+});
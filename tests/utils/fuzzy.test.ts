@@ -0,0 +1,37 @@
+import { normalizeName, similarity, rankMatches } from '../../src/utils/fuzzy';
+
+describe('fuzzy matching', () => {
+  describe('normalizeName', () => {
+    it('should ignore case, accents and punctuation', () => {
+      expect(normalizeName('  Café — Roadmap!! ')).toBe('cafe roadmap');
+    });
+  });
+
+  describe('similarity', () => {
+    it('should score identical names as 1', () => {
+      expect(similarity('in progress', 'In Progress')).toBe(1);
+    });
+
+    it('should score substrings above unrelated names', () => {
+      expect(similarity('roadmap', 'Product Roadmap')).toBeGreaterThan(similarity('roadmap', 'Bugs'));
+    });
+
+    it('should tolerate small typos', () => {
+      expect(similarity('Bakclog', 'Backlog')).toBeGreaterThanOrEqual(0.6);
+    });
+
+    it('should score empty input as 0', () => {
+      expect(similarity('', 'Backlog')).toBe(0);
+    });
+  });
+
+  describe('rankMatches', () => {
+    it('should drop unrelated names and sort the rest by score', () => {
+      const items = ['Done', 'To Do', 'Doing', 'Engineering'];
+      const matches = rankMatches('to do', items, item => item);
+
+      expect(matches[0].item).toBe('To Do');
+      expect(matches.map(match => match.item)).not.toContain('Engineering');
+    });
+  });
+});
@@ -140,6 +140,17 @@ describe('HealthChecker', () => {
       process.env = originalEnv;
     });
 
+    it('should report the rate limiter queue depth', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        status: 200,
+        ok: true
+      } as Response);
+
+      const status = await healthChecker.getHealthStatus();
+
+      expect(status.services.rateLimiter.queueDepth).toBe(0);
+    });
+
     it('should handle Trello API timeout', async () => {
       // Mock timeout
       global.fetch = jest.fn().mockImplementation(() => 
@@ -82,6 +82,16 @@ describe('Logger', () => {
     expect(logEntry.context).toEqual(context);
   });
 
+  it('should redact credentials and emails from messages and context', () => {
+    delete process.env.LOG_LEVEL;
+    delete process.env.MCP_DESKTOP_MODE;
+    const newLogger = new (logger as any).constructor();
+    newLogger.info('GET /1/members/me?key=abc&token=def', { token: 'def', email: 'jane@example.com' });
+    const logEntry = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+    expect(logEntry.message).toBe('GET /1/members/me?key=[REDACTED]&token=[REDACTED]');
+    expect(logEntry.context).toEqual({ token: '[REDACTED]', email: '[REDACTED]' });
+  });
+
   it('should not log anything when MCP_DESKTOP_MODE is true', () => {
     process.env.LOG_LEVEL = 'DEBUG'; // Set to DEBUG to ensure all levels would normally log
     process.env.MCP_DESKTOP_MODE = 'true';
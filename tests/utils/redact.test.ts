@@ -0,0 +1,44 @@
+import { redact, redactString, REDACTED } from '../../src/utils/redact';
+
+const API_KEY = '0123456789abcdef0123456789abcdef';
+const TOKEN = 'ATTA' + 'f'.repeat(64);
+
+describe('redact', () => {
+  it('should scrub credentials from URLs and OAuth headers', () => {
+    expect(redactString(`https://api.trello.com/1/boards?key=abc&token=def&filter=open`))
+      .toBe(`https://api.trello.com/1/boards?key=${REDACTED}&token=${REDACTED}&filter=open`);
+    expect(redactString(`OAuth oauth_consumer_key="abc", oauth_token="def"`))
+      .toBe(`OAuth oauth_consumer_key=${REDACTED}, oauth_token=${REDACTED}`);
+  });
+
+  it('should scrub bare Trello keys, tokens and email addresses', () => {
+    expect(redactString(`key ${API_KEY} token ${TOKEN} for jane@example.com`))
+      .toBe(`key ${REDACTED} token ${REDACTED} for ${REDACTED}`);
+  });
+
+  it('should leave Trello object IDs alone', () => {
+    expect(redactString('card 64b7f2c5d9a1b3c4d5e6f7a8')).toBe('card 64b7f2c5d9a1b3c4d5e6f7a8');
+  });
+
+  it('should replace secret fields and walk nested values', () => {
+    const input = {
+      apiKey: 'short',
+      nested: { token: 'abc', note: `mail me at jane@example.com`, list: [`?token=xyz`] },
+      count: 3
+    };
+
+    expect(redact(input)).toEqual({
+      apiKey: REDACTED,
+      nested: { token: REDACTED, note: `mail me at ${REDACTED}`, list: [`?token=${REDACTED}`] },
+      count: 3
+    });
+    expect(input.apiKey).toBe('short');
+  });
+
+  it('should survive circular references', () => {
+    const input: Record<string, unknown> = { name: 'loop' };
+    input.self = input;
+
+    expect(redact(input)).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+});
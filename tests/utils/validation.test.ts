@@ -16,8 +16,8 @@ import {
   validateMoveCard,
   getCardSchema,
   validateGetCard,
-  deleteCardSchema,
-  validateDeleteCard,
+  cardIdSchema,
+  validateCardId,
 } from '../../src/utils/validation';
 import { ZodError } from 'zod';
 
@@ -154,10 +154,8 @@ describe('validation utilities', () => {
       const validParams = {
         cardId: '6512e4a208a3061f8a9e5a6a',
         desc: 'Updated Description',
-        closed: true,
         due: '2025-01-02T10:00:00Z',
         dueComplete: true,
-        idList: '6512e4a208a3061f8a9e5a6b',
         pos: 1,
         idMembers: ['6512e4a208a3061f8a9e5a6c'],
         idLabels: ['6512e4a208a3061f8a9e5a6d'],
@@ -165,6 +163,13 @@ describe('validation utilities', () => {
       expect(() => updateCardSchema.parse(validParams)).not.toThrow();
       expect(validateUpdateCard(validParams)).toEqual(validParams);
     });
+
+    it('should point archiving and moving to their own tools', () => {
+      expect(() => validateUpdateCard({ cardId: '6512e4a208a3061f8a9e5a6a', closed: true }))
+        .toThrow('Use trello_archive_card or trello_restore_card to archive or restore a card');
+      expect(() => validateUpdateCard({ cardId: '6512e4a208a3061f8a9e5a6a', idList: '6512e4a208a3061f8a9e5a6b' }))
+        .toThrow('Use move_card to move a card to another list');
+    });
   });
 
   describe('moveCardSchema and validateMoveCard', () => {
@@ -207,17 +212,17 @@ describe('validation utilities', () => {
     });
   });
 
-  describe('deleteCardSchema and validateDeleteCard', () => {
+  describe('cardIdSchema and validateCardId', () => {
     it('should validate correct delete card parameters', () => {
       const validParams = { cardId: '6512e4a208a3061f8a9e5a6a' };
-      expect(() => deleteCardSchema.parse(validParams)).not.toThrow();
-      expect(validateDeleteCard(validParams)).toEqual(validParams);
+      expect(() => cardIdSchema.parse(validParams)).not.toThrow();
+      expect(validateCardId(validParams)).toEqual(validParams);
     });
 
     it('should reject delete card parameters with invalid cardId', () => {
       const invalidParams = { cardId: 'invalid' };
-      expect(() => deleteCardSchema.parse(invalidParams)).toThrow(ZodError);
-      expect(() => validateDeleteCard(invalidParams)).toThrow(ZodError);
+      expect(() => cardIdSchema.parse(invalidParams)).toThrow(ZodError);
+      expect(() => validateCardId(invalidParams)).toThrow(ZodError);
     });
   });
 